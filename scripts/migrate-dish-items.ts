@@ -0,0 +1,49 @@
+/**
+ * 菜单数据迁移脚本：字符串菜品 → 结构化 DishItem
+ *
+ * 旧版本的 Menu.weekMenu 保存的是 `可乐鸡翅(主荤)(历史)` 形式的字符串，
+ * 本脚本将所有旧数据转换为 { name, type, isHistorical } 结构。
+ * 已经是结构化数据的记录会被跳过，可以重复执行。
+ *
+ * 使用方式：
+ *   npm run db:migrate-dish-items            # 执行迁移
+ *   npm run db:migrate-dish-items -- --dry-run  # 只统计，不写入
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { isLegacyWeekMenu, normalizeWeekMenu } from '../src/lib/menu-format'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  const menus = await prisma.menu.findMany({
+    include: { canteen: { select: { hotDishCount: true } } },
+  })
+
+  let migrated = 0
+  for (const menu of menus) {
+    if (!isLegacyWeekMenu(menu.weekMenu)) {
+      continue
+    }
+
+    // 缺少分类标注的旧菜品按所在位置推断热菜/凉菜
+    const weekMenu = normalizeWeekMenu(menu.weekMenu, menu.canteen.hotDishCount)
+    if (!dryRun) {
+      await prisma.menu.update({
+        where: { id: menu.id },
+        data: { weekMenu: weekMenu as object },
+      })
+    }
+    migrated++
+  }
+
+  console.log(`${dryRun ? '[dry-run] ' : ''}Migrated ${migrated} of ${menus.length} menus to structured dishes`)
+}
+
+main()
+  .catch(error => {
+    console.error('Dish item migration failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
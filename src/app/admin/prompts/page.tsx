@@ -0,0 +1,415 @@
+/**
+ * Prompt模板管理页面
+ *
+ * 管理员使用管理员密码登录后可以：
+ * 1. 查看内置模板和已保存的模板版本，对比各版本最近一段时间的生成效果
+ * 2. 为各版本设置流量权重，之后的生成按权重随机使用各版本，所有权重为0时使用内置模板
+ * 3. 以内置模板或某个版本为基础修改系统提示、参数映射、参考数据和菜品分类定义，保存为新版本
+ *
+ * 版本保存后内容不再修改，效果统计始终对应确定的模板内容。
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Layout, Card, Form, Button, Space, Typography, Table, Select, InputNumber, Input, Tag, message, Spin
+} from 'antd'
+import { ExperimentOutlined, LockOutlined } from '@ant-design/icons'
+import type { PromptTemplateContent, PromptTemplateVersion, PromptVersionMetrics } from '@/types'
+import { MAX_TEMPLATE_DESCRIPTION_LENGTH } from '@/lib/prompt-template'
+
+const { Header, Content } = Layout
+const { Title, Text, Paragraph } = Typography
+const { TextArea } = Input
+
+/** 基础版本选择中表示内置模板的值 */
+const BUILTIN = 0
+
+interface TemplateRow {
+  /** 版本号，内置模板为null */
+  version: number | null
+  description: string
+  createdAt: string | null
+  metrics: PromptVersionMetrics | undefined
+}
+
+const formatRate = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : `${Math.round(value * 100)}%`
+
+export default function PromptTemplatesPage() {
+  const [loading, setLoading] = useState(true)
+  const [authorized, setAuthorized] = useState(false)
+  const [loggingIn, setLoggingIn] = useState(false)
+  const [builtin, setBuiltin] = useState<PromptTemplateContent | null>(null)
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([])
+  const [weights, setWeights] = useState<Record<number, number>>({})
+  const [savingWeights, setSavingWeights] = useState(false)
+  const [days, setDays] = useState(30)
+  const [metrics, setMetrics] = useState<PromptVersionMetrics[]>([])
+  const [baseVersion, setBaseVersion] = useState(BUILTIN)
+  const [creating, setCreating] = useState(false)
+  const [form] = Form.useForm<PromptTemplateContent & { description: string }>()
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/prompt-templates')
+      if (response.status === 401) {
+        setAuthorized(false)
+        return
+      }
+      const result = await response.json()
+      if (result.success) {
+        setAuthorized(true)
+        setBuiltin(result.data.builtin)
+        setVersions(result.data.versions)
+        setWeights(Object.fromEntries(
+          (result.data.versions as PromptTemplateVersion[]).map(version => [version.version, version.trafficWeight])
+        ))
+      } else {
+        message.error(result.error || '获取Prompt模板失败')
+      }
+    } catch (error) {
+      console.error('Fetch prompt templates failed:', error)
+      message.error('网络错误')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchMetrics = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/prompt-templates/metrics?days=${days}`)
+      const result = await response.json()
+      if (result.success) {
+        setMetrics(result.data.metrics)
+      }
+    } catch (error) {
+      console.error('Fetch prompt template metrics failed:', error)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  useEffect(() => {
+    if (authorized) {
+      fetchMetrics()
+    }
+  }, [authorized, fetchMetrics])
+
+  // 切换基础版本或加载完模板后，把基础版本的内容填入新建表单
+  useEffect(() => {
+    const base = baseVersion === BUILTIN ? builtin : versions.find(item => item.version === baseVersion)?.content
+    if (base) {
+      form.setFieldsValue(base)
+    }
+  }, [baseVersion, builtin, versions, form])
+
+  const handleLogin = async (values: { password: string }) => {
+    setLoggingIn(true)
+    try {
+      const response = await fetch('/api/admin/login', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(values),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        await fetchTemplates()
+      } else {
+        message.error(data.error || '登录失败')
+      }
+    } catch (error) {
+      console.error('Admin login failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setLoggingIn(false)
+    }
+  }
+
+  const handleSaveWeights = async () => {
+    setSavingWeights(true)
+    try {
+      const response = await fetch('/api/admin/prompt-templates/traffic', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          weights: Object.entries(weights).map(([version, weight]) => ({ version: Number(version), weight })),
+        }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success('流量分配已保存，之后的生成按新的权重选择模板')
+        await fetchTemplates()
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save prompt template traffic failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSavingWeights(false)
+    }
+  }
+
+  const handleCreate = async ({ description, ...content }: PromptTemplateContent & { description: string }) => {
+    setCreating(true)
+    try {
+      const response = await fetch('/api/admin/prompt-templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ description, content }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success(`已保存为版本${data.data.version}，设置流量权重后开始使用`)
+        form.setFieldValue('description', '')
+        await fetchTemplates()
+        setBaseVersion(data.data.version)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Create prompt template failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spin size="large" />
+      </div>
+    )
+  }
+
+  if (!authorized) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <Card title="管理员登录" style={{ width: 360 }}>
+          <Form onFinish={handleLogin} layout="vertical">
+            <Form.Item name="password" rules={[{ required: true, message: '请输入管理员密码' }]}>
+              <Input.Password prefix={<LockOutlined />} placeholder="管理员密码" />
+            </Form.Item>
+            <Button type="primary" htmlType="submit" block loading={loggingIn}>
+              登录
+            </Button>
+          </Form>
+        </Card>
+      </div>
+    )
+  }
+
+  // 各版本按权重分到的流量比例；没有任何权重时全部使用内置模板
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0)
+  const rows: TemplateRow[] = [
+    { version: null, description: '内置模板', createdAt: null, metrics: metrics.find(item => item.version === null) },
+    ...versions.map(item => ({
+      version: item.version,
+      description: item.description,
+      createdAt: item.createdAt,
+      metrics: metrics.find(entry => entry.version === item.version),
+    })),
+  ]
+
+  const columns = [
+    {
+      title: '版本',
+      key: 'version',
+      width: 80,
+      render: (_: unknown, row: TemplateRow) => (row.version === null ? <Tag>内置</Tag> : `v${row.version}`),
+    },
+    {
+      title: '修改说明',
+      key: 'description',
+      render: (_: unknown, row: TemplateRow) => (
+        <div>
+          <div>{row.description}</div>
+          {row.createdAt && <Text type="secondary" className="text-xs">{new Date(row.createdAt).toLocaleString('zh-CN')}</Text>}
+        </div>
+      ),
+    },
+    {
+      title: '流量权重',
+      key: 'weight',
+      width: 150,
+      render: (_: unknown, row: TemplateRow) => {
+        if (row.version === null) {
+          return <Text type="secondary">{totalWeight === 0 ? '全部流量' : '不分配'}</Text>
+        }
+        const weight = weights[row.version] ?? 0
+        return (
+          <Space>
+            <InputNumber
+              min={0}
+              max={100}
+              value={weight}
+              onChange={value => setWeights({ ...weights, [row.version!]: value ?? 0 })}
+              className="w-20"
+            />
+            <Text type="secondary">{totalWeight > 0 ? `${Math.round(weight / totalWeight * 100)}%` : ''}</Text>
+          </Space>
+        )
+      },
+    },
+    {
+      title: '生成次数',
+      key: 'runCount',
+      width: 90,
+      render: (_: unknown, row: TemplateRow) => row.metrics?.runCount ?? 0,
+    },
+    {
+      title: '校验通过率',
+      key: 'passRate',
+      width: 100,
+      render: (_: unknown, row: TemplateRow) => formatRate(row.metrics?.passRate),
+    },
+    {
+      title: '平均重试',
+      key: 'averageRetries',
+      width: 90,
+      render: (_: unknown, row: TemplateRow) => (row.metrics ? row.metrics.averageRetries.toFixed(2) : '-'),
+    },
+    {
+      title: '编辑比例',
+      key: 'editRate',
+      width: 90,
+      render: (_: unknown, row: TemplateRow) => formatRate(row.metrics?.editRate),
+    },
+    {
+      title: '平均耗时',
+      key: 'averageLatencyMs',
+      width: 90,
+      render: (_: unknown, row: TemplateRow) => (row.metrics ? `${(row.metrics.averageLatencyMs / 1000).toFixed(1)}秒` : '-'),
+    },
+  ]
+
+  return (
+    <Layout className="min-h-screen">
+      <Header className="bg-blue-600 shadow-sm border-b">
+        <Space>
+          <ExperimentOutlined className="text-white text-xl" />
+          <Title level={4} style={{ color: 'white', margin: 0 }}>
+            Prompt模板管理
+          </Title>
+        </Space>
+      </Header>
+
+      <Content className="p-6 bg-gray-50">
+        <div className="max-w-6xl mx-auto">
+          <Card
+            title="版本与流量分配"
+            className="mb-6"
+            extra={
+              <Space>
+                <Text>统计最近</Text>
+                <Select
+                  value={days}
+                  onChange={setDays}
+                  options={[7, 30, 90].map(value => ({ value, label: `${value}天` }))}
+                  style={{ width: 90 }}
+                />
+              </Space>
+            }
+          >
+            <Paragraph type="secondary">
+              每次完整生成按流量权重随机选择一个版本，所有版本的权重都为0时使用内置模板；
+              局部重新生成沿用菜单生成时的版本。校验通过率统计最终菜单通过全部规则校验的比例，
+              编辑比例统计保存的菜单中被厨师手动编辑过的比例。
+            </Paragraph>
+            <Table
+              columns={columns}
+              dataSource={rows}
+              rowKey={row => row.version ?? BUILTIN}
+              pagination={false}
+              size="small"
+              className="mb-4"
+            />
+            <Button type="primary" loading={savingWeights} disabled={versions.length === 0} onClick={handleSaveWeights}>
+              保存流量分配
+            </Button>
+          </Card>
+
+          <Card title="新建版本">
+            <Form form={form} layout="vertical" onFinish={handleCreate}>
+              <Form.Item label="基础版本">
+                <Select
+                  value={baseVersion}
+                  onChange={setBaseVersion}
+                  options={[
+                    { value: BUILTIN, label: '内置模板' },
+                    ...versions.map(item => ({ value: item.version, label: `v${item.version} ${item.description}` })),
+                  ]}
+                  style={{ width: 360 }}
+                />
+              </Form.Item>
+
+              <Form.Item
+                name="systemPrompt"
+                label="系统提示"
+                extra="{天数}、{餐次}在生成时填写"
+                rules={[{ required: true, whitespace: true, message: '请输入系统提示' }]}
+              >
+                <TextArea autoSize={{ minRows: 2 }} />
+              </Form.Item>
+
+              {builtin && Object.entries(builtin.parameterMappings).map(([group, options]) => (
+                <Card key={group} size="small" title={`参数映射：${group}`} className="mb-4">
+                  {Object.keys(options).map(option => (
+                    <Form.Item key={option} name={['parameterMappings', group, option]} label={option} className="mb-2">
+                      <Input />
+                    </Form.Item>
+                  ))}
+                </Card>
+              ))}
+
+              {builtin && Object.keys(builtin.referenceData).map(name => (
+                <Form.Item
+                  key={name}
+                  name={['referenceData', name]}
+                  label={`参考数据：${name}`}
+                  rules={[{ required: true, whitespace: true, message: '请输入参考数据' }]}
+                >
+                  <TextArea autoSize={{ minRows: 2 }} />
+                </Form.Item>
+              ))}
+
+              <Form.Item
+                name="categoryDefinitions"
+                label="菜品分类定义"
+                rules={[{ required: true, whitespace: true, message: '请输入菜品分类定义' }]}
+              >
+                <TextArea autoSize={{ minRows: 4 }} />
+              </Form.Item>
+
+              <Form.Item
+                name="description"
+                label="修改说明"
+                rules={[{ required: true, whitespace: true, message: '请说明本版本修改了什么' }]}
+              >
+                <Input maxLength={MAX_TEMPLATE_DESCRIPTION_LENGTH} showCount placeholder="如：强化辣味菜比例要求" />
+              </Form.Item>
+
+              <Button type="primary" htmlType="submit" loading={creating}>
+                保存为新版本
+              </Button>
+            </Form>
+          </Card>
+        </div>
+      </Content>
+    </Layout>
+  )
+}
@@ -0,0 +1,80 @@
+/**
+ * 管理员登录API路由
+ *
+ * 管理员使用环境变量 ADMIN_PASSWORD 中配置的密码登录，登录后可以管理Prompt模板版本。
+ * 管理员身份与食堂账号相互独立，保存在单独的 admin-token Cookie 中，1天有效。
+ * 未配置 ADMIN_PASSWORD 时不开放管理员登录。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createHash, timingSafeEqual } from 'crypto'
+import jwt from 'jsonwebtoken'
+
+/**
+ * 处理管理员登录请求
+ *
+ * @param request HTTP请求对象，包含管理员密码
+ * @returns 登录成功时设置管理员Cookie
+ *
+ * 处理流程：
+ * 1. 检查是否配置了管理员密码
+ * 2. 比较密码的哈希值，比较耗时与密码内容无关，防止时序攻击
+ * 3. 生成包含管理员角色的JWT Token并设置安全Cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminPassword = process.env.ADMIN_PASSWORD
+    if (!adminPassword) {
+      return NextResponse.json(
+        { error: '未配置管理员密码，无法登录' },
+        { status: 503 }
+      )
+    }
+
+    const { password } = await request.json()
+    if (!password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: '请输入管理员密码' },
+        { status: 400 }
+      )
+    }
+
+    // 比较固定长度的哈希值，timingSafeEqual要求两边长度相同
+    const digest = (value: string) => createHash('sha256').update(value).digest()
+    if (!timingSafeEqual(digest(password), digest(adminPassword))) {
+      return NextResponse.json(
+        { error: '管理员密码错误' },
+        { status: 401 }
+      )
+    }
+
+    const token = jwt.sign(
+      { role: 'admin' },
+      process.env.NEXTAUTH_SECRET || 'fallback-secret',
+      { expiresIn: '1d' }
+    )
+
+    console.log('Admin login successful')
+
+    const response = NextResponse.json({
+      success: true,
+    })
+
+    response.cookies.set('admin-token', token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24,
+      path: '/',
+    })
+
+    return response
+
+  } catch (error) {
+    console.error('Admin login error:', error)
+    return NextResponse.json(
+      { error: '登录失败，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Prompt模板效果对比API路由
+ *
+ * 按模板版本统计最近一段时间完整生成的校验通过率、平均纠正重试次数、
+ * 菜单被厨师手动编辑的比例和平均耗时，用于对比不同版本的效果。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest } from '@/lib/auth'
+import { getPromptVersionMetrics } from '@/lib/prompt-versions'
+
+/** 可以选择的统计天数 */
+const METRICS_PERIODS = [7, 30, 90]
+
+/**
+ * 获取各模板版本的生成效果
+ *
+ * @param request 查询参数 days：统计最近几天，默认30
+ * @returns 每个有生成记录的版本一项，内置模板的版本为null
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!(await isAdminRequest())) {
+      return NextResponse.json(
+        { error: '需要管理员登录' },
+        { status: 401 }
+      )
+    }
+
+    const days = Number(request.nextUrl.searchParams.get('days') || 30)
+    if (!METRICS_PERIODS.includes(days)) {
+      return NextResponse.json(
+        { error: `统计天数只能是${METRICS_PERIODS.join('、')}天` },
+        { status: 400 }
+      )
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        days,
+        metrics: await getPromptVersionMetrics(since),
+      },
+    })
+
+  } catch (error) {
+    console.error('Get prompt template metrics error:', error)
+    return NextResponse.json(
+      { error: '获取模板效果失败' },
+      { status: 500 }
+    )
+  }
+}
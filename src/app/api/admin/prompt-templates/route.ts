@@ -0,0 +1,96 @@
+/**
+ * Prompt模板版本管理API路由
+ *
+ * 管理员查看内置模板和已保存的模板版本，并在此基础上保存新版本。
+ * 版本保存后内容不再修改，新版本初始不分配流量，需要在流量分配中设置权重后才会被使用。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest } from '@/lib/auth'
+import { DEFAULT_PROMPT_TEMPLATE, MAX_TEMPLATE_DESCRIPTION_LENGTH, readPromptTemplateContent } from '@/lib/prompt-template'
+import { createPromptVersion, listPromptVersions } from '@/lib/prompt-versions'
+
+/**
+ * 获取内置模板和所有模板版本
+ *
+ * @returns 内置模板内容，以及按版本号从新到旧排列的模板版本
+ */
+export async function GET() {
+  try {
+    if (!(await isAdminRequest())) {
+      return NextResponse.json(
+        { error: '需要管理员登录' },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        builtin: DEFAULT_PROMPT_TEMPLATE,
+        versions: await listPromptVersions(),
+      },
+    })
+
+  } catch (error) {
+    console.error('Get prompt templates error:', error)
+    return NextResponse.json(
+      { error: '获取Prompt模板失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 保存新的模板版本
+ *
+ * @param request 请求体：{ description, content }
+ * @returns 新版本的版本号
+ *
+ * 处理流程：
+ * 1. 验证管理员身份
+ * 2. 检查修改说明，校验并整理模板内容
+ * 3. 以现有最大版本号加1保存，初始流量权重为0
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isAdminRequest())) {
+      return NextResponse.json(
+        { error: '需要管理员登录' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const description = typeof body.description === 'string' ? body.description.trim() : ''
+    if (!description || description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `请填写修改说明，不超过${MAX_TEMPLATE_DESCRIPTION_LENGTH}个字` },
+        { status: 400 }
+      )
+    }
+
+    const { content, error } = readPromptTemplateContent(body.content)
+    if (!content) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const version = await createPromptVersion(description, content)
+    console.log(`Prompt template version ${version} created`)
+
+    return NextResponse.json({
+      success: true,
+      data: { version },
+    })
+
+  } catch (error) {
+    console.error('Create prompt template error:', error)
+    return NextResponse.json(
+      { error: '保存Prompt模板失败' },
+      { status: 500 }
+    )
+  }
+}
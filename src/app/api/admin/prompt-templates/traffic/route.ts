@@ -0,0 +1,87 @@
+/**
+ * Prompt模板流量分配API路由
+ *
+ * 管理员为各模板版本设置流量权重，每次完整生成按权重随机选定一个版本。
+ * 权重为0的版本不参与分配；所有版本的权重都为0时使用内置模板。
+ * 修改只影响之后发起的生成，已生成的菜单在局部重新生成时仍使用原来的版本。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+
+/** 单个版本流量权重的上限 */
+const MAX_TRAFFIC_WEIGHT = 100
+
+/**
+ * 更新模板版本的流量权重
+ *
+ * @param request 请求体：{ weights: [{ version, weight }] }，没有列出的版本保持不变
+ * @returns 更新结果
+ *
+ * 处理流程：
+ * 1. 验证管理员身份
+ * 2. 检查版本号不重复、权重为范围内的整数，版本都存在
+ * 3. 在同一事务中更新各版本的权重
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    if (!(await isAdminRequest())) {
+      return NextResponse.json(
+        { error: '需要管理员登录' },
+        { status: 401 }
+      )
+    }
+
+    const { weights } = await request.json() as { weights?: Array<{ version?: unknown; weight?: unknown }> }
+    if (!Array.isArray(weights)) {
+      return NextResponse.json(
+        { error: '流量权重格式错误' },
+        { status: 400 }
+      )
+    }
+
+    const updates = new Map<number, number>()
+    for (const item of weights) {
+      const { version, weight } = item || {}
+      if (!Number.isInteger(version) || updates.has(version as number)) {
+        return NextResponse.json(
+          { error: '模板版本无效或重复' },
+          { status: 400 }
+        )
+      }
+      if (!Number.isInteger(weight) || (weight as number) < 0 || (weight as number) > MAX_TRAFFIC_WEIGHT) {
+        return NextResponse.json(
+          { error: `版本${version}的流量权重必须是0到${MAX_TRAFFIC_WEIGHT}之间的整数` },
+          { status: 400 }
+        )
+      }
+      updates.set(version as number, weight as number)
+    }
+
+    const existing = await prisma.promptTemplate.count({ where: { version: { in: [...updates.keys()] } } })
+    if (existing !== updates.size) {
+      return NextResponse.json(
+        { error: '模板版本不存在' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.$transaction([...updates].map(([version, weight]) =>
+      prisma.promptTemplate.update({ where: { version }, data: { trafficWeight: weight } })
+    ))
+    console.log('Prompt template traffic weights updated:', Object.fromEntries(updates))
+
+    return NextResponse.json({
+      success: true,
+      message: '流量分配已更新',
+    })
+
+  } catch (error) {
+    console.error('Update prompt template traffic error:', error)
+    return NextResponse.json(
+      { error: '更新流量分配失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -65,6 +65,10 @@ export async function GET() {
         hotDishCount: true,
         coldDishCount: true,
         mealType: true,
+        repeatAvoidanceWeeks: true,
+        mealSlots: true,
+        serviceDays: true,
+        equipment: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -31,6 +31,7 @@ import { prisma } from '@/lib/db'
  * - coldDishCount: 凉菜数量（可选，默认3）
  * - mealType: 餐制类型（可选，默认"定价餐"）
  * - historicalMenus: 历史菜单数据（可选，默认空数组）
+ * - repeatAvoidanceWeeks: 近N周菜品不重复（可选，默认2）
  * 
  * 安全措施：
  * - 密码bcrypt加密（成本因子12）
@@ -41,7 +42,7 @@ import { prisma } from '@/lib/db'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { canteenName, password, hotDishCount, coldDishCount, mealType, historicalMenus } = body
+    const { canteenName, password, hotDishCount, coldDishCount, mealType, historicalMenus, repeatAvoidanceWeeks } = body
 
     // 验证必填字段 - 确保核心信息完整
     if (!canteenName || !password) {
@@ -72,6 +73,7 @@ export async function POST(request: NextRequest) {
       coldDishCount: coldDishCount || 3,          // 默认3个凉菜  
       mealType: mealType || '定价餐',             // 默认定价餐模式
       historicalMenus: historicalMenus || [],     // 默认空的历史菜单
+      repeatAvoidanceWeeks: repeatAvoidanceWeeks ?? 2,  // 默认近2周不重复
     })
 
     // 返回成功响应，安全地排除密码字段
@@ -0,0 +1,76 @@
+/**
+ * 烹饪设备登记API路由
+ *
+ * 登记食堂厨房实际的烹饪设备（炒锅、蒸屉、烤箱、炖锅、烧锅、砂锅、炸炉）的台数
+ * 和每台每餐可以出的菜品道数，之后生成的菜单按设备产能安排和校验。
+ * 清除登记后恢复使用生成时勾选的设备紧缺情况。
+ * 已经生成的菜单保存了生成时的设备快照，不受修改影响。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { readEquipment } from '@/lib/equipment'
+
+/**
+ * 更新烹饪设备登记
+ *
+ * 请求体参数：
+ * - equipment: EquipmentItem[] | null - 每种设备的 kind、quantity（台数，0表示没有）、
+ *   capacity（每台每餐出菜道数），每种设备最多一项；传null表示清除登记
+ *
+ * @param request HTTP请求对象
+ * @returns 保存后的设备登记
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据并验证参数
+    const body = await request.json()
+    let equipment: Prisma.InputJsonValue | typeof Prisma.DbNull = Prisma.DbNull
+    if (body.equipment !== null) {
+      const result = readEquipment(body.equipment)
+      if (!result.equipment) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        )
+      }
+      equipment = result.equipment as object[]
+    }
+
+    const canteen = await prisma.canteen.update({
+      where: { id: decoded.canteenId },
+      data: { equipment },
+      select: { equipment: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        equipment: canteen.equipment,
+      },
+    })
+
+  } catch (error) {
+    console.error('Update equipment error:', error)
+    return NextResponse.json(
+      { error: '保存设备登记失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * 餐次设置API路由
+ *
+ * 设置食堂一天中的餐次（如早餐、午餐、晚餐）以及每个餐次的菜品数量。
+ * 清空餐次后恢复单餐模式：只生成午餐，数量取注册时的热菜、凉菜数量。
+ * 已经生成的菜单保存了生成时的餐次快照，不受修改影响。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { readMealSlots } from '@/lib/meal-slots'
+
+/**
+ * 更新餐次配置
+ *
+ * 请求体参数：
+ * - mealSlots: MealSlot[] - 餐次列表（最多4个），按一天中的先后顺序排列；
+ *   每个餐次包含 name、coldDishCount、mainMeatCount、halfMeatCount、vegetarianCount，
+ *   热菜数量按主荤、半荤、素菜之和计算。传空数组表示恢复单餐模式
+ *
+ * @param request HTTP请求对象
+ * @returns 保存后的餐次配置
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据并验证参数
+    const body = await request.json()
+    const { slots, error } = readMealSlots(body.mealSlots)
+    if (!slots) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const canteen = await prisma.canteen.update({
+      where: { id: decoded.canteenId },
+      data: { mealSlots: slots.length > 0 ? slots as object[] : Prisma.DbNull },
+      select: { mealSlots: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        mealSlots: canteen.mealSlots,
+      },
+    })
+
+  } catch (error) {
+    console.error('Update meal slots error:', error)
+    return NextResponse.json(
+      { error: '保存餐次设置失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * 开菜规则设置API路由
+ *
+ * 食堂可以停用内置的开菜规则、修改规则的阈值（如烹饪方法种数、每餐勾芡菜上限），
+ * 并补充自己的规则。之后生成的菜单按这些规则组装Prompt和校验；
+ * 已经生成的菜单保存了生成时的规则快照，不受修改影响。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { getConfiguredMenuRules, readMenuRules } from '@/lib/menu-rules'
+
+/**
+ * 获取开菜规则设置
+ *
+ * 没有设置过的食堂返回默认规则。
+ *
+ * @returns 食堂名称和开菜规则设置
+ */
+export async function GET() {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    const canteen = await prisma.canteen.findUnique({
+      where: { id: decoded.canteenId },
+      select: { canteenName: true, menuRules: true },
+    })
+
+    if (!canteen) {
+      return NextResponse.json(
+        { error: '食堂不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        canteenName: canteen.canteenName,
+        menuRules: getConfiguredMenuRules(canteen.menuRules),
+      },
+    })
+
+  } catch (error) {
+    console.error('Get menu rules error:', error)
+    return NextResponse.json(
+      { error: '获取开菜规则失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 更新开菜规则设置
+ *
+ * 请求体参数：
+ * - menuRules.rules: Array<{ id, enabled, threshold? }> - 内置规则的开关和阈值，没有列出的规则按默认设置
+ * - menuRules.customRules: string[] - 补充规则，最多10条，每条不超过100个字，空行忽略
+ *
+ * @param request HTTP请求对象
+ * @returns 保存后的开菜规则设置
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据并验证参数
+    const body = await request.json()
+    const { settings, error } = readMenuRules(body.menuRules)
+    if (!settings) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    const canteen = await prisma.canteen.update({
+      where: { id: decoded.canteenId },
+      data: { menuRules: settings as object },
+      select: { menuRules: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        menuRules: canteen.menuRules,
+      },
+    })
+
+  } catch (error) {
+    console.error('Update menu rules error:', error)
+    return NextResponse.json(
+      { error: '保存开菜规则失败' },
+      { status: 500 }
+    )
+  }
+}
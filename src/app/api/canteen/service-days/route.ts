@@ -0,0 +1,69 @@
+/**
+ * 供餐日设置API路由
+ *
+ * 设置食堂每周供餐的日子，如工厂食堂周一到周六、医院食堂一周七天。
+ * 之后生成的菜单按供餐日生成、校验和导出；已经生成的菜单保存了
+ * 生成时的供餐日快照，不受修改影响。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { readServiceDays } from '@/lib/service-days'
+
+/**
+ * 更新供餐日配置
+ *
+ * 请求体参数：
+ * - serviceDays: string[] - 供餐日，取值为 monday…sunday，至少一天，保存时按周一到周日排序
+ *
+ * @param request HTTP请求对象
+ * @returns 保存后的供餐日配置
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据并验证参数
+    const body = await request.json()
+    const serviceDays = readServiceDays(body.serviceDays)
+    if (!serviceDays) {
+      return NextResponse.json(
+        { error: '请至少选择一个供餐日' },
+        { status: 400 }
+      )
+    }
+
+    const canteen = await prisma.canteen.update({
+      where: { id: decoded.canteenId },
+      data: { serviceDays },
+      select: { serviceDays: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        serviceDays: canteen.serviceDays,
+      },
+    })
+
+  } catch (error) {
+    console.error('Update service days error:', error)
+    return NextResponse.json(
+      { error: '保存供餐日设置失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * 生成任务状态API路由
+ *
+ * 前端轮询该接口获取任务状态：排队中、生成中（包含已完成的天和当前阶段）、
+ * 成功（包含最终菜单和校验结果）或失败（包含失败原因）。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { getGenerationJob } from '@/lib/generation-jobs'
+
+/**
+ * 获取生成任务状态
+ *
+ * 只能查看本食堂的任务。
+ *
+ * @param request Next.js请求对象
+ * @param context 路由参数，id为任务ID
+ * @returns JSON响应，包含任务状态、进度和结果
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    // 不属于当前食堂时同样返回不存在，避免泄露其他食堂的任务
+    const job = await getGenerationJob(id, decoded.canteenId)
+    if (!job) {
+      return NextResponse.json(
+        { error: '生成任务不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    })
+
+  } catch (error) {
+    console.error('Get generation job error:', error)
+    return NextResponse.json(
+      { error: '获取生成任务失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * 选定候选方案API路由
+ *
+ * 同时生成多份候选方案后，厨师长可以选用其中一份，
+ * 或者逐天从不同方案中挑选组合，只有选定的结果会保存为菜单。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { saveCandidateSelection } from '@/lib/generation-jobs'
+import { WEEK_DAYS } from '@/lib/menu-format'
+import { MenuGenerationError } from '@/lib/menu-generation'
+import type { CandidateSelection, WeekDay } from '@/types'
+
+/**
+ * 校验请求中每天选用的方案序号
+ *
+ * 只接受星期键和非负整数序号；是否正好覆盖菜单的供餐日、序号是否指向生成成功的方案在组合时检查。
+ */
+function readSelection(raw: unknown): CandidateSelection | null {
+  if (!raw || typeof raw !== 'object') return null
+
+  const selection: CandidateSelection = {}
+  for (const [day, index] of Object.entries(raw)) {
+    if (!WEEK_DAYS.includes(day as WeekDay)) return null
+    if (!Number.isInteger(index) || (index as number) < 0) return null
+    selection[day as WeekDay] = index as number
+  }
+  return Object.keys(selection).length > 0 ? selection : null
+}
+
+/**
+ * 保存选定或组合的候选方案
+ *
+ * 处理流程：
+ * 1. JWT身份验证
+ * 2. 校验每天选用的方案序号
+ * 3. 组合菜单，重新核实和校验后保存
+ *
+ * @param request 请求体为 { selection: { monday: 0, tuesday: 2, ... } }，
+ *   选用整套方案时每天传相同的序号
+ * @param context 路由参数，id为生成任务ID
+ * @returns JSON响应，包含保存后的菜单和校验结果
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const body = await request.json()
+    const selection = readSelection(body.selection)
+    if (!selection) {
+      return NextResponse.json(
+        { error: '请为每一天选择一份候选方案' },
+        { status: 400 }
+      )
+    }
+
+    const { job, menuId, revision } = await saveCandidateSelection(id, decoded.canteenId, selection)
+
+    return NextResponse.json({
+      success: true,
+      menu: job.weekMenu,
+      menuId,
+      revision,
+      validation: job.validation,
+      historicalCheck: job.historicalCheck,
+      repeatCheck: job.repeatCheck,
+      seasonalCheck: job.seasonalCheck,
+      runId: job.runId,
+    })
+
+  } catch (error) {
+    if (error instanceof MenuGenerationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Select menu candidate error:', error)
+    return NextResponse.json(
+      { error: '系统错误，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * 异步菜单生成任务API路由
+ *
+ * 创建生成任务后立即返回任务ID，生成在后台队列中进行，
+ * 前端通过 GET /api/generate-menu/jobs/{id} 轮询进度和结果。
+ * 适合Serverless等请求时长受限的部署环境，关闭页面也不会丢失结果。
+ * 可以同时生成多份候选方案，由厨师长对比后选定或组合再保存，
+ * 也可以一次生成连续几周的循环菜单。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { enqueueGenerationJob, findActiveGenerationJob, findResumableGenerationJob } from '@/lib/generation-jobs'
+import { checkGenerationAllowance } from '@/lib/generation-quota'
+import { resolveGenerationParams } from '@/lib/meal-slots'
+import { MAX_CANDIDATES } from '@/lib/menu-candidates'
+import { MAX_CYCLE_WEEKS, resolveCycleParams } from '@/lib/menu-cycle'
+import { selectPromptVersion } from '@/lib/prompt-versions'
+import type { GenerationParams } from '@/types'
+
+/**
+ * 创建菜单生成任务
+ *
+ * 处理流程：
+ * 1. JWT身份验证和权限检查
+ * 2. 确定生成参数，生成循环菜单时检查之后各周是否都有供餐日
+ * 3. 同一食堂已有排队或生成中的任务时拒绝重复提交
+ * 4. 检查生成配额和请求频率，每份候选方案、循环菜单的每一周各计一次
+ * 5. 创建任务并放入队列
+ *
+ * @param request Next.js请求对象，请求体与 POST /api/generate-menu 相同，
+ *   另可传 candidateCount（1-3，默认1）同时生成多份候选方案，
+ *   或传 cycleWeeks（1-4，默认1）生成连续几周的循环菜单，两者不能同时大于1
+ * @returns JSON响应（202），包含任务ID和状态
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 验证身份 - 确保只有登录用户才能生成菜单
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据
+    const body = await request.json()
+    const { canteenId, params: requestedParams, candidateCount = 1, cycleWeeks = 1 } = body as {
+      canteenId: string
+      params: GenerationParams
+      candidateCount?: number
+      cycleWeeks?: number
+    }
+
+    // 验证权限
+    if (decoded.canteenId !== canteenId) {
+      return NextResponse.json(
+        { error: '无权限操作此食堂' },
+        { status: 403 }
+      )
+    }
+
+    if (!Number.isInteger(candidateCount) || candidateCount < 1 || candidateCount > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `候选方案数量应为1-${MAX_CANDIDATES}份` },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(cycleWeeks) || cycleWeeks < 1 || cycleWeeks > MAX_CYCLE_WEEKS) {
+      return NextResponse.json(
+        { error: `循环周数应为1-${MAX_CYCLE_WEEKS}周` },
+        { status: 400 }
+      )
+    }
+
+    if (cycleWeeks > 1 && candidateCount > 1) {
+      return NextResponse.json(
+        { error: '生成循环菜单时不能同时生成多份候选方案' },
+        { status: 400 }
+      )
+    }
+
+    const canteen = await prisma.canteen.findUnique({
+      where: { id: canteenId },
+      select: { id: true, dailyGenerationQuota: true, monthlyGenerationQuota: true, mealSlots: true, serviceDays: true, mealType: true, equipment: true, menuRules: true },
+    })
+
+    if (!canteen) {
+      return NextResponse.json(
+        { error: '食堂不存在' },
+        { status: 404 }
+      )
+    }
+
+    // 按食堂的餐次、供餐日配置和节假日确定本次生成的餐次和日子，配置快照随生成参数一起保存
+    const { params, error } = resolveGenerationParams(canteen, requestedParams)
+    if (!params) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    // 循环菜单之后各周按顺延的日期确定供餐日，提前发现全部放假的周
+    const cycle = resolveCycleParams(canteen, params, cycleWeeks)
+    if (!cycle.weeks) {
+      return NextResponse.json(
+        { error: cycle.error },
+        { status: 400 }
+      )
+    }
+
+    // 同一食堂同时只允许一个生成任务
+    const activeJob = await findActiveGenerationJob(canteenId)
+    if (activeJob) {
+      return NextResponse.json(
+        { error: '已有菜单正在生成，请等待完成', jobId: activeJob.id },
+        { status: 409 }
+      )
+    }
+
+    // 检查生成配额和请求频率
+    const denial = await checkGenerationAllowance(canteen, candidateCount * cycleWeeks)
+    if (denial) {
+      return NextResponse.json(
+        { error: denial.error, quota: denial.quota },
+        { status: 429, headers: { 'Retry-After': String(denial.retryAfterSeconds) } }
+      )
+    }
+
+    // 按各Prompt模板版本的流量权重选定本次使用的版本，随生成参数一起保存
+    params.promptVersion = await selectPromptVersion()
+
+    const job = await enqueueGenerationJob(canteenId, params, candidateCount, cycleWeeks)
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('Create generation job error:', error)
+    return NextResponse.json(
+      { error: '系统错误，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 获取页面刷新后需要继续显示的任务
+ *
+ * 包括正在排队或生成中的任务，以及已生成候选方案但尚未选定保存的任务。
+ *
+ * @returns JSON响应，data为任务，没有时为null
+ */
+export async function GET() {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    const job = await findResumableGenerationJob(decoded.canteenId)
+
+    return NextResponse.json({
+      success: true,
+      data: job,
+    })
+
+  } catch (error) {
+    console.error('Get active generation job error:', error)
+    return NextResponse.json(
+      { error: '获取生成任务失败' },
+      { status: 500 }
+    )
+  }
+}
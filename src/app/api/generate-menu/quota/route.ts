@@ -0,0 +1,60 @@
+/**
+ * 生成配额API路由
+ *
+ * 返回当前食堂当日和当月的生成次数上限、已用和剩余次数，
+ * 控制面板在生成按钮旁显示剩余次数。
+ */
+
+import { NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { getGenerationQuota } from '@/lib/generation-quota'
+
+/**
+ * 获取生成配额
+ *
+ * @returns JSON响应，包含当日和当月的配额使用情况
+ */
+export async function GET() {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    const canteen = await prisma.canteen.findUnique({
+      where: { id: decoded.canteenId },
+      select: { id: true, dailyGenerationQuota: true, monthlyGenerationQuota: true },
+    })
+
+    if (!canteen) {
+      return NextResponse.json(
+        { error: '食堂不存在' },
+        { status: 404 }
+      )
+    }
+
+    const quota = await getGenerationQuota(canteen)
+
+    return NextResponse.json({
+      success: true,
+      data: quota,
+    })
+
+  } catch (error) {
+    console.error('Get generation quota error:', error)
+    return NextResponse.json(
+      { error: '获取生成配额失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * 生成记录详情API路由
+ *
+ * 返回一次生成的完整过程：Prompt、服务商和模型、每次调用的原始输出、
+ * 解析或校验错误、纠正消息、耗时和token用量，供技术支持还原问题。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+
+/**
+ * 获取生成记录详情
+ *
+ * 只能查看本食堂的记录。
+ *
+ * @param request Next.js请求对象
+ * @param context 路由参数，id为生成记录ID
+ * @returns JSON响应，包含完整的生成记录
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const run = await prisma.generationRun.findUnique({
+      where: { id },
+    })
+
+    // 不属于当前食堂时同样返回不存在，避免泄露其他食堂的记录
+    if (!run || run.canteenId !== decoded.canteenId) {
+      return NextResponse.json(
+        { error: '生成记录不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+    })
+
+  } catch (error) {
+    console.error('Get generation run error:', error)
+    return NextResponse.json(
+      { error: '获取生成记录失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 生成记录列表API路由
+ *
+ * 按时间倒序列出当前食堂最近的生成调用记录（不含Prompt和原始输出），
+ * 用于排查问题时定位具体的某一次生成。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+
+/** 单次最多返回的记录数 */
+const MAX_RUNS = 50
+
+/**
+ * 获取生成记录列表
+ *
+ * 查询参数：
+ * - menuId: 只看生成或修改过该菜单的记录（可选）
+ * - limit: 返回条数，默认20，最大50
+ *
+ * @param request Next.js请求对象
+ * @returns JSON响应，包含记录摘要
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    const searchParams = request.nextUrl.searchParams
+    const menuId = searchParams.get('menuId')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || 20, 1), MAX_RUNS)
+
+    const runs = await prisma.generationRun.findMany({
+      where: {
+        canteenId: decoded.canteenId,
+        ...(menuId ? { menuId } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        menuId: true,
+        kind: true,
+        status: true,
+        provider: true,
+        model: true,
+        error: true,
+        latencyMs: true,
+        promptTokens: true,
+        completionTokens: true,
+        createdAt: true,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: runs,
+    })
+
+  } catch (error) {
+    console.error('List generation runs error:', error)
+    return NextResponse.json(
+      { error: '获取生成记录失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,38 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import jwt from 'jsonwebtoken'
+import type { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/db'
+import { normalizeWeekMenu } from '@/lib/menu-format'
 
-export async function GET() {
+/** 每页默认条数和上限 */
+const DEFAULT_PAGE_SIZE = 10
+const MAX_PAGE_SIZE = 50
+
+/** 生成记录的筛选状态：当前（未归档）、已置顶、已归档、全部 */
+const MENU_STATUSES = ['active', 'pinned', 'archived', 'all'] as const
+type MenuStatus = (typeof MENU_STATUSES)[number]
+
+/**
+ * 读取日期参数，无效时返回undefined
+ */
+function readDate(value: string | null): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * 获取上传的历史菜单和生成记录
+ *
+ * 查询参数：
+ * - page / pageSize: 生成记录分页，默认第1页、每页10条
+ * - from / to: 按生成时间筛选（ISO时间，包含两端）
+ * - status: active（默认）| pinned | archived | all
+ *
+ * 置顶的菜单排在前面，其余按生成时间倒序。
+ */
+export async function GET(request: NextRequest) {
   try {
     // 验证身份
     const cookieStore = await cookies()
@@ -24,7 +53,9 @@ export async function GET() {
       select: {
         id: true,
         canteenName: true,
+        hotDishCount: true,
         historicalMenus: true,
+        menuRetentionCount: true,
         updatedAt: true,
       },
     })
@@ -36,12 +67,33 @@ export async function GET() {
       )
     }
 
+    // 解析分页和筛选参数
+    const searchParams = request.nextUrl.searchParams
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const pageSize = Math.min(Math.max(parseInt(searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const from = readDate(searchParams.get('from'))
+    const to = readDate(searchParams.get('to'))
+    const statusParam = searchParams.get('status') as MenuStatus | null
+    const status: MenuStatus = statusParam && MENU_STATUSES.includes(statusParam) ? statusParam : 'active'
+
+    const where: Prisma.MenuWhereInput = {
+      canteenId: decoded.canteenId,
+      ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+      ...(status === 'active' ? { archivedAt: null } : {}),
+      ...(status === 'pinned' ? { pinned: true, archivedAt: null } : {}),
+      ...(status === 'archived' ? { archivedAt: { not: null } } : {}),
+    }
+
     // 获取生成的历史菜单记录
-    const generatedMenus = await prisma.menu.findMany({
-      where: { canteenId: decoded.canteenId },
-      orderBy: { createdAt: 'desc' },
-      take: 4,
-    })
+    const [generatedMenus, total] = await Promise.all([
+      prisma.menu.findMany({
+        where,
+        orderBy: [{ pinned: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.menu.count({ where }),
+    ])
 
     return NextResponse.json({
       success: true,
@@ -49,7 +101,13 @@ export async function GET() {
         canteenName: canteen.canteenName,
         uploadedMenus: canteen.historicalMenus as string[][], // 上传的4个Excel菜单
         updatedAt: canteen.updatedAt, // 历史菜单最后更新时间
-        generatedMenus: generatedMenus, // 生成的菜单记录
+        menuRetentionCount: canteen.menuRetentionCount, // 自动保留的生成菜单份数
+        // 生成的菜单记录，旧版本的字符串菜单在这里统一转换为结构化数据
+        generatedMenus: generatedMenus.map(menu => ({
+          ...menu,
+          weekMenu: normalizeWeekMenu(menu.weekMenu, canteen.hotDishCount),
+        })),
+        pagination: { page, pageSize, total },
       },
     })
 
@@ -0,0 +1,74 @@
+/**
+ * 生成记录保留设置API路由
+ *
+ * 设置食堂自动保留的生成菜单份数。调小后立即归档超出的旧菜单，
+ * 置顶的菜单不受影响。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { MAX_MENU_RETENTION, archiveExpiredMenus } from '@/lib/menu-retention'
+
+/**
+ * 更新保留份数
+ *
+ * 请求体参数：
+ * - menuRetentionCount: number (0-100) - 保留份数，0表示不自动归档
+ *
+ * @param request HTTP请求对象
+ * @returns 更新后的保留份数和本次归档的菜单数量
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+
+    // 获取请求数据
+    const body = await request.json()
+    const { menuRetentionCount } = body
+
+    // 验证参数
+    if (!Number.isInteger(menuRetentionCount) || menuRetentionCount < 0 || menuRetentionCount > MAX_MENU_RETENTION) {
+      return NextResponse.json(
+        { error: `保留份数必须是0-${MAX_MENU_RETENTION}之间的整数` },
+        { status: 400 }
+      )
+    }
+
+    const canteen = await prisma.canteen.update({
+      where: { id: decoded.canteenId },
+      data: { menuRetentionCount },
+      select: { id: true, menuRetentionCount: true },
+    })
+
+    // 调小保留份数后立即归档超出的菜单
+    const archivedCount = await archiveExpiredMenus(canteen.id, canteen.menuRetentionCount)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        menuRetentionCount: canteen.menuRetentionCount,
+        archivedCount,
+      },
+    })
+
+  } catch (error) {
+    console.error('Update retention settings error:', error)
+    return NextResponse.json(
+      { error: '保存设置失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * 循环菜单API路由
+ *
+ * 获取一次生成的多周循环菜单，包括各周菜单和按当前内容重新校验的结果，
+ * 用于生成完成后的展示和导出整套循环菜单。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { getMenuCycle } from '@/lib/menu-cycle'
+
+/**
+ * 获取循环菜单
+ *
+ * 只能查看本食堂的循环菜单，各周按周次排序。
+ *
+ * @param request Next.js请求对象
+ * @param context 路由参数，id为循环菜单ID
+ * @returns JSON响应，包含循环周数、第1周的日期和各周菜单
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const canteen = await prisma.canteen.findUnique({
+      where: { id: decoded.canteenId },
+      select: { id: true, hotDishCount: true, coldDishCount: true },
+    })
+
+    // 不属于当前食堂时同样返回不存在，避免泄露其他食堂的菜单
+    const cycle = canteen ? await getMenuCycle(id, canteen) : null
+    if (!cycle) {
+      return NextResponse.json(
+        { error: '循环菜单不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: cycle,
+    })
+
+  } catch (error) {
+    console.error('Get menu cycle error:', error)
+    return NextResponse.json(
+      { error: '获取循环菜单失败' },
+      { status: 500 }
+    )
+  }
+}
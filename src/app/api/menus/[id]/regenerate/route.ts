@@ -0,0 +1,169 @@
+/**
+ * 局部重新生成API路由
+ *
+ * 保留厨师长锁定的整天或单道菜，只替换其余位置的菜品。
+ * 替换使用原菜单的生成参数，结果保存为原菜单记录的一个新版本，
+ * 不会新建菜单记录。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { checkGenerationAllowance } from '@/lib/generation-quota'
+import { normalizeWeekMenu, WEEK_DAYS } from '@/lib/menu-format'
+import { MenuGenerationError } from '@/lib/menu-generation'
+import { describeReplacement, regenerateMenuSlots } from '@/lib/menu-regeneration'
+import { MenuRevisionConflictError, saveMenuRevision } from '@/lib/menu-revisions'
+import { checkSeasonalIngredients } from '@/lib/seasonal-calendar'
+import type { GenerationParams, MenuLocks, WeekMenu } from '@/types'
+
+/**
+ * 校验并规范化请求中的锁定信息
+ */
+function readLocks(raw: unknown): MenuLocks | null {
+  if (!raw || typeof raw !== 'object') return null
+  const { days, dishes } = raw as Record<string, unknown>
+  const isDay = (value: unknown): value is keyof WeekMenu => WEEK_DAYS.includes(value as keyof WeekMenu)
+
+  if (!Array.isArray(days) || !Array.isArray(dishes)) return null
+  if (!days.every(isDay)) return null
+  if (!dishes.every(slot => slot && isDay(slot.day) && Number.isInteger(slot.index) && slot.index >= 0)) return null
+
+  return {
+    days,
+    dishes: dishes.map(slot => ({ day: slot.day, index: slot.index })),
+  }
+}
+
+/**
+ * 重新生成未锁定的菜品
+ *
+ * 处理流程：
+ * 1. JWT身份验证，确认菜单属于当前食堂
+ * 2. 校验锁定信息，确认菜单仍是页面上显示的版本，否则锁定的位置可能已经对不上
+ * 3. 检查生成配额和请求频率，局部重新生成同样计入配额
+ * 4. 调用局部重新生成模块替换未锁定的菜品
+ * 5. 保存为菜单的新版本，生成期间菜单被修改时拒绝保存
+ *
+ * @param request 请求体为 { locks: { days: string[], dishes: { day, index }[] }, revision }，revision为页面上显示的菜单版本号
+ * @param context 路由参数，id为菜单ID
+ * @returns JSON响应，包含替换后的菜单、版本号和校验结果
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const body = await request.json()
+    const locks = readLocks(body.locks)
+    if (!locks) {
+      return NextResponse.json(
+        { error: '锁定信息格式错误' },
+        { status: 400 }
+      )
+    }
+    if (!Number.isInteger(body.revision)) {
+      return NextResponse.json(
+        { error: '缺少菜单版本号' },
+        { status: 400 }
+      )
+    }
+
+    // 获取菜单及所属食堂
+    const menu = await prisma.menu.findUnique({
+      where: { id },
+      include: { canteen: true },
+    })
+
+    // 菜单不属于当前食堂时同样返回不存在，避免泄露其他食堂的菜单ID
+    if (!menu || menu.canteenId !== decoded.canteenId) {
+      return NextResponse.json(
+        { error: '菜单不存在' },
+        { status: 404 }
+      )
+    }
+
+    if (menu.revision !== body.revision) {
+      return NextResponse.json(
+        { error: `菜单已被修改为第${menu.revision}版，请刷新后重新选择锁定的菜品` },
+        { status: 409 }
+      )
+    }
+
+    // 检查生成配额和请求频率
+    const denial = await checkGenerationAllowance(menu.canteen)
+    if (denial) {
+      return NextResponse.json(
+        { error: denial.error, quota: denial.quota },
+        { status: 429, headers: { 'Retry-After': String(denial.retryAfterSeconds) } }
+      )
+    }
+
+    const weekMenu = normalizeWeekMenu(menu.weekMenu, menu.canteen.hotDishCount)
+    const generationParams = menu.generationParams as unknown as GenerationParams
+    const result = await regenerateMenuSlots(
+      menu.canteen,
+      { id: menu.id, weekMenu, generationParams, cycleId: menu.cycleId },
+      locks
+    )
+
+    // 保存为原菜单的新版本
+    const updated = await saveMenuRevision(
+      menu.id,
+      result.weekMenu,
+      'regenerate',
+      describeReplacement(weekMenu, result.replaced),
+      body.revision
+    )
+
+    return NextResponse.json({
+      success: true,
+      menu: result.weekMenu,
+      menuId: updated.id,
+      revision: updated.revision,
+      replaced: result.replaced,
+      validation: result.validation,
+      historicalCheck: result.historicalCheck,
+      repeatCheck: result.repeatCheck,
+      seasonalCheck: checkSeasonalIngredients(result.weekMenu, generationParams),
+      attempts: result.attempts,
+      runId: result.runId,
+    })
+
+  } catch (error) {
+    if (error instanceof MenuRevisionConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    if (error instanceof MenuGenerationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Menu regeneration error:', error)
+    return NextResponse.json(
+      { error: '系统错误，请稍后重试' },
+      { status: 500 }
+    )
+  }
+}
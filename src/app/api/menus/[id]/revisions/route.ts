@@ -0,0 +1,76 @@
+/**
+ * 菜单修改记录API路由
+ *
+ * 按版本倒序返回菜单的每一个版本，包括首次生成、局部重新生成和手动编辑。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { normalizeWeekMenu } from '@/lib/menu-format'
+
+/**
+ * 获取菜单的修改记录
+ *
+ * @param request Next.js请求对象
+ * @param context 路由参数，id为菜单ID
+ * @returns JSON响应，包含各版本的来源、说明、时间和菜单内容
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const menu = await prisma.menu.findUnique({
+      where: { id },
+      include: {
+        canteen: { select: { hotDishCount: true } },
+        revisions: { orderBy: { revision: 'desc' } },
+      },
+    })
+
+    if (!menu || menu.canteenId !== decoded.canteenId) {
+      return NextResponse.json(
+        { error: '菜单不存在' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        menuId: menu.id,
+        revision: menu.revision,
+        revisions: menu.revisions.map(revision => ({
+          revision: revision.revision,
+          source: revision.source,
+          summary: revision.summary,
+          createdAt: revision.createdAt,
+          weekMenu: normalizeWeekMenu(revision.weekMenu, menu.canteen.hotDishCount),
+        })),
+      },
+    })
+
+  } catch (error) {
+    console.error('Get menu revisions error:', error)
+    return NextResponse.json(
+      { error: '获取修改记录失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * 菜单编辑API路由
+ *
+ * 厨师长在页面上手动修改菜名、调整分类或在两天之间拖动菜品后，
+ * 通过本接口保存，使系统记录与实际出品保持一致。
+ * 每次保存都记录为菜单的一个新版本，保留修改历史。
+ * 同时提供置顶和归档（软删除）操作。
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
+import { prisma } from '@/lib/db'
+import { normalizeWeekMenu, toDishItem } from '@/lib/menu-format'
+import { getServiceDays } from '@/lib/service-days'
+import { createHistoricalMatcher, reconcileHistoricalLabels } from '@/lib/historical-matcher'
+import { validateWeekMenu } from '@/lib/menu-validator'
+import { MenuRevisionConflictError, describeMenuEdits, saveMenuRevision } from '@/lib/menu-revisions'
+import { checkSeasonalIngredients } from '@/lib/seasonal-calendar'
+import type { DishItem, GenerationParams, WeekDay, WeekMenu } from '@/types'
+
+/**
+ * 校验并规范化请求中的菜单
+ *
+ * 每个供餐日必须是菜品数组，每道菜必须有名称和有效分类，否则返回null。
+ *
+ * @param raw 请求中的菜单
+ * @param days 菜单生成时的供餐日
+ */
+function readWeekMenu(raw: unknown, days: readonly WeekDay[]): WeekMenu | null {
+  if (!raw || typeof raw !== 'object') return null
+
+  const weekMenu: WeekMenu = {}
+  for (const day of days) {
+    const dishes = (raw as Record<string, unknown>)[day]
+    if (!Array.isArray(dishes)) return null
+
+    const items = dishes.map(toDishItem)
+    if (items.some(item => item === null)) return null
+    weekMenu[day] = items as DishItem[]
+  }
+
+  return weekMenu
+}
+
+/**
+ * 保存手动编辑后的菜单
+ *
+ * 处理流程：
+ * 1. JWT身份验证，确认菜单属于当前食堂
+ * 2. 按菜单生成时的供餐日校验菜单数据格式
+ * 3. 按历史菜单重新核实(历史)标注，改过名字的菜可能不再是历史菜
+ * 4. 用原生成参数校验规则，结果只作提示，不阻止保存
+ * 5. 保存为菜单的新版本，菜单在编辑期间已被修改（版本号不一致）时拒绝保存
+ *
+ * @param request 请求体为 { weekMenu, revision }，revision为编辑时加载的菜单版本号
+ * @param context 路由参数，id为菜单ID
+ * @returns JSON响应，包含保存后的菜单、版本号和校验结果
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const body = await request.json()
+    if (!Number.isInteger(body.revision)) {
+      return NextResponse.json(
+        { error: '缺少菜单版本号' },
+        { status: 400 }
+      )
+    }
+
+    // 获取菜单及所属食堂
+    const menu = await prisma.menu.findUnique({
+      where: { id },
+      include: { canteen: true },
+    })
+
+    // 菜单不属于当前食堂时同样返回不存在，避免泄露其他食堂的菜单ID
+    if (!menu || menu.canteenId !== decoded.canteenId) {
+      return NextResponse.json(
+        { error: '菜单不存在' },
+        { status: 404 }
+      )
+    }
+
+    const generationParams = menu.generationParams as unknown as GenerationParams
+    const edited = readWeekMenu(body.weekMenu, getServiceDays(generationParams))
+    if (!edited) {
+      return NextResponse.json(
+        { error: '菜单格式错误，每道菜都需要菜名和分类' },
+        { status: 400 }
+      )
+    }
+
+    const matcher = createHistoricalMatcher(menu.canteen.historicalMenus as string[][])
+    const reconciled = reconcileHistoricalLabels(edited, matcher, generationParams.historicalRatio)
+    const validation = validateWeekMenu(reconciled.weekMenu, menu.canteen, generationParams)
+
+    const summary = describeMenuEdits(normalizeWeekMenu(menu.weekMenu, menu.canteen.hotDishCount), reconciled.weekMenu)
+    if (!summary) {
+      return NextResponse.json(
+        { error: '菜单没有修改' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await saveMenuRevision(menu.id, reconciled.weekMenu, 'edit', summary, body.revision)
+
+    return NextResponse.json({
+      success: true,
+      menu: reconciled.weekMenu,
+      menuId: updated.id,
+      revision: updated.revision,
+      summary,
+      validation,
+      historicalCheck: reconciled.result,
+      seasonalCheck: checkSeasonalIngredients(reconciled.weekMenu, generationParams),
+    })
+
+  } catch (error) {
+    if (error instanceof MenuRevisionConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    console.error('Update menu error:', error)
+    return NextResponse.json(
+      { error: '保存菜单失败' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 置顶或归档菜单
+ *
+ * 置顶的菜单不会因超出保留份数被自动归档；归档是软删除，
+ * 菜单从默认列表中隐藏，可以随时恢复。
+ *
+ * @param request 请求体为 { pinned?: boolean, archived?: boolean }
+ * @param context 路由参数，id为菜单ID
+ * @returns JSON响应，包含更新后的置顶和归档状态
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 验证身份
+    const cookieStore = await cookies()
+    const token = cookieStore.get('auth-token')?.value
+
+    if (!token) {
+      return NextResponse.json(
+        { error: '未登录' },
+        { status: 401 }
+      )
+    }
+
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { canteenId: string }
+    const { id } = await params
+
+    const body = await request.json()
+    const { pinned, archived } = body as { pinned?: unknown; archived?: unknown }
+    if ((pinned !== undefined && typeof pinned !== 'boolean') || (archived !== undefined && typeof archived !== 'boolean')) {
+      return NextResponse.json(
+        { error: '参数格式错误' },
+        { status: 400 }
+      )
+    }
+
+    const menu = await prisma.menu.findUnique({
+      where: { id },
+      select: { canteenId: true },
+    })
+
+    if (!menu || menu.canteenId !== decoded.canteenId) {
+      return NextResponse.json(
+        { error: '菜单不存在' },
+        { status: 404 }
+      )
+    }
+
+    const updated = await prisma.menu.update({
+      where: { id },
+      data: {
+        ...(pinned !== undefined ? { pinned } : {}),
+        ...(archived !== undefined ? { archivedAt: archived ? new Date() : null } : {}),
+      },
+      select: { id: true, pinned: true, archivedAt: true },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+    })
+
+  } catch (error) {
+    console.error('Update menu status error:', error)
+    return NextResponse.json(
+      { error: '更新菜单状态失败' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,44 +6,165 @@
  * 1. 用户身份验证和会话管理
  * 2. 菜单生成参数配置界面
  * 3. AI菜单生成调用和结果展示
- * 4. Excel导出功能
- * 5. 历史记录访问
+ * 4. 锁定满意的菜品或整天，只重新生成其余菜品
+ * 5. 手动编辑菜品并保存为新版本
+ * 6. 同时生成多份候选方案，对比后选用或按天组合
+ * 7. 配置早餐、午餐、晚餐等多个餐次，按餐次生成和展示
+ * 8. 一次生成连续几周的循环菜单，按周切换查看
+ * 9. 清真、全素日、低盐低油和过敏原排除等饮食要求
+ * 10. 本周需要消化的库存食材和缺货食材
+ * 11. 自助餐食堂填写就餐人数，导出时标注每道菜的盘数
+ * 12. Excel导出功能，循环菜单每周一个工作表
+ * 13. 历史记录访问
+ * 14. 开菜规则设置入口
  * 
  * 组件架构：
  * - Dashboard: 主组件，管理整体状态和业务逻辑
  * - MenuTable: 子组件，负责菜单表格展示
+ * - MenuEditor: 编辑状态下替代MenuTable的可编辑表格
+ * - CandidatePicker: 候选方案逐天对比和选择
+ * - MenuCycleView: 循环菜单各周的展示和导出
+ * - MealSlotsModal: 餐次设置弹窗
+ * - ServiceDaysModal: 供餐日设置弹窗
+ * - EquipmentModal: 烹饪设备登记弹窗
  * 
  * 状态管理：
  * - canteenInfo: 当前登录食堂的基础信息
  * - weekMenu: 生成的一周菜单数据
+ * - validation: 生成结果的规则校验报告
+ * - historicalCheck: 按历史菜单核实后的实际历史菜占比
+ * - repeatCheck: 与近几周菜单重复的菜品
+ * - seasonalCheck: 菜单用到的当季、过季食材
+ * - progressText: 生成任务的进度提示，生成在后台任务中进行，刷新页面后继续轮询
+ * - menuId/locks: 当前菜单记录ID和锁定的天、菜品，用于局部重新生成
+ * - editing: 是否处于手动编辑状态
+ * - candidateJob: 生成了多份候选方案、等待选定的任务
+ * - menuCycle: 刚生成的多周循环菜单
+ * - menuWeek: 当前菜单对应的一周和这周的节假日
+ * - quota: 当日和当月剩余的生成次数
+ * - mealSlotsOpen/serviceDaysOpen/equipmentOpen: 餐次、供餐日、设备设置弹窗是否打开
  * - loading/generating: 各种加载状态控制
  */
 
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { 
-  Layout, Card, Form, Button, Space, Typography, Select, InputNumber, 
-  Checkbox, Radio, Table, message, Spin 
+  Layout, Card, Form, Button, Space, Typography, Select, AutoComplete, Input, InputNumber, 
+  Checkbox, Radio, Table, message, Spin, Alert, Tag, Tooltip, Tabs 
 } from 'antd'
 import { 
   BookFilled, LogoutOutlined, DownloadOutlined, 
-  ReloadOutlined, HistoryOutlined 
+  ReloadOutlined, HistoryOutlined, LockFilled, UnlockOutlined, EditOutlined, SettingOutlined, CalendarOutlined,
+  DeleteOutlined, PlusOutlined, ToolOutlined, OrderedListOutlined
 } from '@ant-design/icons'
 import { useRouter } from 'next/navigation'
-import type { GenerationParams, WeekMenu } from '@/types'
-import * as XLSX from 'xlsx'
+import type {
+  Allergen, BuffetPlan, CalendarEvent, EquipmentItem, GenerationJob, GenerationParams, GenerationQuota, GenerationQuotaUsage, HistoricalCheckResult, MealSlot, MenuCycle,
+  MenuLocks, MenuSlot, MenuValidationReport, MustUseIngredient, RepeatCheckResult, SeasonalCheckResult, TherapeuticDiet, WeekDay, WeekMenu 
+} from '@/types'
+import {
+  DAY_LABELS, DISH_TYPE_LABELS, buildWeekMenuRows, createEmptyWeekMenu, formatServiceDays, getMenuDays
+} from '@/lib/menu-format'
+import { getConfiguredServiceDays } from '@/lib/service-days'
+import {
+  describeWeek, formatCalendarEvent, formatDayTitle, getUncoveredYears, getUpcomingWeeks, getWeekCalendar
+} from '@/lib/holiday-calendar'
+import { exportMenuWorkbook } from '@/lib/menu-export'
+import { ALLERGENS, THERAPEUTIC_DIETS } from '@/lib/dietary-rules'
+import { MAX_MUST_USE_COUNT, MAX_SUPPLY_INGREDIENTS, SUPPLY_INGREDIENT_OPTIONS } from '@/lib/ingredient-supply'
+import {
+  MAX_BUFFET_GUESTS, MAX_SERVINGS_PER_TRAY, MIN_SERVINGS_PER_TRAY, readBuffetPlan
+} from '@/lib/meal-type-rules'
+import { formatEquipment, getConfiguredEquipment } from '@/lib/equipment'
+import DishCell from '@/components/DishCell'
+import MenuEditor from '@/components/MenuEditor'
+import type { MenuSaveResult } from '@/components/MenuEditor'
+import CandidatePicker from '@/components/CandidatePicker'
+import type { CandidateSaveResult } from '@/components/CandidatePicker'
+import MealSlotsModal from '@/components/MealSlotsModal'
+import ServiceDaysModal from '@/components/ServiceDaysModal'
+import EquipmentModal from '@/components/EquipmentModal'
 
 const { Header, Content } = Layout
 const { Title, Text } = Typography
 const { Option } = Select
 
+const EMPTY_LOCKS: MenuLocks = { days: [], dishes: [] }
+
+/** 轮询生成任务状态的间隔（毫秒） */
+const JOB_POLL_INTERVAL = 1500
+
+/**
+ * 根据生成任务的当前阶段生成进度提示
+ */
+function describeJobProgress(job: GenerationJob): string {
+  if (job.status === 'queued') return '排队中，即将开始生成…'
+  if (job.cycleWeeks > 1) {
+    const completedWeeks = job.progress?.completedWeeks ?? 0
+    return `正在生成${job.cycleWeeks}周循环菜单，已完成${completedWeeks}周，正在生成第${completedWeeks + 1}周…`
+  }
+  if (job.candidateCount > 1) {
+    return `正在同时生成${job.candidateCount}份候选方案，已完成${job.progress?.completedCandidates ?? 0}份…`
+  }
+
+  const progress = job.progress
+  switch (progress?.stage) {
+    case 'prompt':
+      return '已根据配置生成AI指令，正在请求AI…'
+    case 'attempt':
+      return progress.attempt === 1
+        ? 'AI正在生成菜单…'
+        : `第${progress.attempt}次生成（共${progress.maxAttempts}次），正在根据规则修正菜单…`
+    case 'day': {
+      const doneDays = getMenuDays(job.weekMenu ?? {}).filter(day => job.weekMenu![day]!.length > 0)
+      return `${doneDays.map(day => DAY_LABELS[day]).join('、')}的菜单已生成…`
+    }
+    case 'restart':
+      return 'AI服务连接中断，正在重新生成本次菜单…'
+    case 'parse_error':
+      return 'AI返回的格式有误，正在重新生成…'
+    case 'validation':
+      return progress.validation?.passed ? '规则校验通过，正在保存…' : '部分规则未满足，正在要求AI修正…'
+    default:
+      return '正在准备生成…'
+  }
+}
+
+/**
+ * 剩余生成次数的显示文字
+ */
+function formatRemaining(usage: GenerationQuotaUsage): string {
+  return usage.remaining === null ? '不限' : `${usage.remaining}次`
+}
+
+interface MenuWeek {
+  /** 菜单对应周的周一，未指定日期时为null */
+  weekStart: string | null
+  events: CalendarEvent[]
+}
+
+const NO_MENU_WEEK: MenuWeek = { weekStart: null, events: [] }
+
+const CALENDAR_EVENT_COLORS: Record<CalendarEvent['kind'], string> = {
+  closure: 'red',
+  workday: 'blue',
+  festival: 'orange',
+}
+
+/** 可以选择的菜单日期：本周和之后的8周 */
+const WEEK_OPTION_COUNT = 9
+
 interface CanteenInfo {
   id: string
   canteenName: string
   hotDishCount: number
   coldDishCount: number
   mealType: string
+  repeatAvoidanceWeeks: number
+  mealSlots: MealSlot[] | null
+  serviceDays: WeekDay[] | null
+  equipment: EquipmentItem[] | null
 }
 
 export default function Dashboard() {
@@ -51,8 +172,29 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true)
   const [generating, setGenerating] = useState(false)
   const [weekMenu, setWeekMenu] = useState<WeekMenu | null>(null)
+  const [validation, setValidation] = useState<MenuValidationReport | null>(null)
+  const [historicalCheck, setHistoricalCheck] = useState<HistoricalCheckResult | null>(null)
+  const [repeatCheck, setRepeatCheck] = useState<RepeatCheckResult | null>(null)
+  const [seasonalCheck, setSeasonalCheck] = useState<SeasonalCheckResult | null>(null)
+  const [progressText, setProgressText] = useState('')
+  const [menuId, setMenuId] = useState<string | null>(null)
+  const [menuRevision, setMenuRevision] = useState(1)
+  const [locks, setLocks] = useState<MenuLocks>(EMPTY_LOCKS)
+  const [regenerating, setRegenerating] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [quota, setQuota] = useState<GenerationQuota | null>(null)
+  const [candidateJob, setCandidateJob] = useState<GenerationJob | null>(null)
+  const [menuCycle, setMenuCycle] = useState<MenuCycle | null>(null)
+  const [menuWeek, setMenuWeek] = useState<MenuWeek>(NO_MENU_WEEK)
+  const [mealSlotsOpen, setMealSlotsOpen] = useState(false)
+  const [serviceDaysOpen, setServiceDaysOpen] = useState(false)
+  const [equipmentOpen, setEquipmentOpen] = useState(false)
   const [form] = Form.useForm()
+  const selectedWeek = Form.useWatch('weekStart', form) as string | undefined
+  const cycleWeeks = (Form.useWatch('cycleWeeks', form) as number | undefined) ?? 1
   const router = useRouter()
+  // 正在轮询的任务ID，置空即停止轮询
+  const pollingJobRef = useRef<string | null>(null)
 
   /**
    * 检查用户登录状态
@@ -93,13 +235,149 @@ export default function Dashboard() {
     }
   }
 
+  /**
+   * 获取剩余生成次数
+   * 
+   * 页面加载和每次生成结束后刷新，获取失败时不显示。
+   */
+  const fetchQuota = useCallback(async () => {
+    try {
+      const response = await fetch('/api/generate-menu/quota')
+      const data = await response.json()
+      if (data.success) {
+        setQuota(data.data)
+      }
+    } catch (error) {
+      console.error('Fetch generation quota failed:', error)
+    }
+  }, [])
+
+  /**
+   * 轮询生成任务直到完成
+   * 
+   * 生成中逐天展示已完成的菜单和当前阶段；成功后展示核实过历史标注的
+   * 最终结果、候选方案对比或循环菜单，失败时提示原因。同一时间只轮询一个任务。
+   * 
+   * @param jobId 生成任务ID
+   */
+  const watchJob = useCallback(async (jobId: string) => {
+    pollingJobRef.current = jobId
+    setGenerating(true)
+    try {
+      while (pollingJobRef.current === jobId) {
+        const response = await fetch(`/api/generate-menu/jobs/${jobId}`)
+        const data = await response.json()
+        if (!data.success) {
+          message.error(data.error || '获取生成进度失败')
+          return
+        }
+
+        const job = data.data as GenerationJob
+        setMenuWeek({ weekStart: job.weekStart, events: job.calendarEvents })
+
+        // 循环菜单按周切换查看，读取保存后的各周菜单和校验结果
+        if (job.cycleWeeks > 1) {
+          if (job.status === 'succeeded' && job.cycleId) {
+            const cycleResponse = await fetch(`/api/menu-cycles/${job.cycleId}`)
+            const cycleData = await cycleResponse.json()
+            if (cycleData.success) {
+              setMenuCycle(cycleData.data)
+              message.success(`${job.cycleWeeks}周循环菜单生成成功！`)
+            } else {
+              message.error(cycleData.error || '获取循环菜单失败')
+            }
+            return
+          }
+          if (job.status !== 'failed') {
+            setProgressText(describeJobProgress(job))
+            await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+            continue
+          }
+        }
+
+        if (job.weekMenu) {
+          setWeekMenu(job.weekMenu)
+        }
+        setValidation(job.validation)
+
+        // 多份候选方案生成完成，等待厨师长选定后再保存
+        if (job.status === 'succeeded' && job.candidates && !job.menuId) {
+          setWeekMenu(null)
+          setCandidateJob(job)
+          message.success(`已生成${job.candidates.filter(item => item.status === 'succeeded').length}份候选方案，请对比后选用`)
+          return
+        }
+
+        if (job.status === 'succeeded') {
+          setMenuId(job.menuId)
+          // 任务记录的是生成时保存的菜单，即第1版
+          setMenuRevision(1)
+          setHistoricalCheck(job.historicalCheck)
+          setRepeatCheck(job.repeatCheck)
+          setSeasonalCheck(job.seasonalCheck)
+          if (job.validation && !job.validation.passed) {
+            message.warning('菜单已生成，但有部分规则未满足')
+          } else {
+            message.success('菜单生成成功！')
+          }
+          return
+        }
+
+        if (job.status === 'failed') {
+          message.error(job.error || '菜单生成失败')
+          return
+        }
+
+        setProgressText(describeJobProgress(job))
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL))
+      }
+    } catch (error) {
+      console.error('Generation job polling failed:', error)
+      message.error('网络错误，刷新页面可继续查看生成进度')
+    } finally {
+      if (pollingJobRef.current === jobId) {
+        pollingJobRef.current = null
+        setGenerating(false)
+        setProgressText('')
+        fetchQuota()
+      }
+    }
+  }, [fetchQuota])
+
+  // 页面刷新或重新打开后，继续显示仍在排队或生成中的任务
+  const canteenId = canteenInfo?.id
+  useEffect(() => {
+    if (!canteenId) return
+
+    const resumeJob = async () => {
+      try {
+        const response = await fetch('/api/generate-menu/jobs')
+        const data = await response.json()
+        if (data.success && data.data) {
+          watchJob(data.data.id)
+        }
+      } catch (error) {
+        console.error('Resume generation job failed:', error)
+      }
+    }
+    resumeJob()
+    fetchQuota()
+  }, [canteenId, watchJob, fetchQuota])
+
+  // 离开页面时停止轮询，任务在后台继续执行
+  useEffect(() => {
+    return () => {
+      pollingJobRef.current = null
+    }
+  }, [])
+
   /**
    * 菜单生成核心函数
    * 
    * 处理用户提交的菜单生成请求，包括：
    * 1. 参数类型转换和验证
-   * 2. API调用和响应处理
-   * 3. 用户界面状态更新
+   * 2. 创建后台生成任务
+   * 3. 轮询任务进度并更新界面（生成中逐天展示）
    * 4. 错误处理和用户提示
    * 
    * @param values 来自Ant Design Form的表单数据
@@ -122,10 +400,29 @@ export default function Dashboard() {
         flavorDiversity: (values.flavorDiversity as boolean) || false,
         workRatio: values.workRatio as string,
         ingredientDiversity: values.ingredientDiversity as string,
+        weekStart: values.weekStart as string,
+        halal: (values.halal as boolean) || false,
+        meatlessDays: (values.meatlessDays as WeekDay[]) || [],
+        therapeuticDiets: (values.therapeuticDiets as TherapeuticDiet[]) || [],
+        excludedAllergens: (values.excludedAllergens as Allergen[]) || [],
+        mustUseIngredients: (values.mustUseIngredients as MustUseIngredient[]) || [],
+        unavailableIngredients: (values.unavailableIngredients as string[]) || [],
+      }
+      // 配置了餐次时按选中的餐次生成，各餐次的数量以餐次设置为准
+      if (canteenInfo.mealSlots) {
+        params.meals = values.meals as string[]
       }
+      // 自助餐填写了就餐人数时一起提交备餐计划
+      const buffet = values.buffet as Partial<BuffetPlan> | undefined
+      if (canteenInfo.mealType === '自助餐' && buffet?.guestCount) {
+        params.buffet = buffet as BuffetPlan
+      }
+      const cycleWeeks = (values.cycleWeeks as number) || 1
+      // 循环菜单不生成多份候选方案
+      const candidateCount = cycleWeeks > 1 ? 1 : (values.candidateCount as number) || 1
 
-      // 调用菜单生成API
-      const response = await fetch('/api/generate-menu', {
+      // 创建生成任务，生成在后台进行，关闭页面也不会丢失结果
+      const response = await fetch('/api/generate-menu/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -133,81 +430,193 @@ export default function Dashboard() {
         body: JSON.stringify({
           canteenId: canteenInfo.id,
           params,
+          candidateCount,
+          cycleWeeks,
         }),
       })
 
+      const data = await response.json()
+      if (!data.success) {
+        // 已有任务在生成时继续显示该任务的进度
+        if (response.status === 409 && data.jobId) {
+          message.warning(data.error)
+          watchJob(data.jobId)
+        } else {
+          // 配额用完或请求过于频繁时同步最新的剩余次数
+          if (response.status === 429 && data.quota) {
+            setQuota(data.quota)
+          }
+          message.error(data.error || '菜单生成失败')
+          setGenerating(false)
+        }
+        return
+      }
+
+      // 多份候选方案和循环菜单不逐天展示，生成完成后统一对比或按周查看
+      setWeekMenu(candidateCount > 1 || cycleWeeks > 1
+        ? null
+        : createEmptyWeekMenu(getConfiguredServiceDays(canteenInfo.serviceDays)))
+      setCandidateJob(null)
+      setMenuCycle(null)
+      setValidation(null)
+      setHistoricalCheck(null)
+      setRepeatCheck(null)
+      setSeasonalCheck(null)
+      setMenuId(null)
+      setLocks(EMPTY_LOCKS)
+      setEditing(false)
+      watchJob(data.jobId)
+    } catch (error) {
+      console.error('Menu generation failed:', error)
+      message.error('网络错误，请稍后重试')
+      setGenerating(false)
+    }
+  }
+
+  /**
+   * 切换单道菜的锁定状态
+   * 
+   * @param slot 菜品位置（星期和在当天菜单中的序号）
+   */
+  const toggleDishLock = (slot: MenuSlot) => {
+    setLocks(prev => {
+      const locked = prev.dishes.some(item => item.day === slot.day && item.index === slot.index)
+      return {
+        ...prev,
+        dishes: locked
+          ? prev.dishes.filter(item => !(item.day === slot.day && item.index === slot.index))
+          : [...prev.dishes, slot],
+      }
+    })
+  }
+
+  /**
+   * 切换整天的锁定状态
+   */
+  const toggleDayLock = (day: keyof WeekMenu) => {
+    setLocks(prev => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter(item => item !== day) : [...prev.days, day],
+    }))
+  }
+
+  /**
+   * 重新生成未锁定的菜品
+   * 
+   * 锁定的天和菜品原样保留，其余位置由AI按原参数替换，
+   * 结果保存为当前菜单记录的新版本。锁定状态保留，方便继续调整。
+   */
+  const regenerateUnlocked = async () => {
+    if (!menuId) return
+
+    setRegenerating(true)
+    try {
+      const response = await fetch(`/api/menus/${menuId}/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ locks, revision: menuRevision }),
+      })
+
       const data = await response.json()
       if (data.success) {
         setWeekMenu(data.menu)
-        message.success('菜单生成成功！')
+        setMenuRevision(data.revision)
+        setValidation(data.validation || null)
+        setHistoricalCheck(data.historicalCheck || null)
+        setRepeatCheck(data.repeatCheck || null)
+        setSeasonalCheck(data.seasonalCheck || null)
+        if (data.validation && !data.validation.passed) {
+          message.warning(`已替换${data.replaced.length}道菜，但有部分规则未满足`)
+        } else {
+          message.success(`已替换${data.replaced.length}道菜（第${data.revision}版）`)
+        }
       } else {
-        message.error(data.error || '菜单生成失败')
+        message.error(data.error || '重新生成失败')
       }
     } catch (error) {
-      console.error('Menu generation failed:', error)
+      console.error('Menu regeneration failed:', error)
       message.error('网络错误，请稍后重试')
     } finally {
-      setGenerating(false)
+      setRegenerating(false)
+      fetchQuota()
     }
   }
 
   /**
-   * Excel导出功能
+   * 候选方案选定保存后的处理
+   */
+  const handleCandidateSaved = (result: CandidateSaveResult) => {
+    setCandidateJob(null)
+    setWeekMenu(result.menu)
+    setMenuId(result.menuId)
+    setMenuRevision(result.revision)
+    setValidation(result.validation)
+    setHistoricalCheck(result.historicalCheck)
+    setRepeatCheck(result.repeatCheck)
+    setSeasonalCheck(result.seasonalCheck)
+    setLocks(EMPTY_LOCKS)
+  }
+
+  /**
+   * 餐次设置保存后的处理
    * 
-   * 将生成的一周菜单导出为Excel文件，格式化为厨房可直接使用的表格。
-   * 文件结构：横轴为周一到周五，纵轴为热菜和凉菜分区。
+   * 更新食堂信息，生成餐次默认选中全部餐次。
+   */
+  const handleMealSlotsSaved = (mealSlots: MealSlot[] | null) => {
+    setCanteenInfo(prev => (prev ? { ...prev, mealSlots } : prev))
+    form.setFieldsValue({ meals: mealSlots?.map(slot => slot.name) || [] })
+    setMealSlotsOpen(false)
+  }
+
+  /**
+   * 供餐日设置保存后的处理
+   */
+  const handleServiceDaysSaved = (serviceDays: WeekDay[]) => {
+    setCanteenInfo(prev => (prev ? { ...prev, serviceDays } : prev))
+    setServiceDaysOpen(false)
+  }
+
+  /**
+   * 设备登记保存或清除后的处理
+   */
+  const handleEquipmentSaved = (equipment: EquipmentItem[] | null) => {
+    setCanteenInfo(prev => (prev ? { ...prev, equipment } : prev))
+    form.setFieldsValue({ equipmentShortage: [] })
+    setEquipmentOpen(false)
+  }
+
+  /**
+   * 手动编辑保存后的处理
    * 
-   * 数据处理逻辑：
-   * 1. 构建二维数组格式的表格数据
-   * 2. 热菜和凉菜分别成组显示
-   * 3. 使用XLSX库生成Excel文件
-   * 4. 自动下载到用户电脑
+   * 编辑可能增删菜品，菜品序号随之变化，因此清空锁定状态。
+   */
+  const handleEditSaved = (result: MenuSaveResult) => {
+    setWeekMenu(result.menu)
+    setMenuRevision(result.revision)
+    setValidation(result.validation)
+    setHistoricalCheck(result.historicalCheck)
+    setSeasonalCheck(result.seasonalCheck)
+    setLocks(EMPTY_LOCKS)
+    setEditing(false)
+  }
+
+  /**
+   * Excel导出功能
+   * 
+   * 将生成的一周菜单导出为Excel文件，格式化为厨房可直接使用的表格，
+   * 表格结构与页面一致，历史菜在菜名后标注(历史)。
+   * 自助餐按表单中当前的就餐人数和每盘份数标注每道菜的盘数。
    */
   const exportToExcel = () => {
     if (!weekMenu || !canteenInfo) return
 
-    const data = []
-
-    // 创建表头 - 第一行为周一到周五
-    data.push(['', '周一', '周二', '周三', '周四', '周五'])
-
-    // 添加热菜区域
-    // 每一行代表一个菜品位置，第一行标注"热菜"
-    for (let i = 0; i < canteenInfo.hotDishCount; i++) {
-      const rowLabel = i === 0 ? '热菜' : ''  // 只在第一行显示分类标签
-      data.push([
-        rowLabel,
-        weekMenu.monday[i] || '',
-        weekMenu.tuesday[i] || '',
-        weekMenu.wednesday[i] || '',
-        weekMenu.thursday[i] || '',
-        weekMenu.friday[i] || '',
-      ])
-    }
-
-    // 添加凉菜区域
-    // 凉菜在菜单数组中位于热菜之后
-    for (let i = 0; i < canteenInfo.coldDishCount; i++) {
-      const rowLabel = i === 0 ? '凉菜' : ''  // 只在第一行显示分类标签
-      const hotIndex = canteenInfo.hotDishCount  // 凉菜的起始索引
-      data.push([
-        rowLabel,
-        weekMenu.monday[hotIndex + i] || '',
-        weekMenu.tuesday[hotIndex + i] || '',
-        weekMenu.wednesday[hotIndex + i] || '',
-        weekMenu.thursday[hotIndex + i] || '',
-        weekMenu.friday[hotIndex + i] || '',
-      ])
-    }
-
-    // 使用XLSX库生成Excel文件
-    const worksheet = XLSX.utils.aoa_to_sheet(data)
-    const workbook = XLSX.utils.book_new()
-    XLSX.utils.book_append_sheet(workbook, worksheet, '菜单')
+    const buffet = canteenInfo.mealType === '自助餐' ? readBuffetPlan(form.getFieldValue('buffet')).plan : null
 
-    // 生成带时间戳的文件名，便于区分不同批次的菜单
-    const fileName = `${canteenInfo.canteenName}_菜单_${new Date().toISOString().split('T')[0]}.xlsx`
-    XLSX.writeFile(workbook, fileName)
+    // 文件名带上菜单对应周的周一，未指定日期的菜单使用导出当天的日期
+    const fileName = `${canteenInfo.canteenName}_菜单_${menuWeek.weekStart ?? new Date().toISOString().split('T')[0]}.xlsx`
+    exportMenuWorkbook([{ name: '菜单', weekMenu, weekStart: menuWeek.weekStart, buffet }], fileName)
     message.success('菜单已导出到Excel文件')
   }
 
@@ -228,9 +637,28 @@ export default function Dashboard() {
       flavorDiversity: false,
       workRatio: '无要求',
       ingredientDiversity: '无要求',
+      candidateCount: 1,
+      cycleWeeks: 1,
+      halal: false,
+      meatlessDays: [],
+      therapeuticDiets: [],
+      excludedAllergens: [],
+      mustUseIngredients: [],
+      unavailableIngredients: [],
+      buffet: { servingsPerTray: 20 },
+      meals: canteenInfo.mealSlots?.map(slot => slot.name) || [],
+      // 默认生成下周的菜单
+      weekStart: getUpcomingWeeks(2)[1],
     }
   }
 
+  // 选择的一周中放假、调休和节日，生成时服务端按同样的日历调整供餐日
+  const selectedWeekEvents = selectedWeek && canteenInfo
+    ? getWeekCalendar(selectedWeek, getConfiguredServiceDays(canteenInfo.serviceDays)).events
+    : []
+  // 循环菜单的后几周可能跨到放假安排尚未公布的年份
+  const uncoveredYears = selectedWeek ? getUncoveredYears(selectedWeek, cycleWeeks) : []
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -243,6 +671,8 @@ export default function Dashboard() {
     return null
   }
 
+  const configuredEquipment = getConfiguredEquipment(canteenInfo.equipment)
+
   return (
     <Layout className="min-h-screen">
       <Header className="bg-blue-600 shadow-sm border-b">
@@ -263,6 +693,15 @@ export default function Dashboard() {
             >
               历史菜单
             </Button>
+            <Button 
+              icon={<OrderedListOutlined />} 
+              type="text"
+              style={{ color: 'white', border: 'none' }}
+              className="hover:bg-blue-500"
+              onClick={() => router.push('/settings')}
+            >
+              开菜规则
+            </Button>
             <Button 
               icon={<LogoutOutlined />} 
               type="text" 
@@ -283,12 +722,60 @@ export default function Dashboard() {
             <Space>
               <Text strong>餐制类型：</Text>
               <Text>{canteenInfo.mealType}</Text>
-              <Text strong>热菜数量：</Text>
-              <Text>{canteenInfo.hotDishCount}道</Text>
-              <Text strong>凉菜数量：</Text>
-              <Text>{canteenInfo.coldDishCount}道</Text>
+              {canteenInfo.mealSlots ? (
+                <>
+                  <Text strong>餐次：</Text>
+                  <Text>
+                    {canteenInfo.mealSlots
+                      .map(slot => `${slot.name}（热菜${slot.hotDishCount}道、凉菜${slot.coldDishCount}道）`)
+                      .join('、')}
+                  </Text>
+                </>
+              ) : (
+                <>
+                  <Text strong>热菜数量：</Text>
+                  <Text>{canteenInfo.hotDishCount}道</Text>
+                  <Text strong>凉菜数量：</Text>
+                  <Text>{canteenInfo.coldDishCount}道</Text>
+                </>
+              )}
+              <Text strong>供餐日：</Text>
+              <Text>{formatServiceDays(getConfiguredServiceDays(canteenInfo.serviceDays))}</Text>
+              <Text strong>近期不重复：</Text>
+              <Text>{canteenInfo.repeatAvoidanceWeeks > 0 ? `${canteenInfo.repeatAvoidanceWeeks}周` : '不限制'}</Text>
+              <Text strong>烹饪设备：</Text>
+              <Text>{configuredEquipment ? formatEquipment(configuredEquipment) : '未登记'}</Text>
+              <Button size="small" icon={<SettingOutlined />} onClick={() => setMealSlotsOpen(true)}>
+                餐次设置
+              </Button>
+              <Button size="small" icon={<CalendarOutlined />} onClick={() => setServiceDaysOpen(true)}>
+                供餐日设置
+              </Button>
+              <Button size="small" icon={<ToolOutlined />} onClick={() => setEquipmentOpen(true)}>
+                设备设置
+              </Button>
             </Space>
           </Card>
+          <MealSlotsModal
+            open={mealSlotsOpen}
+            mealSlots={canteenInfo.mealSlots}
+            hotDishCount={canteenInfo.hotDishCount}
+            coldDishCount={canteenInfo.coldDishCount}
+            onSaved={handleMealSlotsSaved}
+            onClose={() => setMealSlotsOpen(false)}
+          />
+          <ServiceDaysModal
+            open={serviceDaysOpen}
+            serviceDays={getConfiguredServiceDays(canteenInfo.serviceDays)}
+            onSaved={handleServiceDaysSaved}
+            onClose={() => setServiceDaysOpen(false)}
+          />
+          <EquipmentModal
+            open={equipmentOpen}
+            equipment={configuredEquipment}
+            onSaved={handleEquipmentSaved}
+            onClose={() => setEquipmentOpen(false)}
+          />
 
           {/* 生成参数配置 */}
           <Card title="菜单生成配置">
@@ -298,9 +785,48 @@ export default function Dashboard() {
               onFinish={generateMenu}
               initialValues={getDefaultValues()}
             >
+              <Form.Item
+                name="weekStart"
+                label="菜单日期"
+                rules={[{ required: true, message: '请选择菜单对应的一周' }]}
+                extra={(selectedWeekEvents.length > 0 || uncoveredYears.length > 0) && (
+                  <Space size={4} wrap className="mt-1">
+                    {selectedWeekEvents.map(event => (
+                      <Tag key={`${event.kind}-${event.date}`} color={CALENDAR_EVENT_COLORS[event.kind]}>
+                        {formatCalendarEvent(event)}
+                      </Tag>
+                    ))}
+                    {uncoveredYears.length > 0 && (
+                      <Text type="warning">
+                        尚未收录{uncoveredYears.join('、')}年的放假安排，放假和调休不会自动调整，请确认供餐日
+                      </Text>
+                    )}
+                  </Space>
+                )}
+              >
+                <Select
+                  className="max-w-sm"
+                  options={getUpcomingWeeks(WEEK_OPTION_COUNT).map(week => ({ value: week, label: describeWeek(week) }))}
+                />
+              </Form.Item>
+
+              {/* 配置了餐次时各餐次的分类数量在餐次设置中维护，这里只选择要生成的餐次 */}
+              {canteenInfo.mealSlots && (
+                <Form.Item
+                  name="meals"
+                  label="生成餐次"
+                  rules={[{ required: true, message: '请至少选择一个餐次' }]}
+                >
+                  <Checkbox.Group
+                    options={canteenInfo.mealSlots.map(slot => ({ value: slot.name, label: slot.name }))}
+                  />
+                </Form.Item>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <Form.Item
                   name="mainMeatCount"
+                  hidden={!!canteenInfo.mealSlots}
                   label="主荤菜数量"
                   rules={[{ required: true, message: '请设置主荤菜数量' }]}
                 >
@@ -309,6 +835,7 @@ export default function Dashboard() {
 
                 <Form.Item
                   name="halfMeatCount"
+                  hidden={!!canteenInfo.mealSlots}
                   label="半荤菜数量"
                   rules={[{ required: true, message: '请设置半荤菜数量' }]}
                 >
@@ -317,6 +844,7 @@ export default function Dashboard() {
 
                 <Form.Item
                   name="vegetarianCount"
+                  hidden={!!canteenInfo.mealSlots}
                   label="素菜数量"
                   rules={[{ required: true, message: '请设置素菜数量' }]}
                 >
@@ -324,6 +852,22 @@ export default function Dashboard() {
                 </Form.Item>
               </div>
 
+              {canteenInfo.mealType === '自助餐' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Form.Item
+                    name={['buffet', 'guestCount']}
+                    label="每餐就餐人数"
+                    tooltip="用于估算每道菜需要准备的盘数，导出Excel时标注在菜名后；不填时不估算"
+                  >
+                    <InputNumber min={1} max={MAX_BUFFET_GUESTS} precision={0} placeholder="不估算盘数" addonAfter="人" className="w-full" />
+                  </Form.Item>
+
+                  <Form.Item name={['buffet', 'servingsPerTray']} label="每盘份数" tooltip="保温餐炉中一个份盘大约可供多少人取用">
+                    <InputNumber min={MIN_SERVINGS_PER_TRAY} max={MAX_SERVINGS_PER_TRAY} precision={0} addonAfter="份" className="w-full" />
+                  </Form.Item>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Form.Item name="staffSituation" label="人员配置">
                   <Radio.Group>
@@ -342,15 +886,22 @@ export default function Dashboard() {
                 </Form.Item>
               </div>
 
-              <Form.Item name="equipmentShortage" label="设备紧缺情况">
-                <Checkbox.Group>
-                  <Checkbox value="蒸屉">蒸屉紧缺</Checkbox>
-                  <Checkbox value="烤箱">烤箱紧缺</Checkbox>
-                  <Checkbox value="炒锅">炒锅紧缺</Checkbox>
-                  <Checkbox value="炖锅">炖锅紧缺</Checkbox>
-                  <Checkbox value="烧炉">烧炉紧缺</Checkbox>
-                </Checkbox.Group>
-              </Form.Item>
+              {/* 登记了设备时按设备产能生成，不再勾选紧缺情况 */}
+              {configuredEquipment ? (
+                <Form.Item label="设备紧缺情况">
+                  <Text type="secondary">已登记烹饪设备，按每餐设备产能安排菜品（{formatEquipment(configuredEquipment)}）</Text>
+                </Form.Item>
+              ) : (
+                <Form.Item name="equipmentShortage" label="设备紧缺情况" extra="点击上方“设备设置”登记厨房设备后，可以按台数和产能精确安排">
+                  <Checkbox.Group>
+                    <Checkbox value="蒸屉">蒸屉紧缺</Checkbox>
+                    <Checkbox value="烤箱">烤箱紧缺</Checkbox>
+                    <Checkbox value="炒锅">炒锅紧缺</Checkbox>
+                    <Checkbox value="炖锅">炖锅紧缺</Checkbox>
+                    <Checkbox value="烧炉">烧炉紧缺</Checkbox>
+                  </Checkbox.Group>
+                </Form.Item>
+              )}
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Form.Item name="spicyLevel" label="辣味要求">
@@ -366,6 +917,93 @@ export default function Dashboard() {
                 </Form.Item>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Form.Item
+                  name="halal"
+                  valuePropName="checked"
+                  label="饮食要求"
+                  tooltip="生成后会按菜名逐道检查，疑似含禁用食材的菜会列在校验结果中；菜名不能完全反映配料，请按实际配方把关"
+                >
+                  <Checkbox>清真（不使用猪肉及猪源食材）</Checkbox>
+                </Form.Item>
+
+                <Form.Item name="therapeuticDiets" label="治疗膳食">
+                  <Checkbox.Group
+                    options={THERAPEUTIC_DIETS.map(diet => ({ value: diet.key, label: diet.label }))}
+                  />
+                </Form.Item>
+
+                <Form.Item name="meatlessDays" label="全素日" tooltip="当天不出肉禽鱼虾，可以用蛋奶；主荤、半荤用豆制品、菌菇、蛋类做的菜代替">
+                  <Checkbox.Group
+                    options={getConfiguredServiceDays(canteenInfo.serviceDays).map(day => ({ value: day, label: DAY_LABELS[day] }))}
+                  />
+                </Form.Item>
+
+                <Form.Item name="excludedAllergens" label="排除过敏原">
+                  <Select
+                    mode="multiple"
+                    allowClear
+                    placeholder="不排除"
+                    options={ALLERGENS.map(allergen => ({ value: allergen.key, label: allergen.label }))}
+                  />
+                </Form.Item>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Form.Item label="必用食材" tooltip="库存需要消化的食材，可以输入列表中没有的食材；一周菜单中至少有指定道数的菜使用，按菜名统计">
+                  <Form.List name="mustUseIngredients">
+                    {(fields, { add, remove }) => (
+                      <>
+                        {fields.map(({ key, name }) => (
+                          <Space key={key} align="start" wrap>
+                            <Form.Item
+                              name={[name, 'name']}
+                              rules={[{ required: true, whitespace: true, message: '请输入食材' }]}
+                            >
+                              <AutoComplete
+                                placeholder="食材"
+                                className="!w-28"
+                                options={SUPPLY_INGREDIENT_OPTIONS.map(ingredient => ({ value: ingredient }))}
+                                filterOption={(input, option) => !!option?.value.includes(input)}
+                              />
+                            </Form.Item>
+                            <Form.Item name={[name, 'minCount']} rules={[{ required: true, message: '请输入道数' }]}>
+                              <InputNumber min={1} max={MAX_MUST_USE_COUNT} precision={0} addonBefore="至少" addonAfter="道" className="!w-36" />
+                            </Form.Item>
+                            <Form.Item name={[name, 'quantity']}>
+                              <Input maxLength={20} placeholder="库存，如50kg" className="!w-32" />
+                            </Form.Item>
+                            <Button type="text" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                          </Space>
+                        ))}
+                        <Button
+                          type="dashed"
+                          icon={<PlusOutlined />}
+                          disabled={fields.length >= MAX_SUPPLY_INGREDIENTS}
+                          onClick={() => add({ minCount: 2 })}
+                        >
+                          添加必用食材
+                        </Button>
+                      </>
+                    )}
+                  </Form.List>
+                </Form.Item>
+
+                <Form.Item
+                  name="unavailableIngredients"
+                  label="缺货食材"
+                  tooltip="本周没有供应的食材，所有菜品都不会使用；可以输入列表中没有的食材"
+                  rules={[{ type: 'array', max: MAX_SUPPLY_INGREDIENTS, message: `最多设置${MAX_SUPPLY_INGREDIENTS}种缺货食材` }]}
+                >
+                  <Select
+                    mode="tags"
+                    allowClear
+                    placeholder="无"
+                    options={SUPPLY_INGREDIENT_OPTIONS.map(ingredient => ({ value: ingredient, label: ingredient }))}
+                  />
+                </Form.Item>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Form.Item name="workRatio" label="菜品做工比例">
                   <Select>
@@ -385,49 +1023,175 @@ export default function Dashboard() {
                     <Option value="6种">不少于6种</Option>
                   </Select>
                 </Form.Item>
+
+                <Form.Item
+                  name="cycleWeeks"
+                  label="循环周数"
+                  tooltip="从菜单日期开始连续生成几周的循环菜单，整个循环内各周菜品不重复；每一周都计入生成次数"
+                >
+                  <Radio.Group>
+                    <Radio value={1}>只生成1周</Radio>
+                    <Radio value={2}>2周</Radio>
+                    <Radio value={3}>3周</Radio>
+                    <Radio value={4}>4周</Radio>
+                  </Radio.Group>
+                </Form.Item>
+
+                <Form.Item
+                  name="candidateCount"
+                  label="候选方案数"
+                  tooltip="同时生成多份菜单，逐天对比后选用一份或组合保存；每份方案都计入生成次数。生成循环菜单时只生成1份"
+                >
+                  <Radio.Group disabled={cycleWeeks > 1}>
+                    <Radio value={1}>1份</Radio>
+                    <Radio value={2}>2份</Radio>
+                    <Radio value={3}>3份</Radio>
+                  </Radio.Group>
+                </Form.Item>
               </div>
 
               <Form.Item>
-                <Button
-                  type="primary"
-                  htmlType="submit"
-                  loading={generating}
-                  icon={<BookFilled />}
-                  size="large"
-                >
-                  {generating ? '菜单生成中...' : '生成菜单'}
-                </Button>
+                <Space size="middle">
+                  <Button
+                    type="primary"
+                    htmlType="submit"
+                    loading={generating}
+                    disabled={quota?.daily.remaining === 0 || quota?.monthly.remaining === 0}
+                    icon={<BookFilled />}
+                    size="large"
+                  >
+                    {generating ? '菜单生成中...' : '生成菜单'}
+                  </Button>
+                  {quota && (
+                    <Tooltip title="完整生成和重新生成都会计入次数">
+                      <Text type="secondary">
+                        今日剩余 {formatRemaining(quota.daily)} · 本月剩余 {formatRemaining(quota.monthly)}
+                      </Text>
+                    </Tooltip>
+                  )}
+                </Space>
               </Form.Item>
             </Form>
           </Card>
 
+          {/* 尚未有逐天结果时的生成进度（排队中、生成多份候选方案或循环菜单） */}
+          {generating && !weekMenu && progressText && (
+            <Card title="菜单生成中">
+              <Alert type="info" showIcon icon={<Spin size="small" />} message={progressText} />
+            </Card>
+          )}
+
+          {/* 候选方案对比 */}
+          {candidateJob?.candidates && !generating && (
+            <Card title="候选方案对比">
+              <Text type="secondary" className="block mb-2">
+                可以直接选用整套方案，也可以逐天选择不同方案组合后保存；只有保存的菜单会进入历史记录
+              </Text>
+              <CandidatePicker
+                jobId={candidateJob.id}
+                candidates={candidateJob.candidates}
+                onSaved={handleCandidateSaved}
+              />
+            </Card>
+          )}
+
+          {/* 循环菜单 */}
+          {menuCycle && !generating && (
+            <MenuCycleView cycle={menuCycle} canteenName={canteenInfo.canteenName} />
+          )}
+
           {/* 菜单展示 */}
           {weekMenu && (
             <Card 
-              title="本周菜单"
+              title={generating ? '本周菜单（生成中）' : '本周菜单'}
               extra={
                 <Space>
                   <Button 
                     icon={<DownloadOutlined />} 
                     onClick={exportToExcel}
+                    disabled={generating}
                   >
                     导出Excel
                   </Button>
+                  {menuId && (
+                    <Button 
+                      icon={<EditOutlined />} 
+                      onClick={() => setEditing(true)}
+                      disabled={generating || regenerating || editing}
+                    >
+                      编辑菜单
+                    </Button>
+                  )}
+                  {menuId && (
+                    <Button 
+                      icon={<LockFilled />} 
+                      onClick={regenerateUnlocked}
+                      loading={regenerating}
+                      disabled={generating || editing || (locks.days.length === 0 && locks.dishes.length === 0)}
+                    >
+                      重新生成未锁定的菜
+                    </Button>
+                  )}
                   <Button 
                     icon={<ReloadOutlined />} 
                     onClick={() => form.submit()}
                     loading={generating}
+                    disabled={regenerating || editing}
                   >
                     重新生成
                   </Button>
                 </Space>
               }
             >
-              <MenuTable 
-                weekMenu={weekMenu} 
-                hotDishCount={canteenInfo.hotDishCount}
-                coldDishCount={canteenInfo.coldDishCount}
-              />
+              {generating && progressText && (
+                <Alert className="mb-4" type="info" showIcon icon={<Spin size="small" />} message={progressText} />
+              )}
+              {menuWeek.events.length > 0 && (
+                <Space size={4} wrap className="mb-4">
+                  {menuWeek.events.map(event => (
+                    <Tag key={`${event.kind}-${event.date}`} color={CALENDAR_EVENT_COLORS[event.kind]}>
+                      {formatCalendarEvent(event)}
+                    </Tag>
+                  ))}
+                </Space>
+              )}
+              {validation && (
+                <ValidationSummary
+                  report={validation}
+                  historicalCheck={historicalCheck}
+                  repeatCheck={repeatCheck}
+                  seasonalCheck={seasonalCheck}
+                />
+              )}
+              {editing && menuId ? (
+                <>
+                  <Text type="secondary" className="block mb-2">
+                    可以直接修改菜名和分类，拖动菜品到其他天、其他餐次或其他分类的格子，保存后记录为新版本
+                  </Text>
+                  <MenuEditor
+                    menuId={menuId}
+                    revision={menuRevision}
+                    weekMenu={weekMenu}
+                    onSaved={handleEditSaved}
+                    onCancel={() => setEditing(false)}
+                  />
+                </>
+              ) : (
+                <>
+                  {menuId && !generating && (
+                    <Text type="secondary" className="block mb-2">
+                      点击锁图标锁定满意的菜品或整天，再点击「重新生成未锁定的菜」只替换其余菜品
+                    </Text>
+                  )}
+                  <MenuTable
+                    weekMenu={weekMenu}
+                    weekStart={menuWeek.weekStart}
+                    locks={menuId && !generating ? locks : undefined}
+                    onToggleDish={toggleDishLock}
+                    onToggleDay={toggleDayLock}
+                  />
+                </>
+              )}
             </Card>
           )}
         </div>
@@ -436,73 +1200,231 @@ export default function Dashboard() {
   )
 }
 
+interface ValidationSummaryProps {
+  report: MenuValidationReport
+  historicalCheck: HistoricalCheckResult | null
+  repeatCheck: RepeatCheckResult | null
+  seasonalCheck: SeasonalCheckResult | null
+}
+
+/**
+ * 规则校验结果展示
+ * 
+ * 逐条显示硬约束的通过情况，未通过的规则列出具体违规项，
+ * 方便厨师长判断是否需要重新生成。最后列出菜单用到的当季和过季食材。
+ */
+function ValidationSummary({ report, historicalCheck, repeatCheck, seasonalCheck }: ValidationSummaryProps) {
+  const failedRules = report.rules.filter(rule => !rule.passed)
+  const repeatedOriginals = repeatCheck?.repeats.filter(repeat => !repeat.isHistorical) || []
+
+  return (
+    <div className="mb-4">
+      <Space wrap className="mb-2">
+        {report.rules.map(rule => (
+          <Tag key={rule.rule} color={rule.passed ? 'green' : 'red'}>
+            {rule.passed ? '✓' : '✗'} {rule.label}
+          </Tag>
+        ))}
+        {historicalCheck && (
+          <Text type="secondary">
+            历史菜实际占比 {historicalCheck.actualRatio}%（要求 {historicalCheck.requestedRatio}%）
+            {historicalCheck.relabeled.length > 0 && `，已按历史菜单修正 ${historicalCheck.relabeled.length} 道菜的标注`}
+          </Text>
+        )}
+      </Space>
+      {failedRules.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          message="以下规则未满足，可以重新生成或手动调整"
+          description={
+            <ul className="list-disc pl-4">
+              {failedRules.flatMap(rule => rule.violations).map((violation, index) => (
+                <li key={index}>{violation}</li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+      {repeatedOriginals.length > 0 && (
+        <Alert
+          className="mt-2"
+          type="info"
+          showIcon
+          message={`以下原创菜在最近${repeatCheck?.windowWeeks}周已经出过：${repeatedOriginals.map(repeat => repeat.name).join('、')}`}
+        />
+      )}
+      {seasonalCheck && (
+        <div className="mt-2">
+          <Space wrap size={[4, 4]}>
+            <Text type="secondary">
+              {seasonalCheck.month}月（{seasonalCheck.solarTerms.join('、')}）时令食材：
+            </Text>
+            {seasonalCheck.inSeason.length === 0 && <Text type="secondary">未使用</Text>}
+            {seasonalCheck.inSeason.map(use => (
+              <Tooltip key={use.ingredient} title={use.dishes.join('、')}>
+                <Tag color="green">{use.ingredient} ×{use.dishes.length}</Tag>
+              </Tooltip>
+            ))}
+            {seasonalCheck.outOfSeason.length > 0 && <Text type="secondary">过季食材：</Text>}
+            {seasonalCheck.outOfSeason.map(use => (
+              <Tooltip key={use.ingredient} title={use.dishes.join('、')}>
+                <Tag color="orange">{use.ingredient} ×{use.dishes.length}</Tag>
+              </Tooltip>
+            ))}
+          </Space>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface MenuCycleViewProps {
+  cycle: MenuCycle
+  canteenName: string
+}
+
+/**
+ * 循环菜单展示
+ * 
+ * 每周一个标签页，显示这周的节假日、规则校验结果和菜单。
+ * 可以把整个循环导出为一个Excel文件，每周一个工作表。
+ * 各周菜单已分别保存，编辑和局部重新生成在历史记录页中进行。
+ */
+function MenuCycleView({ cycle, canteenName }: MenuCycleViewProps) {
+  const exportCycle = () => {
+    const sheets = cycle.weeks.map(week => ({
+      name: `第${week.cycleWeek}周`,
+      weekMenu: week.weekMenu,
+      weekStart: week.generationParams.weekStart ?? null,
+      buffet: week.generationParams.buffet,
+    }))
+    // 文件名带上第1周的周一，未指定日期时使用导出当天的日期
+    exportMenuWorkbook(sheets, `${canteenName}_循环菜单_${cycle.startWeek ?? new Date().toISOString().split('T')[0]}.xlsx`)
+    message.success('循环菜单已导出到Excel文件')
+  }
+
+  return (
+    <Card
+      title={`${cycle.weekCount}周循环菜单`}
+      extra={
+        <Button icon={<DownloadOutlined />} onClick={exportCycle}>
+          导出Excel（每周一个工作表）
+        </Button>
+      }
+    >
+      <Text type="secondary" className="block mb-2">
+        各周菜单已分别保存到历史记录，可以在历史记录页中单独编辑或调整
+      </Text>
+      <Tabs
+        items={cycle.weeks.map(week => {
+          const weekStart = week.generationParams.weekStart ?? null
+          const events = week.generationParams.calendarEvents || []
+          return {
+            key: String(week.cycleWeek),
+            label: weekStart ? `第${week.cycleWeek}周 · ${describeWeek(weekStart)}` : `第${week.cycleWeek}周`,
+            children: (
+              <>
+                {events.length > 0 && (
+                  <Space size={4} wrap className="mb-4">
+                    {events.map(event => (
+                      <Tag key={`${event.kind}-${event.date}`} color={CALENDAR_EVENT_COLORS[event.kind]}>
+                        {formatCalendarEvent(event)}
+                      </Tag>
+                    ))}
+                  </Space>
+                )}
+                <ValidationSummary
+                  report={week.validation}
+                  historicalCheck={null}
+                  repeatCheck={null}
+                  seasonalCheck={week.seasonalCheck}
+                />
+                <MenuTable weekMenu={week.weekMenu} weekStart={weekStart} />
+              </>
+            ),
+          }
+        })}
+      />
+    </Card>
+  )
+}
+
 interface MenuTableProps {
   weekMenu: WeekMenu
-  hotDishCount: number
-  coldDishCount: number
+  /** 菜单对应周的周一，指定了日期时表头显示日期 */
+  weekStart: string | null
+  /** 锁定状态，不提供时不显示锁定按钮（如生成过程中） */
+  locks?: MenuLocks
+  onToggleDish?: (slot: MenuSlot) => void
+  onToggleDay?: (day: keyof WeekMenu) => void
 }
 
-function MenuTable({ weekMenu, hotDishCount, coldDishCount }: MenuTableProps) {
+/**
+ * 一周菜单表格
+ * 
+ * 按主荤、半荤、素菜、凉菜分组展示，多餐次菜单先按餐次分组，历史菜高亮显示。
+ * 表头和每道菜前可以切换锁定状态，锁定整天时当天的菜都显示为锁定。
+ */
+function MenuTable({ weekMenu, weekStart, locks, onToggleDish, onToggleDay }: MenuTableProps) {
+  const rows = buildWeekMenuRows(weekMenu)
+
   const columns = [
+    ...(rows.some(row => row.meal !== null) ? [{
+      title: '餐次',
+      key: 'meal',
+      width: 70,
+      render: (_: unknown, row: (typeof rows)[number]) => row.isFirstOfMeal ? row.meal : '',
+    }] : []),
     {
       title: '类型',
       dataIndex: 'type',
       key: 'type',
       width: 80,
-      render: (text: string, record: Record<string, unknown>, index: number) => {
-        if (index < hotDishCount) {
-          return index === 0 ? '热菜' : ''
-        } else {
-          return index === hotDishCount ? '凉菜' : ''
-        }
-      }
-    },
-    {
-      title: '周一',
-      dataIndex: 'monday',
-      key: 'monday',
+      render: (_: unknown, row: (typeof rows)[number]) => row.isFirstOfType ? DISH_TYPE_LABELS[row.type] : '',
     },
-    {
-      title: '周二',
-      dataIndex: 'tuesday',
-      key: 'tuesday',
-    },
-    {
-      title: '周三',
-      dataIndex: 'wednesday',
-      key: 'wednesday',
-    },
-    {
-      title: '周四',
-      dataIndex: 'thursday',
-      key: 'thursday',
-    },
-    {
-      title: '周五',
-      dataIndex: 'friday',
-      key: 'friday',
-    },
-  ]
+    ...getMenuDays(weekMenu).map(day => {
+      const dayLocked = locks?.days.includes(day) ?? false
+      return {
+        title: locks ? (
+          <Space size={4}>
+            {formatDayTitle(day, weekStart)}
+            <Tooltip title={dayLocked ? '取消锁定整天' : '锁定整天'}>
+              <Button
+                type="text"
+                size="small"
+                icon={dayLocked ? <LockFilled className="text-blue-600" /> : <UnlockOutlined className="text-gray-400" />}
+                onClick={() => onToggleDay?.(day)}
+              />
+            </Tooltip>
+          </Space>
+        ) : formatDayTitle(day, weekStart),
+        key: day,
+        render: (_: unknown, row: (typeof rows)[number]) => {
+          const dish = row.dishes[day] ?? null
+          if (!dish || !locks) {
+            return <DishCell dish={dish} />
+          }
 
-  const dataSource = []
-  const maxRows = hotDishCount + coldDishCount
-
-  for (let i = 0; i < maxRows; i++) {
-    dataSource.push({
-      key: i,
-      type: i < hotDishCount ? '热菜' : '凉菜',
-      monday: weekMenu.monday[i] || '',
-      tuesday: weekMenu.tuesday[i] || '',
-      wednesday: weekMenu.wednesday[i] || '',
-      thursday: weekMenu.thursday[i] || '',
-      friday: weekMenu.friday[i] || '',
-    })
-  }
+          // 表格按分类分组，通过对象引用找回菜品在当天菜单中的序号
+          const index = weekMenu[day]!.indexOf(dish)
+          const locked = dayLocked || locks.dishes.some(slot => slot.day === day && slot.index === index)
+          return (
+            <DishCell
+              dish={dish}
+              locked={locked}
+              onToggleLock={dayLocked ? undefined : () => onToggleDish?.({ day, index })}
+            />
+          )
+        },
+      }
+    }),
+  ]
 
   return (
     <Table
       columns={columns}
-      dataSource={dataSource}
+      dataSource={rows}
       pagination={false}
       bordered
       size="small"
@@ -3,47 +3,105 @@
 import { useState, useEffect, useCallback } from 'react'
 import { 
   Layout, Card, Space, Typography, Table, message, Spin, 
-  Button, Tabs, Tag, Collapse
+  Button, Tabs, Tag, Collapse, Modal, Radio, DatePicker,
+  InputNumber, Pagination, Tooltip
 } from 'antd'
 import { 
   ArrowLeftOutlined, BookFilled, HistoryOutlined, 
   FileTextOutlined, CalendarOutlined, UploadOutlined,
-  LoadingOutlined, CheckCircleOutlined
+  LoadingOutlined, CheckCircleOutlined, EditOutlined,
+  PushpinOutlined, PushpinFilled, InboxOutlined, RollbackOutlined, DownloadOutlined
 } from '@ant-design/icons'
 import * as XLSX from 'xlsx'
 import { useRouter } from 'next/navigation'
-import type { WeekMenu, GenerationParams } from '@/types'
+import type { WeekMenu, GenerationParams, MenuCycle, MenuRevisionSource } from '@/types'
+import { DISH_TYPE_LABELS, buildWeekMenuRows, getMenuDays } from '@/lib/menu-format'
+import { describeWeek, formatDayTitle } from '@/lib/holiday-calendar'
+import { exportMenuWorkbook } from '@/lib/menu-export'
+import { describeDietaryRequirements } from '@/lib/dietary-rules'
+import DishCell from '@/components/DishCell'
+import MenuEditor from '@/components/MenuEditor'
+import type { MenuSaveResult } from '@/components/MenuEditor'
 
 const { Header, Content } = Layout
 const { Title, Text, Paragraph } = Typography
 const { TabPane } = Tabs
 const { Panel } = Collapse
+const { RangePicker } = DatePicker
+
+type MenuStatusFilter = 'active' | 'pinned' | 'archived' | 'all'
+
+interface MenuListQuery {
+  page: number
+  pageSize: number
+  status: MenuStatusFilter
+  from?: string // ISO时间
+  to?: string
+}
 
 interface HistoryData {
   canteenName: string
   uploadedMenus: string[][] // 上传的历史菜单
   updatedAt: string // 历史菜单最后更新时间
+  menuRetentionCount: number // 自动保留的生成菜单份数
+  pagination: { page: number; pageSize: number; total: number }
   generatedMenus: Array<{
     id: string
     weekMenu: WeekMenu
     generationParams: GenerationParams
+    cycleId: string | null // 所属的循环菜单
+    cycleWeek: number | null
+    revision: number
+    pinned: boolean
+    archivedAt: string | null
     createdAt: string
+    updatedAt: string
   }>
 }
 
+interface RevisionRecord {
+  revision: number
+  source: MenuRevisionSource
+  summary: string | null
+  createdAt: string
+  weekMenu: WeekMenu
+}
+
+const REVISION_SOURCE_LABELS: Record<MenuRevisionSource, { label: string; color: string }> = {
+  generate: { label: 'AI生成', color: 'blue' },
+  regenerate: { label: '局部重新生成', color: 'purple' },
+  edit: { label: '手动编辑', color: 'orange' },
+}
+
 export default function HistoryPage() {
   const [loading, setLoading] = useState(true)
   const [data, setData] = useState<HistoryData | null>(null)
   const [uploadingStates, setUploadingStates] = useState<boolean[]>([false, false, false, false]) // 4个菜单的上传状态
   const [recentlyUpdated, setRecentlyUpdated] = useState<number | null>(null) // 最近更新的菜单索引
+  const [editingMenuId, setEditingMenuId] = useState<string | null>(null) // 正在编辑的生成菜单
+  const [revisionMenuId, setRevisionMenuId] = useState<string | null>(null) // 正在查看修改记录的菜单
+  const [revisions, setRevisions] = useState<RevisionRecord[] | null>(null)
+  const [query, setQuery] = useState<MenuListQuery>({ page: 1, pageSize: 10, status: 'active' }) // 生成记录的分页和筛选
+  const [listLoading, setListLoading] = useState(false)
+  const [retentionCount, setRetentionCount] = useState<number | null>(null)
+  const [savingRetention, setSavingRetention] = useState(false)
   const router = useRouter()
 
   const fetchHistoryMenus = useCallback(async () => {
+    setListLoading(true)
     try {
-      const response = await fetch('/api/history-menus')
+      const searchParams = new URLSearchParams({
+        page: String(query.page),
+        pageSize: String(query.pageSize),
+        status: query.status,
+        ...(query.from ? { from: query.from } : {}),
+        ...(query.to ? { to: query.to } : {}),
+      })
+      const response = await fetch(`/api/history-menus?${searchParams}`)
       if (response.ok) {
         const result = await response.json()
         setData(result.data)
+        setRetentionCount(prev => prev ?? result.data.menuRetentionCount)
       } else {
         message.error('获取历史菜单失败')
         router.push('/')
@@ -54,8 +112,9 @@ export default function HistoryPage() {
       router.push('/')
     } finally {
       setLoading(false)
+      setListLoading(false)
     }
-  }, [router])
+  }, [router, query])
 
   useEffect(() => {
     fetchHistoryMenus()
@@ -200,6 +259,122 @@ export default function HistoryPage() {
     input.click()
   }
 
+  // 编辑保存后更新本地数据
+  const handleMenuSaved = (menuId: string, result: MenuSaveResult) => {
+    if (data) {
+      setData({
+        ...data,
+        generatedMenus: data.generatedMenus.map(menu => menu.id === menuId
+          ? { ...menu, weekMenu: result.menu, revision: result.revision, updatedAt: new Date().toISOString() }
+          : menu
+        ),
+      })
+    }
+    setEditingMenuId(null)
+  }
+
+  // 置顶或归档菜单，完成后刷新列表（菜单可能移出当前筛选）
+  const updateMenuStatus = async (menuId: string, changes: { pinned?: boolean; archived?: boolean }) => {
+    try {
+      const response = await fetch(`/api/menus/${menuId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      })
+      const result = await response.json()
+      if (result.success) {
+        if (changes.pinned !== undefined) {
+          message.success(changes.pinned ? '已置顶，该菜单不会被自动归档' : '已取消置顶')
+        } else {
+          message.success(changes.archived ? '已归档，可在"已归档"中恢复' : '已恢复')
+        }
+        fetchHistoryMenus()
+      } else {
+        message.error(result.error || '操作失败')
+      }
+    } catch (error) {
+      console.error('Update menu status failed:', error)
+      message.error('网络错误')
+    }
+  }
+
+  // 导出菜单所属的整个循环菜单，每周一个工作表
+  const exportCycle = async (cycleId: string) => {
+    if (!data) return
+
+    try {
+      const response = await fetch(`/api/menu-cycles/${cycleId}`)
+      const result = await response.json()
+      if (result.success) {
+        const cycle = result.data as MenuCycle
+        const sheets = cycle.weeks.map(week => ({
+          name: `第${week.cycleWeek}周`,
+          weekMenu: week.weekMenu,
+          weekStart: week.generationParams.weekStart ?? null,
+          buffet: week.generationParams.buffet,
+        }))
+        exportMenuWorkbook(sheets, `${data.canteenName}_循环菜单_${cycle.startWeek ?? new Date().toISOString().split('T')[0]}.xlsx`)
+        message.success('循环菜单已导出到Excel文件')
+      } else {
+        message.error(result.error || '获取循环菜单失败')
+      }
+    } catch (error) {
+      console.error('Export menu cycle failed:', error)
+      message.error('网络错误')
+    }
+  }
+
+  // 保存保留份数设置
+  const saveRetention = async () => {
+    if (retentionCount === null) return
+    setSavingRetention(true)
+    try {
+      const response = await fetch('/api/history-menus/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ menuRetentionCount: retentionCount }),
+      })
+      const result = await response.json()
+      if (result.success) {
+        message.success(result.data.archivedCount > 0
+          ? `设置已保存，${result.data.archivedCount} 份较早的菜单已归档`
+          : '设置已保存')
+        fetchHistoryMenus()
+      } else {
+        message.error(result.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save retention failed:', error)
+      message.error('网络错误')
+    } finally {
+      setSavingRetention(false)
+    }
+  }
+
+  // 打开修改记录
+  const showRevisions = async (menuId: string) => {
+    setRevisionMenuId(menuId)
+    setRevisions(null)
+    try {
+      const response = await fetch(`/api/menus/${menuId}/revisions`)
+      const result = await response.json()
+      if (result.success) {
+        setRevisions(result.data.revisions)
+      } else {
+        message.error(result.error || '获取修改记录失败')
+        setRevisionMenuId(null)
+      }
+    } catch (error) {
+      console.error('Fetch menu revisions failed:', error)
+      message.error('网络错误')
+      setRevisionMenuId(null)
+    }
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('zh-CN', {
       year: 'numeric',
@@ -328,37 +503,205 @@ export default function HistoryPage() {
               tab={
                 <span>
                   <CalendarOutlined />
-                  生成记录 ({data.generatedMenus.length})
+                  生成记录 ({data.pagination.total})
                 </span>
               }
               key="generated"
             >
               <Space direction="vertical" size="large" className="w-full">
-                {data.generatedMenus.length > 0 ? (
-                  data.generatedMenus.map((menu, index) => (
-                    <Card
-                      key={menu.id}
-                      title={
-                        <Space>
-                          <BookFilled className="text-blue-500" />
-                          <span>第 {index + 1} 次生成</span>
-                          <Tag color="green">{formatDate(menu.createdAt)}</Tag>
-                        </Space>
-                      }
-                    >
-                      <GeneratedMenuTable weekMenu={menu.weekMenu} />
-                    </Card>
-                  ))
-                ) : (
-                  <Card>
-                    <div className="text-center py-8 text-gray-500">
-                      暂无生成的菜单记录
-                    </div>
-                  </Card>
+                {/* 列表筛选和保留设置 */}
+                <Card size="small">
+                  <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Space wrap>
+                      <Radio.Group
+                        value={query.status}
+                        onChange={e => setQuery(prev => ({ ...prev, page: 1, status: e.target.value }))}
+                        optionType="button"
+                        options={[
+                          { value: 'active', label: '当前' },
+                          { value: 'pinned', label: '已置顶' },
+                          { value: 'archived', label: '已归档' },
+                          { value: 'all', label: '全部' },
+                        ]}
+                      />
+                      <RangePicker
+                        placeholder={['生成开始日期', '生成结束日期']}
+                        onChange={dates => setQuery(prev => ({
+                          ...prev,
+                          page: 1,
+                          from: dates?.[0]?.startOf('day').toISOString(),
+                          to: dates?.[1]?.endOf('day').toISOString(),
+                        }))}
+                      />
+                    </Space>
+                    <Space>
+                      <Tooltip title="超出份数的较早菜单会自动归档（置顶的菜单除外），0表示不自动归档">
+                        <Text>自动保留最近</Text>
+                      </Tooltip>
+                      <InputNumber
+                        min={0}
+                        max={100}
+                        value={retentionCount}
+                        onChange={value => setRetentionCount(value)}
+                        addonAfter="份"
+                        style={{ width: 120 }}
+                      />
+                      <Button
+                        onClick={saveRetention}
+                        loading={savingRetention}
+                        disabled={retentionCount === null || retentionCount === data.menuRetentionCount}
+                      >
+                        保存
+                      </Button>
+                    </Space>
+                  </div>
+                </Card>
+
+                <Spin spinning={listLoading}>
+                  <Space direction="vertical" size="large" className="w-full">
+                    {data.generatedMenus.length > 0 ? (
+                      data.generatedMenus.map(menu => (
+                        <Card
+                          key={menu.id}
+                          title={
+                            <Space>
+                              <BookFilled className="text-blue-500" />
+                              {menu.generationParams.weekStart && (
+                                <Tag color="blue">{describeWeek(menu.generationParams.weekStart)}</Tag>
+                              )}
+                              {menu.cycleWeek && <Tag color="purple">循环菜单第{menu.cycleWeek}周</Tag>}
+                              {describeDietaryRequirements(menu.generationParams).map(label => (
+                                <Tag key={label} color="green">{label}</Tag>
+                              ))}
+                              <span>{formatDate(menu.createdAt)} 生成</span>
+                              {menu.pinned && <Tag color="gold" icon={<PushpinFilled />}>置顶</Tag>}
+                              {menu.archivedAt && <Tag>已归档</Tag>}
+                              {menu.revision > 1 && (
+                                <Tag color="orange">第{menu.revision}版 · {formatDate(menu.updatedAt)}修改</Tag>
+                              )}
+                            </Space>
+                          }
+                          extra={
+                            <Space>
+                              {menu.cycleId && (
+                                <Button
+                                  size="small"
+                                  icon={<DownloadOutlined />}
+                                  onClick={() => exportCycle(menu.cycleId!)}
+                                >
+                                  导出循环
+                                </Button>
+                              )}
+                              <Button
+                                size="small"
+                                icon={menu.pinned ? <PushpinFilled /> : <PushpinOutlined />}
+                                onClick={() => updateMenuStatus(menu.id, { pinned: !menu.pinned })}
+                              >
+                                {menu.pinned ? '取消置顶' : '置顶'}
+                              </Button>
+                              <Button
+                                size="small"
+                                icon={menu.archivedAt ? <RollbackOutlined /> : <InboxOutlined />}
+                                onClick={() => updateMenuStatus(menu.id, { archived: !menu.archivedAt })}
+                              >
+                                {menu.archivedAt ? '恢复' : '归档'}
+                              </Button>
+                              <Button
+                                size="small"
+                                icon={<EditOutlined />}
+                                disabled={editingMenuId !== null}
+                                onClick={() => setEditingMenuId(menu.id)}
+                              >
+                                编辑
+                              </Button>
+                              <Button
+                                size="small"
+                                icon={<HistoryOutlined />}
+                                onClick={() => showRevisions(menu.id)}
+                              >
+                                修改记录
+                              </Button>
+                            </Space>
+                          }
+                        >
+                          {editingMenuId === menu.id ? (
+                            <MenuEditor
+                              menuId={menu.id}
+                              revision={menu.revision}
+                              weekMenu={menu.weekMenu}
+                              onSaved={result => handleMenuSaved(menu.id, result)}
+                              onCancel={() => setEditingMenuId(null)}
+                            />
+                          ) : (
+                            <GeneratedMenuTable weekMenu={menu.weekMenu} weekStart={menu.generationParams.weekStart} />
+                          )}
+                        </Card>
+                      ))
+                    ) : (
+                      <Card>
+                        <div className="text-center py-8 text-gray-500">
+                          暂无生成的菜单记录
+                        </div>
+                      </Card>
+                    )}
+                  </Space>
+                </Spin>
+
+                {data.pagination.total > data.pagination.pageSize && (
+                  <div className="flex justify-end">
+                    <Pagination
+                      current={data.pagination.page}
+                      pageSize={data.pagination.pageSize}
+                      total={data.pagination.total}
+                      showSizeChanger
+                      pageSizeOptions={[5, 10, 20, 50]}
+                      onChange={(page, pageSize) => setQuery(prev => ({ ...prev, page, pageSize }))}
+                    />
+                  </div>
                 )}
               </Space>
             </TabPane>
           </Tabs>
+
+          {/* 菜单修改记录 */}
+          <Modal
+            title="修改记录"
+            open={revisionMenuId !== null}
+            onCancel={() => setRevisionMenuId(null)}
+            footer={null}
+            width={1000}
+          >
+            {revisions && revisions.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                该菜单生成后还没有修改过
+              </div>
+            )}
+            {revisions ? (
+              <Collapse accordion>
+                {revisions.map(revision => (
+                  <Panel
+                    key={revision.revision}
+                    header={
+                      <Space wrap>
+                        <Tag>第{revision.revision}版</Tag>
+                        <Tag color={REVISION_SOURCE_LABELS[revision.source]?.color}>
+                          {REVISION_SOURCE_LABELS[revision.source]?.label || revision.source}
+                        </Tag>
+                        <Text type="secondary">{formatDate(revision.createdAt)}</Text>
+                        {revision.summary && <Text>{revision.summary}</Text>}
+                      </Space>
+                    }
+                  >
+                    <GeneratedMenuTable weekMenu={revision.weekMenu} />
+                  </Panel>
+                ))}
+              </Collapse>
+            ) : (
+              <div className="text-center py-8">
+                <Spin />
+              </div>
+            )}
+          </Modal>
         </div>
       </Content>
     </Layout>
@@ -367,91 +710,50 @@ export default function HistoryPage() {
 
 interface GeneratedMenuTableProps {
   weekMenu: WeekMenu
+  /** 菜单对应周的周一，旧菜单为空 */
+  weekStart?: string
 }
 
-function GeneratedMenuTable({ weekMenu }: GeneratedMenuTableProps) {
+function GeneratedMenuTable({ weekMenu, weekStart }: GeneratedMenuTableProps) {
+  // 按餐次、分类分组，与主页菜单表格保持一致
+  const rows = buildWeekMenuRows(weekMenu)
+
   const columns = [
-    {
-      title: '周一',
-      dataIndex: 'monday',
-      key: 'monday',
-      render: (dish: string) => (
-        <div className="text-sm">
-          {dish}
-        </div>
-      )
-    },
-    {
-      title: '周二',
-      dataIndex: 'tuesday',
-      key: 'tuesday',
-      render: (dish: string) => (
-        <div className="text-sm">
-          {dish}
-        </div>
-      )
-    },
-    {
-      title: '周三',
-      dataIndex: 'wednesday',
-      key: 'wednesday',
-      render: (dish: string) => (
+    ...(rows.some(row => row.meal !== null) ? [{
+      title: '餐次',
+      key: 'meal',
+      width: 70,
+      render: (_: unknown, row: (typeof rows)[number]) => (
         <div className="text-sm">
-          {dish}
+          {row.isFirstOfMeal ? row.meal : ''}
         </div>
       )
-    },
-    {
-      title: '周四',
-      dataIndex: 'thursday',
-      key: 'thursday',
-      render: (dish: string) => (
-        <div className="text-sm">
-          {dish}
-        </div>
-      )
-    },
+    }] : []),
     {
-      title: '周五',
-      dataIndex: 'friday',
-      key: 'friday',
-      render: (dish: string) => (
+      title: '类型',
+      key: 'type',
+      width: 80,
+      render: (_: unknown, row: (typeof rows)[number]) => (
         <div className="text-sm">
-          {dish}
+          {row.isFirstOfType ? DISH_TYPE_LABELS[row.type] : ''}
         </div>
       )
     },
+    ...getMenuDays(weekMenu).map(day => ({
+      title: formatDayTitle(day, weekStart),
+      key: day,
+      render: (_: unknown, row: (typeof rows)[number]) => <DishCell dish={row.dishes[day] ?? null} />
+    })),
   ]
 
-  // 计算最大行数
-  const maxRows = Math.max(
-    weekMenu.monday.length,
-    weekMenu.tuesday.length,
-    weekMenu.wednesday.length,
-    weekMenu.thursday.length,
-    weekMenu.friday.length
-  )
-
-  const dataSource = []
-  for (let i = 0; i < maxRows; i++) {
-    dataSource.push({
-      key: i,
-      monday: weekMenu.monday[i] || '',
-      tuesday: weekMenu.tuesday[i] || '',
-      wednesday: weekMenu.wednesday[i] || '',
-      thursday: weekMenu.thursday[i] || '',
-      friday: weekMenu.friday[i] || '',
-    })
-  }
-
   return (
     <Table
       columns={columns}
-      dataSource={dataSource}
+      dataSource={rows}
       pagination={false}
       bordered
       size="small"
       className="mb-4"
     />
   )
-}
\ No newline at end of file
+}
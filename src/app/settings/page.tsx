@@ -0,0 +1,228 @@
+/**
+ * 开菜规则设置页面
+ *
+ * 列出内置的开菜规则，食堂可以：
+ * 1. 停用不适用的规则，停用后Prompt中不再列出，对应的规则校验也不再进行
+ * 2. 修改有阈值的规则（如至少出现的烹饪方法种数、每餐勾芡菜上限）
+ * 3. 补充食堂自己的规则，写在内置规则之后
+ *
+ * 带有"按生成配置"的规则内容在生成时按菜单生成配置中的选项填写。
+ * 保存后只影响之后生成的菜单。
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Layout, Card, Form, Button, Space, Typography, Switch, InputNumber, Input, message, Spin
+} from 'antd'
+import { ArrowLeftOutlined, DeleteOutlined, OrderedListOutlined, PlusOutlined } from '@ant-design/icons'
+import { useRouter } from 'next/navigation'
+import type { MenuRuleSettings } from '@/types'
+import {
+  MAX_CUSTOM_RULES, MAX_CUSTOM_RULE_LENGTH, MENU_RULE_DEFINITIONS, formatMenuRuleContent, getDefaultMenuRules
+} from '@/lib/menu-rules'
+
+const { Header, Content } = Layout
+const { Title, Text, Paragraph } = Typography
+
+/** 规则内容中按生成配置填写的占位符，设置页上统一显示为提示文字 */
+const GENERATION_PLACEHOLDER = '（按生成配置）'
+
+export default function MenuRulesSettingsPage() {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [canteenName, setCanteenName] = useState('')
+  const [form] = Form.useForm<MenuRuleSettings>()
+  const rules = Form.useWatch('rules', form) as MenuRuleSettings['rules'] | undefined
+  const router = useRouter()
+
+  const fetchMenuRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/canteen/menu-rules')
+      if (response.ok) {
+        const result = await response.json()
+        setCanteenName(result.data.canteenName)
+        form.setFieldsValue(result.data.menuRules)
+      } else {
+        message.error('获取开菜规则失败')
+        router.push('/')
+      }
+    } catch (error) {
+      console.error('Fetch menu rules failed:', error)
+      message.error('网络错误')
+      router.push('/')
+    } finally {
+      setLoading(false)
+    }
+  }, [router, form])
+
+  useEffect(() => {
+    fetchMenuRules()
+  }, [fetchMenuRules])
+
+  const handleSave = async (values: MenuRuleSettings) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/canteen/menu-rules', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          menuRules: {
+            // 表单只填写开关和阈值，规则ID按行的顺序补上
+            rules: values.rules.map((rule, index) => ({ ...rule, id: MENU_RULE_DEFINITIONS[index].id })),
+            customRules: values.customRules || [],
+          },
+        }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success('开菜规则已保存，之后生成的菜单按新规则生成')
+        form.setFieldsValue(data.data.menuRules)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save menu rules failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // 恢复默认只修改表单，保存后才生效
+  const handleReset = () => {
+    form.setFieldsValue(getDefaultMenuRules())
+    message.info('已恢复为默认规则，保存后生效')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Spin size="large" />
+      </div>
+    )
+  }
+
+  return (
+    <Layout className="min-h-screen">
+      <Header className="bg-blue-600 shadow-sm border-b">
+        <div className="flex items-center justify-between">
+          <Space>
+            <Button
+              type="text"
+              icon={<ArrowLeftOutlined />}
+              style={{ color: 'white', border: 'none' }}
+              className="hover:bg-blue-500"
+              onClick={() => router.push('/dashboard')}
+            >
+              返回主页
+            </Button>
+            <OrderedListOutlined className="text-white text-xl" />
+            <Title level={4} style={{ color: 'white', margin: 0 }}>
+              {canteenName} - 开菜规则
+            </Title>
+          </Space>
+        </div>
+      </Header>
+
+      <Content className="p-6 bg-gray-50">
+        <div className="max-w-4xl mx-auto">
+          <Form form={form} onFinish={handleSave} initialValues={getDefaultMenuRules()}>
+            <Card title="内置规则" className="mb-6">
+              <Paragraph type="secondary">
+                生成菜单时，启用的规则按下面的顺序写入Prompt中的【开菜规则】。
+                标注“{GENERATION_PLACEHOLDER}”的部分按每次生成时选择的设备、辣味、人员等配置填写。
+                已生成的菜单不受修改影响。
+              </Paragraph>
+              <Form.List name="rules">
+                {fields => fields.map(({ key, name }) => {
+                  const definition = MENU_RULE_DEFINITIONS[name]
+                  const setting = rules?.[name]
+                  return (
+                    <div key={key} className="flex items-start gap-4 py-3 border-b last:border-b-0">
+                      <Form.Item name={[name, 'enabled']} valuePropName="checked" className="mb-0">
+                        <Switch size="small" />
+                      </Form.Item>
+                      <div className="flex-1">
+                        <Text strong delete={setting?.enabled === false}>{definition.title}</Text>
+                        <div>
+                          <Text type="secondary">
+                            {formatMenuRuleContent(definition, setting?.threshold).replace(/\{\{.+?\}\}/g, GENERATION_PLACEHOLDER)}
+                          </Text>
+                        </div>
+                        {definition.threshold && (
+                          <Space className="mt-2">
+                            <Text>{definition.threshold.label}：</Text>
+                            <Form.Item
+                              name={[name, 'threshold']}
+                              rules={[{ required: true, message: '必填' }]}
+                              className="mb-0"
+                            >
+                              <InputNumber
+                                min={definition.threshold.min}
+                                max={definition.threshold.max}
+                                addonAfter={definition.threshold.unit}
+                                disabled={setting?.enabled === false}
+                                className="w-28"
+                              />
+                            </Form.Item>
+                          </Space>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </Form.List>
+            </Card>
+
+            <Card title="补充规则" className="mb-6">
+              <Paragraph type="secondary">
+                食堂自己的开菜要求，如“每天至少一道汤菜”“周五安排一道鱼”，写在内置规则之后，AI生成时会尽量遵守。
+              </Paragraph>
+              <Form.List name="customRules">
+                {(fields, { add, remove }) => (
+                  <>
+                    {fields.map(({ key, name }) => (
+                      <Space key={key} align="start" className="w-full mb-2">
+                        <Form.Item
+                          name={name}
+                          rules={[{ required: true, whitespace: true, message: '请输入规则内容，不需要时删除' }]}
+                          className="mb-0"
+                        >
+                          <Input maxLength={MAX_CUSTOM_RULE_LENGTH} showCount placeholder="如：每天至少一道汤菜" style={{ width: 600 }} />
+                        </Form.Item>
+                        <Button type="text" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                      </Space>
+                    ))}
+                    <Button
+                      type="dashed"
+                      block
+                      icon={<PlusOutlined />}
+                      disabled={fields.length >= MAX_CUSTOM_RULES}
+                      onClick={() => add('')}
+                    >
+                      添加规则（最多{MAX_CUSTOM_RULES}条）
+                    </Button>
+                  </>
+                )}
+              </Form.List>
+            </Card>
+
+            <Space>
+              <Button type="primary" htmlType="submit" loading={saving}>
+                保存
+              </Button>
+              <Button onClick={handleReset}>
+                恢复默认
+              </Button>
+            </Space>
+          </Form>
+        </div>
+      </Content>
+    </Layout>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, Radio, Space, Table, Tag, Tooltip, Typography, message } from 'antd'
+import { CheckOutlined, SaveOutlined } from '@ant-design/icons'
+import type {
+  CandidateSelection, HistoricalCheckResult, MenuCandidate, MenuValidationReport, RepeatCheckResult, SeasonalCheckResult, WeekMenu
+} from '@/types'
+import { DAY_LABELS, DISH_TYPES, DISH_TYPE_LABELS, getMenuDays, getWeekMenuMeals } from '@/lib/menu-format'
+import { countViolations } from '@/lib/menu-validator'
+import DishCell from './DishCell'
+
+const { Text } = Typography
+
+export interface CandidateSaveResult {
+  menu: WeekMenu
+  menuId: string
+  revision: number
+  validation: MenuValidationReport
+  historicalCheck: HistoricalCheckResult
+  repeatCheck: RepeatCheckResult
+  seasonalCheck: SeasonalCheckResult | null
+}
+
+interface CandidatePickerProps {
+  jobId: string
+  candidates: MenuCandidate[]
+  onSaved: (result: CandidateSaveResult) => void
+}
+
+/**
+ * 候选方案对比
+ *
+ * 每行是一天，每列是一份候选方案，方便逐天对比，多餐次菜单在格子内按餐次分段。厨师长可以：
+ * 1. 点击方案表头的「选用此方案」直接保存整套方案
+ * 2. 在每一天选择要用的方案，组合后保存
+ *
+ * 保存时提交到 POST /api/generate-menu/jobs/{id}/select，
+ * 服务端重新核实历史菜标注和校验规则后保存为菜单。
+ */
+export default function CandidatePicker({ jobId, candidates, onSaved }: CandidatePickerProps) {
+  // 同一任务的候选方案供餐日和餐次相同，以任意一份成功的方案为准
+  const sample = candidates.find(candidate => candidate.weekMenu)?.weekMenu ?? {}
+  const days = getMenuDays(sample)
+  // 多餐次菜单在每天的格子里按餐次分段显示
+  const meals = getWeekMenuMeals(sample)
+
+  // 默认每天都选得分最高的方案
+  const [selection, setSelection] = useState<CandidateSelection>(() => {
+    const best = candidates
+      .filter(candidate => candidate.status === 'succeeded')
+      .reduce((a, b) => (b.score > a.score ? b : a))
+    return Object.fromEntries(days.map(day => [day, best.index]))
+  })
+  const [saving, setSaving] = useState(false)
+
+  const selectedIndexes = [...new Set(Object.values(selection))]
+
+  const save = async (chosen: CandidateSelection) => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/generate-menu/jobs/${jobId}/select`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ selection: chosen }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        if (data.validation && !data.validation.passed) {
+          message.warning('菜单已保存，但组合后有部分规则未满足')
+        } else {
+          message.success('菜单已保存')
+        }
+        onSaved(data)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save candidate selection failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const selectWhole = (index: number) => {
+    save(Object.fromEntries(days.map(day => [day, index])))
+  }
+
+  const columns = [
+    {
+      title: '星期',
+      key: 'day',
+      width: 70,
+      render: (_: unknown, day: keyof WeekMenu) => DAY_LABELS[day],
+    },
+    ...candidates.map(candidate => ({
+      title: (
+        <Space direction="vertical" size={4}>
+          <Text strong>方案{candidate.index + 1}</Text>
+          {candidate.status === 'succeeded' && candidate.validation ? (
+            <>
+              <Space size={4} wrap>
+                <Tag color={candidate.score >= 90 ? 'green' : candidate.score >= 60 ? 'gold' : 'red'}>
+                  得分 {candidate.score}
+                </Tag>
+                {candidate.validation.passed ? (
+                  <Tag color="green">规则全部通过</Tag>
+                ) : (
+                  <Tag color="orange">{countViolations(candidate.validation)}项规则未满足</Tag>
+                )}
+                {(candidate.repeatCheck?.repeats.length ?? 0) > 0 && (
+                  <Tag color="orange">近期重复{candidate.repeatCheck!.repeats.length}道</Tag>
+                )}
+              </Space>
+              <Button size="small" icon={<CheckOutlined />} loading={saving} onClick={() => selectWhole(candidate.index)}>
+                选用此方案
+              </Button>
+            </>
+          ) : (
+            <Tooltip title={candidate.error}>
+              <Tag color="red">生成失败</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      ),
+      key: `candidate-${candidate.index}`,
+      render: (_: unknown, day: keyof WeekMenu) => {
+        if (!candidate.weekMenu) return null
+
+        const selected = selection[day] === candidate.index
+        const dishes = candidate.weekMenu[day] ?? []
+        return (
+          <div
+            className={`cursor-pointer rounded p-1 ${selected ? 'bg-blue-50' : ''}`}
+            onClick={() => setSelection(prev => ({ ...prev, [day]: candidate.index }))}
+          >
+            <Radio checked={selected} className="mb-1">
+              选用这天
+            </Radio>
+            {(meals.length > 0 ? meals : [null]).map(meal => (
+              <div key={meal ?? 'all'}>
+                {meal && <Text strong className="text-xs block">{meal}</Text>}
+                {DISH_TYPES.map(type => {
+                  const typed = dishes.filter(dish => dish.type === type && (meal === null || dish.meal === meal))
+                  if (typed.length === 0) return null
+                  return (
+                    <div key={type} className="mb-1">
+                      <Text type="secondary" className="text-xs">{DISH_TYPE_LABELS[type]}</Text>
+                      {typed.map((dish, index) => <DishCell key={index} dish={dish} />)}
+                    </div>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        )
+      },
+    })),
+  ]
+
+  return (
+    <>
+      <Table
+        columns={columns}
+        dataSource={days}
+        rowKey={day => day}
+        pagination={false}
+        bordered
+        size="small"
+        scroll={{ x: true }}
+      />
+      <Space className="mt-4">
+        <Button type="primary" icon={<SaveOutlined />} loading={saving} onClick={() => save(selection)}>
+          {selectedIndexes.length === 1 ? `保存方案${selectedIndexes[0] + 1}` : '保存组合菜单'}
+        </Button>
+        <Text type="secondary">
+          {days.map(day => `${DAY_LABELS[day]}用方案${selection[day]! + 1}`).join('、')}
+        </Text>
+      </Space>
+    </>
+  )
+}
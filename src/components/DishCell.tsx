@@ -0,0 +1,48 @@
+'use client'
+
+import { Button, Tag, Tooltip } from 'antd'
+import { LockFilled, UnlockOutlined } from '@ant-design/icons'
+import type { DishItem } from '@/types'
+
+interface DishCellProps {
+  dish: DishItem | null
+  /** 是否已锁定，仅在提供onToggleLock时显示 */
+  locked?: boolean
+  /** 切换锁定状态，不提供时不显示锁定按钮 */
+  onToggleLock?: () => void
+}
+
+/**
+ * 菜单表格中的单个菜品
+ *
+ * 历史菜以橙色背景和"历史"标签突出显示，
+ * 主页菜单表格和历史记录表格共用。
+ * 主页表格中可以锁定菜品，重新生成时保留锁定的菜。
+ */
+export default function DishCell({ dish, locked = false, onToggleLock }: DishCellProps) {
+  if (!dish) {
+    return null
+  }
+
+  return (
+    <div className={`text-sm ${dish.isHistorical ? 'bg-orange-50 rounded px-1' : ''} ${locked ? 'font-medium' : ''}`}>
+      {onToggleLock && (
+        <Tooltip title={locked ? '已锁定，重新生成时保留' : '锁定后重新生成时保留'}>
+          <Button
+            type="text"
+            size="small"
+            className="mr-1"
+            icon={locked ? <LockFilled className="text-blue-600" /> : <UnlockOutlined className="text-gray-400" />}
+            onClick={onToggleLock}
+          />
+        </Tooltip>
+      )}
+      {dish.name}
+      {dish.isHistorical && (
+        <Tag color="orange" className="ml-1" style={{ marginInlineEnd: 0 }}>
+          历史
+        </Tag>
+      )}
+    </div>
+  )
+}
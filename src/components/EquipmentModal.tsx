@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { Modal, Form, InputNumber, Button, Space, Typography, message } from 'antd'
+import type { EquipmentItem } from '@/types'
+import { EQUIPMENT_DEFINITIONS, MAX_EQUIPMENT_CAPACITY, MAX_EQUIPMENT_QUANTITY } from '@/lib/equipment'
+
+const { Text } = Typography
+
+interface EquipmentModalProps {
+  open: boolean
+  /** 当前的设备登记，未登记为null */
+  equipment: EquipmentItem[] | null
+  onSaved: (equipment: EquipmentItem[] | null) => void
+  onClose: () => void
+}
+
+/**
+ * 烹饪设备登记弹窗
+ *
+ * 逐种设备填写台数和每台每餐可以出的菜品道数，台数填0表示没有这种设备。
+ * 未登记时按常见的食堂厨房预填。清除登记后恢复使用生成时勾选的设备紧缺情况。
+ * 保存时提交到 PUT /api/canteen/equipment。
+ */
+export default function EquipmentModal({ open, equipment, onSaved, onClose }: EquipmentModalProps) {
+  const [form] = Form.useForm<{ items: EquipmentItem[] }>()
+  const [saving, setSaving] = useState(false)
+
+  // 每种设备一行，没有登记的设备按0台显示
+  const initialItems: EquipmentItem[] = EQUIPMENT_DEFINITIONS.map(definition => {
+    if (!equipment) {
+      return { kind: definition.kind, quantity: definition.defaultQuantity, capacity: definition.defaultCapacity }
+    }
+    return equipment.find(item => item.kind === definition.kind)
+      || { kind: definition.kind, quantity: 0, capacity: definition.defaultCapacity }
+  })
+
+  const save = async (items: EquipmentItem[] | null) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/canteen/equipment', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ equipment: items }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success(items ? '设备登记已保存' : '设备登记已清除')
+        onSaved(data.data.equipment)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save equipment failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const values = await form.validateFields()
+    // 表单只填写数量，设备类型按行的顺序补上
+    await save(values.items.map((item, index) => ({ ...item, kind: EQUIPMENT_DEFINITIONS[index].kind })))
+  }
+
+  return (
+    <Modal
+      title="设备设置"
+      open={open}
+      onCancel={onClose}
+      width={640}
+      destroyOnClose
+      footer={[
+        equipment && (
+          <Button key="clear" danger disabled={saving} onClick={() => save(null)}>
+            清除登记
+          </Button>
+        ),
+        <Button key="cancel" onClick={onClose}>
+          取消
+        </Button>,
+        <Button key="save" type="primary" loading={saving} onClick={handleSave}>
+          保存
+        </Button>,
+      ]}
+    >
+      <Text type="secondary" className="block mb-4">
+        登记厨房的烹饪设备，生成时每餐各种做法的热菜不超过“台数×每台每餐出菜道数”，台数填0表示没有这种设备。
+        清除登记后恢复为生成时勾选设备紧缺情况。已生成的菜单不受影响。
+      </Text>
+      <Form form={form} layout="vertical" initialValues={{ items: initialItems }} preserve={false}>
+        <Form.List name="items">
+          {fields => fields.map(({ key, name }) => {
+            const definition = EQUIPMENT_DEFINITIONS[name]
+            return (
+              <Space key={key} align="center" className="mb-3 w-full">
+                <Text strong className="inline-block w-12">{definition.label}</Text>
+                <Form.Item name={[name, 'quantity']} rules={[{ required: true, message: '必填' }]} className="mb-0">
+                  <InputNumber min={0} max={MAX_EQUIPMENT_QUANTITY} addonAfter="台" className="w-28" />
+                </Form.Item>
+                <Form.Item name={[name, 'capacity']} rules={[{ required: true, message: '必填' }]} className="mb-0">
+                  <InputNumber min={1} max={MAX_EQUIPMENT_CAPACITY} addonBefore="每台每餐" addonAfter="道" className="w-44" />
+                </Form.Item>
+                <Text type="secondary">{definition.method}</Text>
+              </Space>
+            )
+          })}
+        </Form.List>
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { Modal, Form, Input, InputNumber, Button, Space, Typography, message } from 'antd'
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons'
+import type { MealSlot } from '@/types'
+import { MAX_MEAL_SLOTS } from '@/lib/meal-slots'
+
+const { Text } = Typography
+
+interface MealSlotsModalProps {
+  open: boolean
+  /** 当前的餐次配置，单餐模式为null */
+  mealSlots: MealSlot[] | null
+  /** 单餐模式下的热菜、凉菜数量，用于预填第一个餐次 */
+  hotDishCount: number
+  coldDishCount: number
+  onSaved: (mealSlots: MealSlot[] | null) => void
+  onClose: () => void
+}
+
+type MealSlotFormValue = Omit<MealSlot, 'hotDishCount'>
+
+/**
+ * 餐次设置弹窗
+ *
+ * 按一天中的先后顺序配置餐次名称和每个餐次的主荤、半荤、素菜、凉菜数量，
+ * 热菜数量由三类热菜相加得出。删除全部餐次后保存即恢复只生成午餐的单餐模式。
+ * 保存时提交到 PUT /api/canteen/meal-slots。
+ */
+export default function MealSlotsModal({
+  open, mealSlots, hotDishCount, coldDishCount, onSaved, onClose
+}: MealSlotsModalProps) {
+  const [form] = Form.useForm<{ slots: MealSlotFormValue[] }>()
+  const [saving, setSaving] = useState(false)
+
+  // 未配置餐次时按原来的午餐数量预填
+  const avgCount = Math.ceil(hotDishCount / 3)
+  const initialSlots: MealSlotFormValue[] = mealSlots || [{
+    name: '午餐',
+    mainMeatCount: avgCount,
+    halfMeatCount: avgCount,
+    vegetarianCount: Math.max(hotDishCount - avgCount * 2, 0),
+    coldDishCount,
+  }]
+
+  const handleSave = async () => {
+    const values = await form.validateFields()
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/canteen/meal-slots', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ mealSlots: values.slots || [] }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success('餐次设置已保存')
+        onSaved(data.data.mealSlots)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save meal slots failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const countField = (name: number, field: keyof MealSlotFormValue, label: string) => (
+    <Form.Item
+      name={[name, field]}
+      label={label}
+      rules={[{ required: true, message: '必填' }]}
+      className="mb-0"
+    >
+      <InputNumber min={0} max={20} className="w-20" />
+    </Form.Item>
+  )
+
+  return (
+    <Modal
+      title="餐次设置"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      confirmLoading={saving}
+      okText="保存"
+      cancelText="取消"
+      width={720}
+      destroyOnClose
+    >
+      <Text type="secondary" className="block mb-4">
+        按一天中的先后顺序设置餐次和每餐的菜品数量，同一天各餐次的菜品不会重复。
+        删除全部餐次后保存，恢复为只生成午餐。已生成的菜单不受影响。
+      </Text>
+      <Form form={form} layout="vertical" initialValues={{ slots: initialSlots }} preserve={false}>
+        <Form.List name="slots">
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map(({ key, name }) => (
+                <Space key={key} align="end" wrap className="mb-4">
+                  <Form.Item
+                    name={[name, 'name']}
+                    label="餐次"
+                    rules={[{ required: true, whitespace: true, message: '请输入餐次名称' }]}
+                    className="mb-0"
+                  >
+                    <Input maxLength={10} placeholder="如：早餐" className="w-24" />
+                  </Form.Item>
+                  {countField(name, 'mainMeatCount', '主荤')}
+                  {countField(name, 'halfMeatCount', '半荤')}
+                  {countField(name, 'vegetarianCount', '素菜')}
+                  {countField(name, 'coldDishCount', '凉菜')}
+                  <Button type="text" danger icon={<DeleteOutlined />} onClick={() => remove(name)} />
+                </Space>
+              ))}
+              <Button
+                type="dashed"
+                block
+                icon={<PlusOutlined />}
+                disabled={fields.length >= MAX_MEAL_SLOTS}
+                onClick={() => add({ name: '', mainMeatCount: 1, halfMeatCount: 1, vegetarianCount: 1, coldDishCount: 1 })}
+              >
+                添加餐次（最多{MAX_MEAL_SLOTS}个）
+              </Button>
+            </>
+          )}
+        </Form.List>
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import { Button, Input, Select, Space, Table, message } from 'antd'
+import { DeleteOutlined, HolderOutlined, PlusOutlined, SaveOutlined } from '@ant-design/icons'
+import type { DishItem, DishType, MenuSlot, MenuValidationReport, HistoricalCheckResult, SeasonalCheckResult, WeekMenu } from '@/types'
+import { DAY_LABELS, DISH_TYPES, DISH_TYPE_LABELS, buildWeekMenuRows, getMenuDays, getWeekMenuMeals } from '@/lib/menu-format'
+import type { WeekMenuRow } from '@/lib/menu-format'
+
+export interface MenuSaveResult {
+  menu: WeekMenu
+  revision: number
+  summary: string
+  validation: MenuValidationReport
+  historicalCheck: HistoricalCheckResult
+  seasonalCheck: SeasonalCheckResult | null
+}
+
+interface MenuEditorProps {
+  menuId: string
+  /** 正在编辑的菜单版本号，保存时服务端据此确认菜单没有被别人修改 */
+  revision: number
+  weekMenu: WeekMenu
+  onSaved: (result: MenuSaveResult) => void
+  onCancel: () => void
+}
+
+/** 编辑表格的行，每个餐次的每个分类末尾多一行空位用于新增或拖入菜品 */
+interface EditorRow extends WeekMenuRow {
+  spare?: boolean
+}
+
+/**
+ * 菜单编辑表格
+ *
+ * 与只读表格使用相同的按餐次、分类分组布局，支持：
+ * 1. 直接修改菜名和分类
+ * 2. 拖动菜品到其他天、其他餐次或其他分类的格子，菜品移到该天并改为该行的餐次和分类
+ * 3. 在每个分类末尾的空行新增菜品，删除菜品
+ *
+ * 保存时提交到 PUT /api/menus/{id}，服务端重新核实历史菜标注并记录为新版本；
+ * 菜单在编辑期间已被修改时服务端拒绝保存，提示刷新后重新编辑。
+ * 主页和历史记录页共用。
+ */
+export default function MenuEditor({ menuId, revision, weekMenu, onSaved, onCancel }: MenuEditorProps) {
+  const [draft, setDraft] = useState<WeekMenu>(() => structuredClone(weekMenu))
+  const [dragging, setDragging] = useState<MenuSlot | null>(null)
+  const [saving, setSaving] = useState(false)
+  // 餐次取自编辑前的菜单，某个餐次的菜全部删除后仍保留该餐次的空行
+  const [meals] = useState(() => getWeekMenuMeals(weekMenu))
+  // 编辑不增减供餐日，按编辑前菜单中的日子显示
+  const days = getMenuDays(weekMenu)
+
+  const updateDay = (day: keyof WeekMenu, update: (dishes: DishItem[]) => DishItem[]) => {
+    setDraft(prev => ({ ...prev, [day]: update([...prev[day]!]) }))
+  }
+
+  const updateDish = (slot: MenuSlot, changes: Partial<DishItem>) => {
+    updateDay(slot.day, dishes => {
+      dishes[slot.index] = { ...dishes[slot.index], ...changes }
+      return dishes
+    })
+  }
+
+  /**
+   * 移动菜品
+   *
+   * @param from 被拖动菜品的位置
+   * @param toDay 目标天
+   * @param row 目标行，菜品改为该行的分类和餐次
+   * @param toIndex 插入到目标天的该序号之前，不提供时放到末尾
+   */
+  const moveDish = (from: MenuSlot, toDay: keyof WeekMenu, row: EditorRow, toIndex?: number) => {
+    setDraft(prev => {
+      const next = { ...prev, [from.day]: [...prev[from.day]!] }
+      const [dish] = next[from.day]!.splice(from.index, 1)
+      const target = from.day === toDay ? next[from.day]! : [...next[toDay]!]
+
+      // 同一天内向后移动时，移除原位置后目标序号前移一位
+      let index = toIndex ?? target.length
+      if (from.day === toDay && toIndex !== undefined && from.index < toIndex) {
+        index--
+      }
+      target.splice(index, 0, row.meal ? { ...dish, type: row.type, meal: row.meal } : { ...dish, type: row.type })
+      next[toDay] = target
+      return next
+    })
+  }
+
+  const handleDrop = (day: keyof WeekMenu, row: EditorRow, index?: number) => {
+    if (dragging) {
+      moveDish(dragging, day, row, index)
+      setDragging(null)
+    }
+  }
+
+  const handleSave = async () => {
+    const blank = days.some(day => draft[day]!.some(dish => !dish.name.trim()))
+    if (blank) {
+      message.warning('请填写所有菜品的名称，或删除空白菜品')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/menus/${menuId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ weekMenu: draft, revision }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success(`菜单已保存（第${data.revision}版）`)
+        onSaved(data)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save menu failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // 在每个餐次每个分类的最后一行之后插入一行空位
+  const rows: EditorRow[] = []
+  const baseRows = buildWeekMenuRows(draft)
+  for (const meal of meals.length > 0 ? meals : [null]) {
+    for (const type of DISH_TYPES) {
+      const typeRows = baseRows.filter(row => row.meal === meal && row.type === type)
+      rows.push(...typeRows, {
+        key: meal === null ? `${type}-spare` : `${meal}-${type}-spare`,
+        meal,
+        isFirstOfMeal: false,
+        type,
+        isFirstOfType: typeRows.length === 0,
+        dishes: { monday: null, tuesday: null, wednesday: null, thursday: null, friday: null },
+        spare: true,
+      })
+    }
+  }
+  // 插入空行后重新标记每个餐次的第一行
+  rows.forEach((row, index) => {
+    row.isFirstOfMeal = index === 0 || rows[index - 1].meal !== row.meal
+  })
+
+  const columns = [
+    ...(meals.length > 0 ? [{
+      title: '餐次',
+      key: 'meal',
+      width: 70,
+      render: (_: unknown, row: EditorRow) => row.isFirstOfMeal ? row.meal : '',
+    }] : []),
+    {
+      title: '类型',
+      key: 'type',
+      width: 80,
+      render: (_: unknown, row: EditorRow) => row.isFirstOfType ? DISH_TYPE_LABELS[row.type] : '',
+    },
+    ...days.map(day => ({
+      title: DAY_LABELS[day],
+      key: day,
+      onCell: (row: EditorRow) => {
+        const dish = row.dishes[day]
+        const index = dish ? draft[day]!.indexOf(dish) : undefined
+        return {
+          onDragOver: (event: React.DragEvent) => event.preventDefault(),
+          onDrop: () => handleDrop(day, row, index),
+        }
+      },
+      render: (_: unknown, row: EditorRow) => {
+        const dish = row.dishes[day]
+        if (!dish) {
+          return row.spare ? (
+            <Button
+              type="dashed"
+              size="small"
+              block
+              icon={<PlusOutlined />}
+              onClick={() => updateDay(day, dishes => [
+                ...dishes,
+                row.meal
+                  ? { name: '', type: row.type, isHistorical: false, meal: row.meal }
+                  : { name: '', type: row.type, isHistorical: false },
+              ])}
+            >
+              添加
+            </Button>
+          ) : null
+        }
+
+        const slot = { day, index: draft[day]!.indexOf(dish) }
+        return (
+          <div
+            draggable
+            onDragStart={() => setDragging(slot)}
+            onDragEnd={() => setDragging(null)}
+            className={`flex items-center gap-1 ${dish.isHistorical ? 'bg-orange-50 rounded' : ''}`}
+          >
+            <HolderOutlined className="cursor-move text-gray-400" />
+            <Space.Compact size="small" className="flex-1">
+              <Input
+                value={dish.name}
+                placeholder="菜名"
+                onChange={event => updateDish(slot, { name: event.target.value })}
+              />
+              <Select
+                value={dish.type}
+                style={{ width: 72 }}
+                onChange={(type: DishType) => updateDish(slot, { type })}
+                options={DISH_TYPES.map(type => ({ value: type, label: DISH_TYPE_LABELS[type] }))}
+              />
+            </Space.Compact>
+            <Button
+              type="text"
+              size="small"
+              danger
+              icon={<DeleteOutlined />}
+              onClick={() => updateDay(day, dishes => dishes.filter((_, index) => index !== slot.index))}
+            />
+          </div>
+        )
+      },
+    })),
+  ]
+
+  return (
+    <div>
+      <Table
+        columns={columns}
+        dataSource={rows}
+        pagination={false}
+        bordered
+        size="small"
+        className="mb-4"
+      />
+      <Space>
+        <Button type="primary" icon={<SaveOutlined />} loading={saving} onClick={handleSave}>
+          保存修改
+        </Button>
+        <Button onClick={onCancel} disabled={saving}>
+          取消
+        </Button>
+      </Space>
+    </div>
+  )
+}
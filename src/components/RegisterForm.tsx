@@ -20,6 +20,7 @@ interface RegisterFormData {
   hotDishCount: number
   coldDishCount: number
   mealType: string
+  repeatAvoidanceWeeks: number
 }
 
 export default function RegisterForm({ onBack }: RegisterFormProps) {
@@ -184,7 +185,8 @@ export default function RegisterForm({ onBack }: RegisterFormProps) {
           initialValues={{
             hotDishCount: 8,
             coldDishCount: 3,
-            mealType: '定价餐'
+            mealType: '定价餐',
+            repeatAvoidanceWeeks: 2
           }}
         >
           <Form.Item
@@ -263,6 +265,15 @@ export default function RegisterForm({ onBack }: RegisterFormProps) {
             </Radio.Group>
           </Form.Item>
 
+          <Form.Item
+            name="repeatAvoidanceWeeks"
+            label="近期菜品不重复周数"
+            help="最近几周生成过的菜品不会再次作为原创菜出现，填0表示不限制"
+            rules={[{ type: 'number', min: 0, max: 8, message: '周数应在0-8之间' }]}
+          >
+            <InputNumber min={0} max={8} className="w-full" />
+          </Form.Item>
+
           <Form.Item
             label="历史菜单"
             help="请上传4个Excel文件，系统将自动解析菜品信息"
@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { Modal, Checkbox, Typography, message } from 'antd'
+import type { WeekDay } from '@/types'
+import { DAY_LABELS, WEEK_DAYS } from '@/lib/menu-format'
+
+const { Text } = Typography
+
+interface ServiceDaysModalProps {
+  open: boolean
+  /** 当前的供餐日 */
+  serviceDays: WeekDay[]
+  onSaved: (serviceDays: WeekDay[]) => void
+  onClose: () => void
+}
+
+/**
+ * 供餐日设置弹窗
+ *
+ * 勾选食堂每周供餐的日子，之后生成的菜单只包含这些日子。
+ * 保存时提交到 PUT /api/canteen/service-days。
+ */
+export default function ServiceDaysModal({ open, serviceDays, onSaved, onClose }: ServiceDaysModalProps) {
+  const [selected, setSelected] = useState<WeekDay[]>(serviceDays)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    if (selected.length === 0) {
+      message.error('请至少选择一个供餐日')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/canteen/service-days', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serviceDays: selected }),
+      })
+
+      const data = await response.json()
+      if (data.success) {
+        message.success('供餐日设置已保存')
+        onSaved(data.data.serviceDays)
+      } else {
+        message.error(data.error || '保存失败')
+      }
+    } catch (error) {
+      console.error('Save service days failed:', error)
+      message.error('网络错误，请稍后重试')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      title="供餐日设置"
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      confirmLoading={saving}
+      okText="保存"
+      cancelText="取消"
+      afterOpenChange={visible => visible && setSelected(serviceDays)}
+      destroyOnClose
+    >
+      <Text type="secondary" className="block mb-4">
+        选择食堂每周供餐的日子，之后生成的菜单只包含这些日子。已生成的菜单不受影响。
+      </Text>
+      <Checkbox.Group
+        value={selected}
+        onChange={values => setSelected(values as WeekDay[])}
+        options={WEEK_DAYS.map(day => ({ value: day, label: DAY_LABELS[day] }))}
+      />
+    </Modal>
+  )
+}
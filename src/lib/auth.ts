@@ -5,6 +5,7 @@
  * 1. 密码加密和验证（使用bcrypt确保安全性）
  * 2. 食堂账号创建和验证
  * 3. 用户登录认证
+ * 4. 管理员身份验证
  * 
  * 安全特性：
  * - 使用bcrypt进行密码哈希，成本因子为12
@@ -14,6 +15,8 @@
  */
 
 import bcrypt from 'bcryptjs'
+import { cookies } from 'next/headers'
+import jwt from 'jsonwebtoken'
 import { prisma } from './db'
 
 /**
@@ -65,6 +68,7 @@ export async function verifyPassword(password: string, hashedPassword: string):
  * @param data.coldDishCount 凉菜数量配置
  * @param data.mealType 餐制类型（定价餐/自助餐）
  * @param data.historicalMenus 历史菜单数据（Excel解析后的结果）
+ * @param data.repeatAvoidanceWeeks 近N周生成过的菜品不再重复使用
  * @returns Promise<Canteen> 创建的食堂记录
  * 
  * 数据验证：
@@ -81,6 +85,7 @@ export async function createCanteen(data: {
   coldDishCount: number
   mealType: string
   historicalMenus: string[][]
+  repeatAvoidanceWeeks: number
 }) {
   // 先加密密码，确保不会明文存储
   const hashedPassword = await hashPassword(data.password)
@@ -138,3 +143,29 @@ export async function authenticateCanteen(canteenName: string, password: string)
   const { password: _, ...canteenData } = canteen
   return canteenData
 }
+
+/**
+ * 验证管理员身份
+ *
+ * 读取管理员登录时设置的 admin-token Cookie，校验其中的管理员角色。
+ * Token缺失、无效或过期都视为未登录，由调用方返回401。
+ *
+ * @returns 当前请求是否已以管理员身份登录
+ */
+export async function isAdminRequest(): Promise<boolean> {
+  const cookieStore = await cookies()
+  const token = cookieStore.get('admin-token')?.value
+  if (!token) {
+    return false
+  }
+
+  try {
+    const decoded = jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret') as { role?: string }
+    return decoded.role === 'admin'
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      return false
+    }
+    throw error
+  }
+}
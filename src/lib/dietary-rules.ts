@@ -0,0 +1,353 @@
+/**
+ * 饮食要求模块
+ *
+ * 清真、全素日、低盐低油等治疗膳食和过敏原排除都是生成参数中的饮食要求：
+ * 1. buildPrompt按饮食要求向AI说明不能使用的食材
+ * 2. 生成后按菜名检查每道菜可能含有的禁用食材，作为一条校验规则，未通过时要求AI修正
+ *
+ * 菜名中的食材按 docs/databases.json 中的原材料分类识别，并补充分类中没有、
+ * 但菜名中常见的叫法（如"排骨"、"宫保"）。菜名不能完全反映配料，
+ * 检查结果只是提示，厨师长仍需按实际配方把关。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import ingredientDatabase from '../../docs/databases.json'
+import { DAY_LABELS } from './menu-format'
+import { getServiceDays } from './service-days'
+import type { Allergen, GenerationParams, TherapeuticDiet, WeekDay } from '@/types'
+
+interface IngredientRule {
+  /** 禁用食材的统称，用于违规说明 */
+  label: string
+  /** databases.json 中的原材料分类，分类下的食材都禁用 */
+  categories: string[]
+  /** 分类中没有、但菜名中常见的叫法 */
+  keywords: string[]
+  /** 含有上述叫法但并不是禁用食材的词（如"素鸡"、"鸡蛋"），匹配前先从菜名中去掉 */
+  exceptions: string[]
+  /** 无法逐个列举的例外写法，如"鸡腿肉"、"牛腱肉"，同样在匹配前去掉 */
+  exceptionPattern?: RegExp
+}
+
+/** 匹配用的规则：分类食材和补充叫法合并，按长度倒序以便报告最具体的叫法 */
+interface CompiledRule {
+  label: string
+  terms: string[]
+  exceptions: string[]
+  exceptionPattern?: RegExp
+}
+
+/** 一道菜违反的饮食要求 */
+export interface DietaryMatch {
+  /** 违反的要求，如"清真"、"过敏原排除" */
+  requirement: string
+  /** 禁用食材的统称 */
+  label: string
+  /** 菜名中匹配到的叫法 */
+  term: string
+}
+
+const ingredients = ingredientDatabase['原材料'] as {
+  高频主料: Record<string, Record<string, number>>
+  低频主料: Record<string, string[]>
+}
+
+/**
+ * 获取原材料分类下的全部食材
+ *
+ * 高频主料中"鸡翅根/鸡翅中/鸡全翅"这类合并写法拆开。
+ */
+function getCategoryIngredients(category: string): string[] {
+  const frequent = Object.keys(ingredients['高频主料'][category] ?? {})
+  const rare = ingredients['低频主料'][category] ?? []
+  return [...frequent, ...rare].flatMap(name => name.split('/'))
+}
+
+function compileRule(rule: IngredientRule): CompiledRule {
+  const terms = [...new Set([...rule.categories.flatMap(getCategoryIngredients), ...rule.keywords])]
+  return {
+    label: rule.label,
+    terms: terms.sort((a, b) => b.length - a.length),
+    exceptions: rule.exceptions,
+    exceptionPattern: rule.exceptionPattern,
+  }
+}
+
+/** 各种肉的叫法中不是猪肉的，清真检查时先去掉，避免"牛肉丝"被识别为"肉丝" */
+const NON_PORK_MEATS = ['牛肉', '羊肉', '鸡肉', '鸭肉', '鹅肉', '鱼肉', '虾肉', '蟹肉', '驴肉', '兔肉', '牛里脊', '鸡里脊', '牛排骨', '羊排骨']
+
+/**
+ * 注明了非猪肉动物的肉或部位，如"鸡腿肉"、"鸡胸肉"、"牛腱肉"、"羊里脊"
+ *
+ * 动物和"肉"之间只允许部位名称，避免"鸡蛋炒肉"这类菜名中的"肉"被当作鸡肉去掉。
+ */
+const NON_PORK_CUT_PATTERN = /(鸡|鸭|鹅|牛|羊|鱼|虾|蟹|兔|驴)(?:(?:腿|胸|腱|腩|脯|颈|背|排|柳|里脊)肉?|肉)/g
+
+/** 清真：不使用猪肉及猪源食材。没有注明肉的种类的"肉"在团餐中通常是猪肉 */
+const HALAL_RULE = compileRule({
+  label: '猪肉',
+  categories: ['猪肉类'],
+  keywords: [
+    '猪', '肉', '五花', '排骨', '里脊', '肘子', '肥肠', '培根', '火腿', '腊肉', '腊肠', '香肠', '叉烧',
+    '午餐肉', '狮子头', '扣肉', '荤油',
+  ],
+  exceptions: [...NON_PORK_MEATS, '素肉', '果肉', '肉桂'],
+  exceptionPattern: NON_PORK_CUT_PATTERN,
+})
+
+/** 全素日：不使用肉禽鱼虾，蛋奶和素鸡、素肉等仿荤豆制品可以使用 */
+const MEATLESS_RULE = compileRule({
+  label: '肉禽鱼虾',
+  categories: ['猪肉类', '牛肉类', '羊肉类', '鸡肉类', '鸭肉类', '内脏类', '骨类', '鱼类', '虾蟹类'],
+  keywords: [
+    '肉', '猪', '牛', '羊', '鸡', '鸭', '鹅', '鱼', '虾', '蟹', '排骨', '里脊', '肠', '肝', '腰花',
+    '火腿', '培根', '海鲜', '鱿鱼', '蛤', '贝', '骨',
+  ],
+  exceptions: [
+    '素鸡', '素鸭', '素肉', '素火腿', '鸡蛋', '鸭蛋', '鹌鹑蛋', '鸡毛菜', '鸡腿菇', '牛肝菌', '牛奶',
+    '羊肚菌', '牛蒡', '鸡枞', '蟹味菇', '鱼香', '鱼腥草', '贝贝南瓜', '肠粉', '果肉', '肉桂',
+    '牛油果', '素烧鹅', '素鹅',
+  ],
+})
+
+interface DietaryOption<Key extends string> {
+  key: Key
+  /** 页面和违规说明中的名称 */
+  label: string
+  /** 写入Prompt的要求 */
+  instruction: string
+  rule: CompiledRule
+}
+
+/** 治疗膳食要求 */
+export const THERAPEUTIC_DIETS: DietaryOption<TherapeuticDiet>[] = [
+  {
+    key: 'lowSodium',
+    label: '低盐',
+    instruction: '低盐膳食：少用酱油、豆瓣酱、腐乳等高盐调料，不安排腌腊、卤味、咸菜、酱菜等高盐菜品',
+    rule: compileRule({
+      label: '高盐食材或做法',
+      categories: [],
+      keywords: ['腊', '咸', '腌', '卤', '酱', '豉', '榨菜', '泡菜', '梅干菜', '梅菜', '腐乳', '火腿', '培根', '香肠'],
+      exceptions: [],
+    }),
+  },
+  {
+    key: 'lowFat',
+    label: '低油',
+    instruction: '低油膳食：以蒸、煮、炖、白灼、凉拌为主，不安排油炸、干煸、油淋等用油多的菜品，不使用五花肉、肥肠、猪蹄等高脂食材',
+    rule: compileRule({
+      label: '高油做法或高脂食材',
+      categories: [],
+      keywords: ['炸', '酥', '干煸', '油淋', '油泼', '过油', '拔丝', '五花', '肥肠', '猪蹄', '扣肉', '红烧肉', '东坡肉', '猪油', '黄油', '奶油'],
+      exceptions: [],
+    }),
+  },
+]
+
+/** 可以排除的过敏原 */
+export const ALLERGENS: DietaryOption<Allergen>[] = [
+  {
+    key: 'peanut',
+    label: '花生',
+    instruction: '花生（包括宫保类菜品中的花生米、花生酱）',
+    rule: compileRule({ label: '花生', categories: [], keywords: ['花生', '宫保', '果仁'], exceptions: [] }),
+  },
+  {
+    key: 'treeNut',
+    label: '坚果',
+    instruction: '核桃、腰果、杏仁、松子等坚果',
+    rule: compileRule({
+      label: '坚果',
+      categories: [],
+      keywords: ['核桃', '腰果', '杏仁', '松子', '松仁', '榛子', '开心果', '夏威夷果', '碧根果', '果仁'],
+      exceptions: [],
+    }),
+  },
+  {
+    key: 'shellfish',
+    label: '虾蟹贝类',
+    instruction: '虾、蟹、贝类等海鲜（包括虾皮、蚝油等配料）',
+    rule: compileRule({
+      label: '虾蟹贝类',
+      categories: ['虾蟹类'],
+      keywords: ['虾', '蟹', '贝', '蛤', '蛏', '蚝', '牡蛎', '蚬', '螺', '鱿鱼', '海鲜', '花蛤'],
+      exceptions: ['蟹味菇', '贝贝南瓜', '螺丝椒'],
+    }),
+  },
+  {
+    key: 'fish',
+    label: '鱼类',
+    instruction: '各种鱼类（包括鱼丸、鱼豆腐等鱼糜制品）',
+    rule: compileRule({ label: '鱼类', categories: ['鱼类'], keywords: ['鱼'], exceptions: ['鱼香', '鱼腥草'] }),
+  },
+  {
+    key: 'egg',
+    label: '蛋类',
+    instruction: '鸡蛋、鸭蛋、鹌鹑蛋等蛋类（包括蛋液挂糊）',
+    rule: compileRule({ label: '蛋类', categories: ['蛋类'], keywords: ['蛋'], exceptions: [] }),
+  },
+  {
+    key: 'milk',
+    label: '奶类',
+    instruction: '牛奶、奶酪、黄油、奶油等奶制品',
+    rule: compileRule({
+      label: '奶类',
+      categories: [],
+      keywords: ['奶', '芝士', '奶酪', '黄油', '乳'],
+      exceptions: ['腐乳', '乳鸽', '乳瓜'],
+    }),
+  },
+  {
+    key: 'soy',
+    label: '大豆',
+    instruction: '大豆及豆腐、豆皮、腐竹、素鸡等豆制品',
+    rule: compileRule({
+      label: '大豆及豆制品',
+      categories: ['豆制品类'],
+      keywords: ['黄豆', '毛豆', '豆浆', '千张', '腐乳'],
+      // 粉丝、粉皮在原材料分类中归入豆制品，但是用绿豆或薯类淀粉做的
+      exceptions: ['粉丝', '粉皮'],
+    }),
+  },
+  {
+    key: 'sesame',
+    label: '芝麻',
+    instruction: '芝麻、芝麻酱、香油',
+    rule: compileRule({ label: '芝麻', categories: [], keywords: ['芝麻', '麻酱', '香油'], exceptions: [] }),
+  },
+]
+
+/**
+ * 在菜名中查找规则禁用的食材
+ *
+ * @returns 匹配到的叫法，没有时返回null
+ */
+function matchRule(name: string, rule: CompiledRule): string | null {
+  // 去掉例外词时用空格占位，避免前后文字拼接出新的匹配
+  const text = rule.exceptions.reduce(
+    (result, exception) => result.split(exception).join(' '),
+    rule.exceptionPattern ? name.replace(rule.exceptionPattern, ' ') : name
+  )
+  return rule.terms.find(term => text.includes(term)) ?? null
+}
+
+/**
+ * 判断生成参数中是否有饮食要求
+ */
+export function hasDietaryRequirements(params: GenerationParams): boolean {
+  return !!params.halal ||
+    getMeatlessDays(params).length > 0 ||
+    (params.therapeuticDiets?.length ?? 0) > 0 ||
+    (params.excludedAllergens?.length ?? 0) > 0
+}
+
+/**
+ * 获取本次生成的全素日，不在供餐日中的日子忽略
+ */
+export function getMeatlessDays(params: GenerationParams): WeekDay[] {
+  const meatlessDays = params.meatlessDays || []
+  return getServiceDays(params).filter(day => meatlessDays.includes(day))
+}
+
+/**
+ * 检查一道菜是否违反饮食要求
+ *
+ * 清真、治疗膳食和过敏原对每天都有效；全素日只在指定了day且这天是全素日时检查。
+ *
+ * @param name 菜名
+ * @param params 生成参数
+ * @param day 菜品所在的日子，不提供时只检查对每天都有效的要求
+ * @returns 违反的要求，没有时为空数组
+ */
+export function findDietaryMatches(name: string, params: GenerationParams, day?: WeekDay): DietaryMatch[] {
+  const checks: Array<{ requirement: string; rule: CompiledRule }> = []
+  if (params.halal) {
+    checks.push({ requirement: '清真', rule: HALAL_RULE })
+  }
+  if (day && getMeatlessDays(params).includes(day)) {
+    checks.push({ requirement: '全素日', rule: MEATLESS_RULE })
+  }
+  for (const diet of THERAPEUTIC_DIETS) {
+    if (params.therapeuticDiets?.includes(diet.key)) {
+      checks.push({ requirement: diet.label, rule: diet.rule })
+    }
+  }
+  for (const allergen of ALLERGENS) {
+    if (params.excludedAllergens?.includes(allergen.key)) {
+      checks.push({ requirement: '过敏原排除', rule: allergen.rule })
+    }
+  }
+
+  const matches: DietaryMatch[] = []
+  for (const { requirement, rule } of checks) {
+    const term = matchRule(name, rule)
+    if (term) {
+      matches.push({ requirement, label: rule.label, term })
+    }
+  }
+  return matches
+}
+
+/**
+ * 将违反的饮食要求转换为违规说明，如"「糖醋里脊」疑似含猪肉（菜名中的「里脊」），不符合清真要求"
+ */
+export function describeDietaryMatch(name: string, match: DietaryMatch): string {
+  return `「${name}」疑似含${match.label}（菜名中的「${match.term}」），不符合${match.requirement}要求`
+}
+
+/**
+ * 生成Prompt中的饮食要求说明
+ *
+ * @param params 生成参数
+ * @returns 每条要求一行，没有饮食要求时返回null
+ */
+export function buildDietaryText(params: GenerationParams): string | null {
+  const lines: string[] = []
+  if (params.halal) {
+    lines.push('本食堂为清真食堂：所有菜品不能使用猪肉、猪油、猪骨汤等任何猪源食材，肉类使用牛肉、羊肉、鸡肉、鸭肉和鱼虾，菜名中写明肉的种类（如"青椒牛肉丝"，不要写成"青椒肉丝"）')
+  }
+
+  const meatlessDays = getMeatlessDays(params)
+  if (meatlessDays.length > 0) {
+    lines.push(`${meatlessDays.map(day => DAY_LABELS[day]).join('、')}为全素日：当天不能使用肉、禽、鱼虾海鲜（可以使用蛋奶），主荤菜和半荤菜改用豆制品、菌菇、蛋类做成的菜，分类数量保持不变`)
+  }
+
+  for (const diet of THERAPEUTIC_DIETS) {
+    if (params.therapeuticDiets?.includes(diet.key)) {
+      lines.push(diet.instruction)
+    }
+  }
+
+  const allergens = ALLERGENS.filter(allergen => params.excludedAllergens?.includes(allergen.key))
+  if (allergens.length > 0) {
+    lines.push(`排除过敏原：所有菜品都不能含有${allergens.map(allergen => allergen.instruction).join('；')}。作为配料、调料或点缀使用也不可以`)
+  }
+
+  return lines.length > 0 ? lines.map((line, index) => `${index + 1}. ${line}`).join('\n') : null
+}
+
+/**
+ * 生成饮食要求的简短说明，用于在菜单上标注，如["清真", "周三全素", "低盐", "不含花生、鱼类"]
+ */
+export function describeDietaryRequirements(params: GenerationParams): string[] {
+  const labels: string[] = []
+  if (params.halal) {
+    labels.push('清真')
+  }
+
+  const meatlessDays = getMeatlessDays(params)
+  if (meatlessDays.length > 0) {
+    labels.push(`${meatlessDays.map(day => DAY_LABELS[day]).join('、')}全素`)
+  }
+
+  labels.push(...THERAPEUTIC_DIETS.filter(diet => params.therapeuticDiets?.includes(diet.key)).map(diet => diet.label))
+
+  const allergens = ALLERGENS.filter(allergen => params.excludedAllergens?.includes(allergen.key))
+  if (allergens.length > 0) {
+    labels.push(`不含${allergens.map(allergen => allergen.label).join('、')}`)
+  }
+
+  return labels
+}
@@ -0,0 +1,208 @@
+/**
+ * 烹饪设备模块
+ *
+ * 食堂可以登记厨房实际的烹饪设备：每种设备的台数和每台每餐可以出的菜品道数。
+ * 登记后生成时不再使用"设备紧缺"勾选项，而是按设备产能：
+ * 1. Prompt中列出每餐各种做法的菜品上限，没有的设备不安排对应做法的菜
+ * 2. 生成后按菜名识别每道热菜使用的设备，逐天逐餐检查是否超出产能，作为一条校验规则
+ *
+ * 菜名中看不出做法的菜不计入任何设备。没有登记设备的食堂保持原来的设备紧缺勾选项。
+ *
+ * 生成时把设备登记快照写入 GenerationParams.equipment，之后的校验和局部重新生成
+ * 都以快照为准，不受设备登记后续修改的影响。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import type { DishItem, DishType, EquipmentItem, EquipmentKind, GenerationParams } from '@/types'
+
+/** 每种设备台数、每台每餐产能的上限 */
+export const MAX_EQUIPMENT_QUANTITY = 50
+export const MAX_EQUIPMENT_CAPACITY = 20
+
+interface EquipmentDefinition {
+  kind: EquipmentKind
+  /** 设备名称 */
+  label: string
+  /** 对应的做法，用于Prompt和违规说明 */
+  method: string
+  /** 菜名中包含这些词（去掉exceptions后）即视为使用该设备 */
+  terms: string[]
+  exceptions: string[]
+  /** 未登记设备时预填的台数和产能 */
+  defaultQuantity: number
+  defaultCapacity: number
+}
+
+/**
+ * 各种设备的定义，按识别的优先级排列
+ *
+ * 一道菜只计入第一个匹配的设备，例如"砂锅炖排骨"计入砂锅、"香酥鸡"计入炸炉。
+ */
+export const EQUIPMENT_DEFINITIONS: EquipmentDefinition[] = [
+  { kind: 'claypot', label: '砂锅', method: '砂锅菜', terms: ['砂锅', '煲仔', '啫啫'], exceptions: [], defaultQuantity: 0, defaultCapacity: 1 },
+  { kind: 'fryer', label: '炸炉', method: '油炸菜', terms: ['炸', '酥', '脆皮', '锅包肉'], exceptions: ['炸酱'], defaultQuantity: 1, defaultCapacity: 2 },
+  { kind: 'oven', label: '烤箱', method: '烤菜', terms: ['烤', '焗', '叉烧'], exceptions: ['烤麸'], defaultQuantity: 1, defaultCapacity: 2 },
+  { kind: 'steamer', label: '蒸屉', method: '蒸菜', terms: ['蒸'], exceptions: [], defaultQuantity: 2, defaultCapacity: 1 },
+  { kind: 'stewPot', label: '炖锅', method: '炖菜', terms: ['炖', '煲', '煨'], exceptions: [], defaultQuantity: 2, defaultCapacity: 1 },
+  { kind: 'braiser', label: '烧锅', method: '烧菜', terms: ['烧', '焖', '扒'], exceptions: ['烧麦', '烧卖'], defaultQuantity: 2, defaultCapacity: 1 },
+  { kind: 'wok', label: '炒锅', method: '炒菜', terms: ['炒', '爆', '煸', '熘', '溜', '煎'], exceptions: [], defaultQuantity: 4, defaultCapacity: 1 },
+]
+
+const HOT_DISH_TYPES: DishType[] = ['mainMeat', 'halfMeat', 'vegetarian']
+
+/**
+ * 获取设备的定义
+ */
+export function getEquipmentDefinition(kind: EquipmentKind): EquipmentDefinition {
+  return EQUIPMENT_DEFINITIONS.find(definition => definition.kind === kind)!
+}
+
+/**
+ * 校验并规范化设备登记
+ *
+ * 每种设备最多登记一次，保存时按EQUIPMENT_DEFINITIONS的顺序排列；
+ * 台数为0表示没有这种设备，没有登记的设备也视为没有。
+ *
+ * @param raw 请求中的设备登记
+ * @returns 规范化后的设备登记，或可以直接展示给用户的错误信息
+ */
+export function readEquipment(raw: unknown): { equipment: EquipmentItem[]; error: null } | { equipment: null; error: string } {
+  if (!Array.isArray(raw)) {
+    return { equipment: null, error: '设备登记格式错误' }
+  }
+
+  const items = new Map<EquipmentKind, EquipmentItem>()
+  for (const item of raw) {
+    const source = (item && typeof item === 'object' ? item : {}) as Partial<EquipmentItem>
+    const definition = EQUIPMENT_DEFINITIONS.find(entry => entry.kind === source.kind)
+    if (!definition) {
+      return { equipment: null, error: '设备类型无效' }
+    }
+    if (items.has(definition.kind)) {
+      return { equipment: null, error: `设备「${definition.label}」重复` }
+    }
+    const { quantity, capacity } = source
+    if (!Number.isInteger(quantity) || quantity! < 0 || quantity! > MAX_EQUIPMENT_QUANTITY) {
+      return { equipment: null, error: `${definition.label}的台数必须是0到${MAX_EQUIPMENT_QUANTITY}之间的整数` }
+    }
+    if (!Number.isInteger(capacity) || capacity! < 1 || capacity! > MAX_EQUIPMENT_CAPACITY) {
+      return { equipment: null, error: `${definition.label}每台每餐的出菜道数必须是1到${MAX_EQUIPMENT_CAPACITY}之间的整数` }
+    }
+    items.set(definition.kind, { kind: definition.kind, quantity: quantity!, capacity: capacity! })
+  }
+
+  if (items.size === 0) {
+    return { equipment: null, error: '请至少登记一种设备' }
+  }
+  const equipment = EQUIPMENT_DEFINITIONS
+    .map(definition => items.get(definition.kind))
+    .filter((item): item is EquipmentItem => item !== undefined)
+  return { equipment, error: null }
+}
+
+/**
+ * 读取食堂保存的设备登记，没有登记或登记无效时返回null，表示使用设备紧缺勾选项
+ */
+export function getConfiguredEquipment(raw: unknown): EquipmentItem[] | null {
+  if (raw === null || raw === undefined) return null
+  return readEquipment(raw).equipment
+}
+
+/**
+ * 获取每种设备每餐可以出的菜品道数（台数×每台产能），没有登记的设备为0
+ */
+function getMealLimits(equipment: EquipmentItem[]): Map<EquipmentKind, number> {
+  return new Map(EQUIPMENT_DEFINITIONS.map(definition => {
+    const item = equipment.find(entry => entry.kind === definition.kind)
+    return [definition.kind, item ? item.quantity * item.capacity : 0]
+  }))
+}
+
+/**
+ * 按菜名识别一道菜使用的烹饪设备
+ *
+ * 只识别热菜，凉菜一般提前做好，不占用出餐时的设备。
+ *
+ * @returns 设备类型，看不出做法或是凉菜时返回null
+ */
+export function findDishEquipment(dish: DishItem): EquipmentKind | null {
+  if (!HOT_DISH_TYPES.includes(dish.type)) return null
+  for (const definition of EQUIPMENT_DEFINITIONS) {
+    // 去掉例外词时用空格占位，避免前后文字拼接出新的匹配
+    const text = definition.exceptions.reduce((result, exception) => result.split(exception).join(' '), dish.name)
+    if (definition.terms.some(term => text.includes(term))) {
+      return definition.kind
+    }
+  }
+  return null
+}
+
+/**
+ * 生成Prompt中的烹饪设备说明
+ *
+ * @param params 生成参数
+ * @returns 每种设备一行，没有登记设备时返回null
+ */
+export function buildEquipmentText(params: GenerationParams): string | null {
+  if (!params.equipment) return null
+
+  const limits = getMealLimits(params.equipment)
+  const lines = EQUIPMENT_DEFINITIONS.map(definition => {
+    const item = params.equipment!.find(entry => entry.kind === definition.kind)
+    const limit = limits.get(definition.kind)!
+    return limit > 0
+      ? `${definition.label}${item!.quantity}台，每台每餐出${item!.capacity}道：每餐${definition.method}不超过${limit}道`
+      : `没有${definition.label}：不要安排${definition.method}`
+  })
+
+  return `厨房的烹饪设备和产能如下，同一天的每个餐次都要满足（多个餐次共用设备，但分别出餐）：
+${lines.map((line, index) => `${index + 1}. ${line}`).join('\n')}
+热菜的菜名中请写明主要做法（如"清蒸"、"红烧"、"干煸"、"砂锅"），便于按设备核对。`
+}
+
+/**
+ * 检查一餐的热菜是否超出设备产能
+ *
+ * @param dishes 同一天同一餐次的菜品
+ * @param equipment 设备登记
+ * @returns 每种超出产能的设备和使用它的菜品
+ */
+export function findEquipmentOverloads(
+  dishes: DishItem[],
+  equipment: EquipmentItem[]
+): Array<{ kind: EquipmentKind; limit: number; dishes: string[] }> {
+  const limits = getMealLimits(equipment)
+  const usage = new Map<EquipmentKind, string[]>()
+  for (const dish of dishes) {
+    const kind = findDishEquipment(dish)
+    if (kind) {
+      usage.set(kind, [...(usage.get(kind) || []), dish.name])
+    }
+  }
+
+  return EQUIPMENT_DEFINITIONS
+    .filter(definition => (usage.get(definition.kind)?.length ?? 0) > limits.get(definition.kind)!)
+    .map(definition => ({ kind: definition.kind, limit: limits.get(definition.kind)!, dishes: usage.get(definition.kind)! }))
+}
+
+/**
+ * 描述一条设备超负荷，如"蒸菜3道（…），蒸屉每餐最多出2道"
+ */
+export function describeEquipmentOverload(overload: { kind: EquipmentKind; limit: number; dishes: string[] }): string {
+  const definition = getEquipmentDefinition(overload.kind)
+  const dishes = `${definition.method}${overload.dishes.length}道（${overload.dishes.join('、')}）`
+  return overload.limit > 0
+    ? `${dishes}，${definition.label}每餐最多出${overload.limit}道`
+    : `${dishes}，厨房没有${definition.label}`
+}
+
+/**
+ * 概括设备登记，用于页面展示，如"炒锅4台、蒸屉2台"
+ */
+export function formatEquipment(equipment: EquipmentItem[]): string {
+  const owned = equipment.filter(item => item.quantity > 0)
+  return owned.length > 0
+    ? owned.map(item => `${getEquipmentDefinition(item.kind).label}${item.quantity}台`).join('、')
+    : '未登记可用设备'
+}
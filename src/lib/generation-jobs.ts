@@ -0,0 +1,553 @@
+/**
+ * 异步菜单生成任务模块
+ *
+ * 一次完整生成最多要调用3次AI，耗时较长，在Serverless平台上容易超时，
+ * 厨师长关掉页面也会丢失结果。因此生成以任务的形式进行：
+ * 1. 接口创建GenerationJob记录（queued）并放入进程内队列后立即返回
+ * 2. 队列按并发上限依次执行任务（running），生成进度随时写回记录
+ * 3. 生成成功后保存菜单（succeeded），失败时记录原因（failed）
+ * 4. 前端通过任务ID轮询状态，刷新页面后也能继续查看
+ *
+ * 同时生成多份候选方案时，各方案并行生成，全部完成后任务即为成功，
+ * 但不保存菜单，由厨师长选定或按天组合后再保存。
+ * 生成多周循环菜单时，各周依次生成，全部完成后保存为循环菜单。
+ *
+ * 队列只存在于当前进程内，进程重启后未完成的任务无法继续，
+ * 查询时会把长时间没有进展的任务标记为失败。
+ */
+
+import { prisma } from './db'
+import { createEmptyWeekMenu } from './menu-format'
+import { getServiceDays } from './service-days'
+import { linkRunToMenu } from './generation-run'
+import { MenuGenerationError, generateWeekMenu, saveGeneratedMenu } from './menu-generation'
+import { buildCandidateVariation, evaluateWeekMenu, mergeCandidates, scoreMenu } from './menu-candidates'
+import { generateMenuCycle, resolveCycleParams, saveMenuCycle } from './menu-cycle'
+import { checkSeasonalIngredients } from './seasonal-calendar'
+import type {
+  CandidateSelection, GenerationJob, GenerationJobProgress, GenerationJobStatus, GenerationParams,
+  GenerationProgressEvent, HistoricalCheckResult, MenuCandidate, MenuValidationReport, RepeatCheckResult, WeekMenu
+} from '@/types'
+
+/** 同时执行的生成任务数 */
+const MAX_CONCURRENT_JOBS = 2
+
+/** 排队或生成中的任务超过该时间没有任何进展，视为已中断 */
+const STALE_JOB_MS = 10 * 60 * 1000
+
+/** 候选方案生成后等待选定的时间，超过后刷新页面不再自动显示 */
+const CANDIDATE_SELECTION_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/** 排队中和生成中的任务状态 */
+const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running']
+
+interface GenerationQueue {
+  pending: string[]
+  running: Set<string>
+}
+
+// 与Prisma客户端相同，挂在globalThis上避免开发环境热更新时丢失队列
+const globalForQueue = globalThis as unknown as {
+  generationQueue: GenerationQueue | undefined
+}
+
+const queue: GenerationQueue = globalForQueue.generationQueue ?? { pending: [], running: new Set() }
+globalForQueue.generationQueue = queue
+
+/** 数据库中的任务记录 */
+type GenerationJobRecord = NonNullable<Awaited<ReturnType<typeof prisma.generationJob.findUnique>>>
+
+/** 开始执行时读取的任务记录，包含食堂 */
+type RunningJobRecord = Awaited<ReturnType<typeof startGenerationJob>>
+
+/** 成功后保存在result字段中的结果 */
+interface GenerationJobResult {
+  validation: MenuValidationReport
+  historicalCheck: HistoricalCheckResult
+  repeatCheck: RepeatCheckResult
+  attempts: number
+}
+
+/**
+ * 创建生成任务并放入队列
+ *
+ * @param canteenId 食堂ID
+ * @param params 生成参数
+ * @param candidateCount 同时生成的候选方案数，为1时生成后直接保存菜单
+ * @param cycleWeeks 连续生成的周数，大于1时生成多周循环菜单（此时candidateCount应为1）
+ * @returns 新建的任务
+ */
+export async function enqueueGenerationJob(
+  canteenId: string,
+  params: GenerationParams,
+  candidateCount = 1,
+  cycleWeeks = 1
+): Promise<GenerationJob> {
+  const job = await prisma.generationJob.create({
+    data: {
+      canteenId,
+      status: 'queued',
+      generationParams: params as object,
+      candidateCount,
+      cycleWeeks,
+    },
+  })
+
+  queue.pending.push(job.id)
+  drainQueue()
+
+  return toGenerationJob(job)
+}
+
+/**
+ * 查找食堂正在排队或生成中的任务
+ *
+ * 用于避免同一食堂重复提交。
+ *
+ * @param canteenId 食堂ID
+ * @returns 最近的未完成任务，没有时返回null
+ */
+export async function findActiveGenerationJob(canteenId: string): Promise<GenerationJob | null> {
+  const job = await prisma.generationJob.findFirst({
+    where: { canteenId, status: { in: ACTIVE_JOB_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (!job) return null
+
+  const checked = await failIfStale(job)
+  return ACTIVE_JOB_STATUSES.includes(checked.status as GenerationJobStatus) ? toGenerationJob(checked) : null
+}
+
+/**
+ * 查找页面刷新后需要继续显示的任务
+ *
+ * 只看食堂最近的一个任务：仍在排队或生成中，或者已生成候选方案、
+ * 尚未选定保存且未超过等待时间时返回。
+ *
+ * @param canteenId 食堂ID
+ * @returns 需要继续显示的任务，没有时返回null
+ */
+export async function findResumableGenerationJob(canteenId: string): Promise<GenerationJob | null> {
+  const latest = await prisma.generationJob.findFirst({
+    where: { canteenId },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (!latest) return null
+
+  const job = await failIfStale(latest)
+  const active = ACTIVE_JOB_STATUSES.includes(job.status as GenerationJobStatus)
+  const awaitingSelection = job.status === 'succeeded' && !job.menuId && job.candidates !== null &&
+    Date.now() - (job.finishedAt ?? job.updatedAt).getTime() < CANDIDATE_SELECTION_WINDOW_MS
+
+  return active || awaitingSelection ? toGenerationJob(job) : null
+}
+
+/**
+ * 获取任务详情
+ *
+ * @param jobId 任务ID
+ * @param canteenId 食堂ID，任务不属于该食堂时视为不存在
+ * @returns 任务，不存在时返回null
+ */
+export async function getGenerationJob(jobId: string, canteenId: string): Promise<GenerationJob | null> {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+  })
+  if (!job || job.canteenId !== canteenId) return null
+
+  return toGenerationJob(await failIfStale(job))
+}
+
+/**
+ * 按并发上限启动排队中的任务
+ */
+function drainQueue(): void {
+  while (queue.running.size < MAX_CONCURRENT_JOBS && queue.pending.length > 0) {
+    const jobId = queue.pending.shift()!
+    queue.running.add(jobId)
+
+    runGenerationJob(jobId)
+      .catch(error => console.error(`Generation job ${jobId} crashed:`, error))
+      .finally(() => {
+        queue.running.delete(jobId)
+        drainQueue()
+      })
+  }
+}
+
+/**
+ * 执行一个生成任务
+ *
+ * 处理流程：
+ * 1. 标记为生成中，读取食堂和生成参数
+ * 2. 只生成一份时，生成后直接保存菜单；多份候选方案时并行生成，等待厨师长选定；
+ *    多周循环菜单依次生成各周后保存
+ * 3. 写入最终结果或失败原因
+ */
+async function runGenerationJob(jobId: string): Promise<void> {
+  const job = await startGenerationJob(jobId)
+
+  try {
+    if (job.cycleWeeks > 1) {
+      await generateCycle(job)
+    } else if (job.candidateCount > 1) {
+      await generateCandidates(job)
+    } else {
+      await generateSingleMenu(job)
+    }
+  } catch (error) {
+    if (!(error instanceof MenuGenerationError)) {
+      console.error(`Generation job ${jobId} failed:`, error)
+    }
+    await prisma.generationJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        error: error instanceof MenuGenerationError ? error.message : '系统错误，请稍后重试',
+        finishedAt: new Date(),
+      },
+    })
+  }
+}
+
+/**
+ * 标记任务开始执行，并读取所属食堂
+ */
+function startGenerationJob(jobId: string) {
+  return prisma.generationJob.update({
+    where: { id: jobId },
+    data: { status: 'running', startedAt: new Date() },
+    include: { canteen: true },
+  })
+}
+
+/**
+ * 生成一份菜单并直接保存
+ *
+ * 进度事件依次写回任务记录，前端轮询时可以逐天展示。
+ */
+async function generateSingleMenu(job: RunningJobRecord): Promise<void> {
+  const params = job.generationParams as unknown as GenerationParams
+
+  let partialMenu: WeekMenu = createEmptyWeekMenu(getServiceDays(params))
+  let progress: GenerationJobProgress | null = null
+  // 进度写入按顺序串行执行，保证后面的进度不会被先前的写入覆盖
+  let pendingWrite: Promise<unknown> = Promise.resolve()
+
+  const recordProgress = (event: GenerationProgressEvent) => {
+    if (event.type === 'attempt' || event.type === 'restart') {
+      partialMenu = createEmptyWeekMenu(getServiceDays(params))
+    } else if (event.type === 'day') {
+      partialMenu = { ...partialMenu, [event.day]: event.dishes }
+    }
+    progress = {
+      stage: event.type,
+      attempt: 'attempt' in event ? event.attempt : 0,
+      maxAttempts: event.type === 'attempt' ? event.maxAttempts : progress?.maxAttempts ?? 0,
+      validation: event.type === 'validation' ? event.report : progress?.validation ?? null,
+      completedCandidates: 0,
+      completedWeeks: 0,
+    }
+
+    const data = { progress: progress as object, weekMenu: partialMenu as object }
+    pendingWrite = pendingWrite
+      .then(() => prisma.generationJob.update({ where: { id: job.id }, data }))
+      .catch(error => console.error(`Failed to record progress of generation job ${job.id}:`, error))
+  }
+
+  try {
+    const result = await generateWeekMenu(job.canteen, params, { onProgress: recordProgress })
+    const menu = await saveGeneratedMenu(job.canteen, result.weekMenu, params)
+    await linkRunToMenu(result.runId, menu.id)
+    await pendingWrite
+
+    const jobResult: GenerationJobResult = {
+      validation: result.validation,
+      historicalCheck: result.historicalCheck,
+      repeatCheck: result.repeatCheck,
+      attempts: result.attempts,
+    }
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'succeeded',
+        weekMenu: result.weekMenu as object,
+        menuId: menu.id,
+        runId: result.runId,
+        result: jobResult as object,
+        finishedAt: new Date(),
+      },
+    })
+    console.log(`Generation job ${job.id} succeeded, menu ${menu.id}`)
+  } finally {
+    await pendingWrite
+  }
+}
+
+/**
+ * 并行生成多份候选方案
+ *
+ * 每份方案在Prompt中使用不同的侧重点，各自独立校验重试并写入生成记录。
+ * 部分方案失败时保留成功的方案，全部失败时任务失败。
+ */
+async function generateCandidates(job: RunningJobRecord): Promise<void> {
+  const params = job.generationParams as unknown as GenerationParams
+  let completedCandidates = 0
+  let pendingWrite: Promise<unknown> = Promise.resolve()
+
+  const generateCandidate = async (index: number): Promise<MenuCandidate> => {
+    let candidate: MenuCandidate
+    try {
+      const result = await generateWeekMenu(job.canteen, params, {
+        variation: buildCandidateVariation(index, job.candidateCount),
+      })
+      candidate = {
+        index,
+        status: 'succeeded',
+        weekMenu: result.weekMenu,
+        validation: result.validation,
+        historicalCheck: result.historicalCheck,
+        repeatCheck: result.repeatCheck,
+        attempts: result.attempts,
+        runId: result.runId,
+        score: scoreMenu(result.validation, result.repeatCheck),
+        error: null,
+      }
+    } catch (error) {
+      if (!(error instanceof MenuGenerationError)) {
+        console.error(`Candidate ${index} of generation job ${job.id} failed:`, error)
+      }
+      candidate = {
+        index,
+        status: 'failed',
+        weekMenu: null,
+        validation: null,
+        historicalCheck: null,
+        repeatCheck: null,
+        attempts: 0,
+        runId: null,
+        score: 0,
+        error: error instanceof MenuGenerationError ? error.message : '系统错误，请稍后重试',
+      }
+    }
+
+    // 每完成一份方案更新一次进度
+    completedCandidates++
+    const progress: GenerationJobProgress = {
+      stage: 'validation',
+      attempt: candidate.attempts,
+      maxAttempts: 0,
+      validation: candidate.validation,
+      completedCandidates,
+      completedWeeks: 0,
+    }
+    pendingWrite = pendingWrite
+      .then(() => prisma.generationJob.update({ where: { id: job.id }, data: { progress: progress as object } }))
+      .catch(error => console.error(`Failed to record progress of generation job ${job.id}:`, error))
+
+    return candidate
+  }
+
+  const candidates = await Promise.all(Array.from(Array(job.candidateCount).keys(), generateCandidate))
+  await pendingWrite
+
+  const succeeded = candidates.filter(candidate => candidate.status === 'succeeded')
+  if (succeeded.length === 0) {
+    throw new MenuGenerationError(candidates[0].error || '菜单生成失败，请稍后重试', 500)
+  }
+
+  await prisma.generationJob.update({
+    where: { id: job.id },
+    data: {
+      status: 'succeeded',
+      candidates: candidates as object[],
+      finishedAt: new Date(),
+    },
+  })
+  console.log(`Generation job ${job.id} produced ${succeeded.length}/${job.candidateCount} candidates`)
+}
+
+/**
+ * 依次生成多周循环菜单并保存
+ *
+ * 各周依赖之前各周用过的菜品，只能按顺序生成；每完成一周更新一次进度。
+ * 任务上记录循环记录和第1周的菜单，各周的校验结果通过循环菜单接口查看。
+ */
+async function generateCycle(job: RunningJobRecord): Promise<void> {
+  const params = job.generationParams as unknown as GenerationParams
+  const { weeks, error } = resolveCycleParams(job.canteen, params, job.cycleWeeks)
+  if (!weeks) {
+    throw new MenuGenerationError(error, 400)
+  }
+
+  let pendingWrite: Promise<unknown> = Promise.resolve()
+  const recordWeek = (completedWeeks: number) => {
+    const progress: GenerationJobProgress = {
+      stage: 'validation',
+      attempt: 0,
+      maxAttempts: 0,
+      validation: null,
+      completedCandidates: 0,
+      completedWeeks,
+    }
+    pendingWrite = pendingWrite
+      .then(() => prisma.generationJob.update({ where: { id: job.id }, data: { progress: progress as object } }))
+      .catch(error => console.error(`Failed to record progress of generation job ${job.id}:`, error))
+  }
+
+  try {
+    const results = await generateMenuCycle(job.canteen, weeks, recordWeek)
+    const { cycleId, menuIds } = await saveMenuCycle(job.canteen, weeks, results)
+    await pendingWrite
+
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'succeeded',
+        weekMenu: results[0].weekMenu as object,
+        menuId: menuIds[0],
+        cycleId,
+        runId: results[0].runId,
+        finishedAt: new Date(),
+      },
+    })
+    console.log(`Generation job ${job.id} succeeded, cycle ${cycleId} with ${menuIds.length} weeks`)
+  } finally {
+    await pendingWrite
+  }
+}
+
+/**
+ * 保存厨师长选定或组合的候选方案
+ *
+ * 处理流程：
+ * 1. 确认任务属于当前食堂、已生成候选方案且尚未保存
+ * 2. 按每天的选择组合菜单，重新核实历史标注、校验规则和检查近期重复
+ * 3. 保存为菜单，并在同一事务中以任务尚未关联菜单为条件认领任务，
+ *    同时提交的另一次保存认领失败时不保存菜单
+ * 4. 关联用到的候选方案的生成记录，返回任务的最终结果
+ *
+ * @param jobId 任务ID
+ * @param canteenId 食堂ID
+ * @param selection 每天选用的方案序号
+ * @returns 保存后的任务和菜单
+ * @throws MenuGenerationError 任务不存在、没有候选方案、已保存或选择无效时抛出
+ */
+export async function saveCandidateSelection(
+  jobId: string,
+  canteenId: string,
+  selection: CandidateSelection
+): Promise<{ job: GenerationJob; menuId: string; revision: number }> {
+  const job = await prisma.generationJob.findUnique({
+    where: { id: jobId },
+    include: { canteen: true },
+  })
+
+  if (!job || job.canteenId !== canteenId) {
+    throw new MenuGenerationError('生成任务不存在', 404)
+  }
+  const candidates = job.candidates as unknown as MenuCandidate[] | null
+  if (job.status !== 'succeeded' || !candidates) {
+    throw new MenuGenerationError('该生成任务没有候选方案', 400)
+  }
+  if (job.menuId) {
+    throw new MenuGenerationError('候选方案已经保存过了', 409)
+  }
+
+  const merged = mergeCandidates(candidates, selection)
+  if (!merged) {
+    throw new MenuGenerationError('选择的候选方案不存在、生成失败或包含了非供餐日', 400)
+  }
+
+  const params = job.generationParams as unknown as GenerationParams
+  const evaluation = await evaluateWeekMenu(job.canteen, merged.weekMenu, params)
+  const usedCandidates = merged.used
+  const jobResult: GenerationJobResult = {
+    validation: evaluation.validation,
+    historicalCheck: evaluation.historicalCheck,
+    repeatCheck: evaluation.repeatCheck,
+    attempts: Math.max(...usedCandidates.map(candidate => candidate.attempts)),
+  }
+
+  const menu = await saveGeneratedMenu(job.canteen, evaluation.weekMenu, params, async (tx, menuId) => {
+    const claimed = await tx.generationJob.updateMany({
+      where: { id: job.id, menuId: null },
+      data: {
+        weekMenu: evaluation.weekMenu as object,
+        menuId,
+        runId: usedCandidates[0].runId,
+        result: jobResult as object,
+      },
+    })
+    if (claimed.count === 0) {
+      throw new MenuGenerationError('候选方案已经保存过了', 409)
+    }
+  })
+
+  for (const candidate of usedCandidates) {
+    await linkRunToMenu(candidate.runId, menu.id)
+  }
+
+  const updated = await prisma.generationJob.findUniqueOrThrow({ where: { id: job.id } })
+  console.log(`Generation job ${job.id} saved candidates ${usedCandidates.map(candidate => candidate.index).join(',')} as menu ${menu.id}`)
+
+  return { job: toGenerationJob(updated), menuId: menu.id, revision: menu.revision }
+}
+
+/**
+ * 将不在本进程队列中、且长时间没有进展的未完成任务标记为失败
+ *
+ * 进程重启或Serverless实例回收后，队列中的任务会丢失，
+ * 如果不处理，前端会一直显示生成中。
+ */
+async function failIfStale(job: GenerationJobRecord): Promise<GenerationJobRecord> {
+  const active = ACTIVE_JOB_STATUSES.includes(job.status as GenerationJobStatus)
+  const tracked = queue.pending.includes(job.id) || queue.running.has(job.id)
+  if (!active || tracked || Date.now() - job.updatedAt.getTime() < STALE_JOB_MS) {
+    return job
+  }
+
+  console.warn(`Generation job ${job.id} is stale, marking as failed`)
+  return prisma.generationJob.update({
+    where: { id: job.id },
+    data: {
+      status: 'failed',
+      error: '生成任务已中断，请重新生成',
+      finishedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * 将数据库记录转换为接口返回的任务结构
+ */
+function toGenerationJob(job: GenerationJobRecord): GenerationJob {
+  const result = job.result as unknown as GenerationJobResult | null
+  const progress = job.progress as unknown as GenerationJobProgress | null
+  const params = job.generationParams as unknown as GenerationParams
+  const weekMenu = job.weekMenu as unknown as WeekMenu | null
+
+  return {
+    id: job.id,
+    status: job.status as GenerationJobStatus,
+    progress,
+    candidateCount: job.candidateCount,
+    candidates: job.candidates as unknown as MenuCandidate[] | null,
+    cycleWeeks: job.cycleWeeks,
+    cycleId: job.cycleId,
+    weekMenu,
+    weekStart: params.weekStart ?? null,
+    calendarEvents: params.calendarEvents ?? [],
+    menuId: job.menuId,
+    runId: job.runId,
+    validation: result?.validation ?? progress?.validation ?? null,
+    historicalCheck: result?.historicalCheck ?? null,
+    repeatCheck: result?.repeatCheck ?? null,
+    seasonalCheck: weekMenu ? checkSeasonalIngredients(weekMenu, params) : null,
+    attempts: result?.attempts ?? progress?.attempt ?? 0,
+    error: job.error,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  }
+}
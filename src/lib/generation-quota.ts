@@ -0,0 +1,146 @@
+/**
+ * 菜单生成配额模块
+ *
+ * 每次生成最多调用3次AI，为了让费用保持在运营成本估算的范围内，
+ * 对每个食堂的生成次数做两层限制：
+ * 1. 每日和每月生成次数配额，按生成调用记录（GenerationRun）统计，
+ *    完整生成和局部重新生成都计入，失败的生成同样产生了费用，也计入
+ * 2. 每分钟的突发请求限流，防止连续点击或脚本重复提交
+ *
+ * 配额优先使用食堂级配置（Canteen.dailyGenerationQuota / monthlyGenerationQuota），
+ * 为空时使用环境变量：
+ * - GENERATION_DAILY_QUOTA: 每日次数，默认10
+ * - GENERATION_MONTHLY_QUOTA: 每月次数，默认100
+ * - GENERATION_RATE_LIMIT_PER_MINUTE: 每分钟请求数，默认3
+ * 以上配置为0时表示不限制。日和月按北京时间计算。
+ */
+
+import { prisma } from './db'
+import { createRateLimiter } from './rate-limit'
+import type { GenerationQuota, GenerationQuotaUsage } from '@/types'
+
+/** 北京时间相对UTC的偏移 */
+const CHINA_TIME_OFFSET_MS = 8 * 60 * 60 * 1000
+
+const generationRateLimiter = createRateLimiter({
+  name: 'generation',
+  windowMs: 60 * 1000,
+  max: readNumber(process.env.GENERATION_RATE_LIMIT_PER_MINUTE, 3),
+})
+
+/** 生成请求被拒绝的原因 */
+export interface GenerationDenial {
+  error: string
+  quota: GenerationQuota
+  retryAfterSeconds: number
+}
+
+interface QuotaCanteen {
+  id: string
+  dailyGenerationQuota: number | null
+  monthlyGenerationQuota: number | null
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+/**
+ * 计算北京时间当天和当月的起止时间
+ */
+function getQuotaPeriods(now: Date) {
+  const local = new Date(now.getTime() + CHINA_TIME_OFFSET_MS)
+  const dayStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())
+  const monthStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), 1)
+  const nextMonthStart = Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 1)
+
+  return {
+    dayStart: new Date(dayStart - CHINA_TIME_OFFSET_MS),
+    dayEnd: new Date(dayStart + 24 * 60 * 60 * 1000 - CHINA_TIME_OFFSET_MS),
+    monthStart: new Date(monthStart - CHINA_TIME_OFFSET_MS),
+    monthEnd: new Date(nextMonthStart - CHINA_TIME_OFFSET_MS),
+  }
+}
+
+function buildUsage(limit: number, used: number, resetAt: Date): GenerationQuotaUsage {
+  return {
+    limit: limit > 0 ? limit : null,
+    used,
+    remaining: limit > 0 ? Math.max(limit - used, 0) : null,
+    resetAt,
+  }
+}
+
+/**
+ * 查询食堂的生成配额和已用次数
+ *
+ * @param canteen 食堂，需包含配额配置
+ * @returns 当日和当月的上限、已用和剩余次数
+ */
+export async function getGenerationQuota(canteen: QuotaCanteen): Promise<GenerationQuota> {
+  const periods = getQuotaPeriods(new Date())
+  const dailyLimit = canteen.dailyGenerationQuota ?? readNumber(process.env.GENERATION_DAILY_QUOTA, 10)
+  const monthlyLimit = canteen.monthlyGenerationQuota ?? readNumber(process.env.GENERATION_MONTHLY_QUOTA, 100)
+
+  const [dailyUsed, monthlyUsed] = await Promise.all([
+    prisma.generationRun.count({
+      where: { canteenId: canteen.id, createdAt: { gte: periods.dayStart } },
+    }),
+    prisma.generationRun.count({
+      where: { canteenId: canteen.id, createdAt: { gte: periods.monthStart } },
+    }),
+  ])
+
+  return {
+    daily: buildUsage(dailyLimit, dailyUsed, periods.dayEnd),
+    monthly: buildUsage(monthlyLimit, monthlyUsed, periods.monthEnd),
+  }
+}
+
+/**
+ * 检查食堂是否还可以发起生成
+ *
+ * 处理流程：
+ * 1. 检查当月和当日配额是否用完
+ * 2. 检查每分钟请求数，通过时记录本次请求
+ *
+ * @param canteen 食堂，需包含配额配置
+ * @param count 本次请求将要发起的生成次数，同时生成多份候选方案时每份计一次，循环菜单每周计一次
+ * @returns 允许时返回null，拒绝时返回原因、配额和建议的重试等待秒数
+ */
+export async function checkGenerationAllowance(canteen: QuotaCanteen, count = 1): Promise<GenerationDenial | null> {
+  const quota = await getGenerationQuota(canteen)
+  const secondsUntil = (date: Date) => Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1)
+
+  if (quota.monthly.remaining !== null && quota.monthly.remaining < count) {
+    return {
+      error: quota.monthly.remaining === 0
+        ? `本月生成次数已用完（每月${quota.monthly.limit}次），如需更多次数请联系管理员`
+        : `本月剩余${quota.monthly.remaining}次，不足以完成本次生成（需要${count}次）`,
+      quota,
+      retryAfterSeconds: secondsUntil(quota.monthly.resetAt),
+    }
+  }
+
+  if (quota.daily.remaining !== null && quota.daily.remaining < count) {
+    return {
+      error: quota.daily.remaining === 0
+        ? `今日生成次数已用完（每天${quota.daily.limit}次），请明天再试`
+        : `今日剩余${quota.daily.remaining}次，不足以完成本次生成（需要${count}次）`,
+      quota,
+      retryAfterSeconds: secondsUntil(quota.daily.resetAt),
+    }
+  }
+
+  const rateLimit = generationRateLimiter.consume(canteen.id)
+  if (!rateLimit.allowed) {
+    return {
+      error: `生成请求过于频繁，请${rateLimit.retryAfterSeconds}秒后再试`,
+      quota,
+      retryAfterSeconds: rateLimit.retryAfterSeconds,
+    }
+  }
+
+  return null
+}
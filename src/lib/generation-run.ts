@@ -0,0 +1,127 @@
+/**
+ * 生成调用记录模块
+ *
+ * 记录每次菜单生成的完整过程：发送的Prompt、服务商和模型、
+ * 每次调用的原始输出、解析或校验错误、耗时和token用量，
+ * 以便厨师长反馈菜单有问题时能够还原当时的情况。
+ *
+ * 记录写入失败只打印日志，不影响菜单生成本身。
+ */
+
+import { prisma } from './db'
+import type { ChatCompletionResult, LLMProvider } from './llm'
+import type { GenerationAttemptLog, GenerationParams, GenerationRunKind, MenuValidationReport } from '@/types'
+
+export interface GenerationRunRecorder {
+  /** 记录一次调用的结果 */
+  recordAttempt(log: GenerationAttemptLog): void
+  /** 写入数据库，返回记录ID；写入失败时返回null */
+  save(status: 'success' | 'failed', error?: string): Promise<string | null>
+}
+
+/**
+ * 创建生成调用记录
+ *
+ * @param input.canteenId 食堂ID
+ * @param input.kind 完整生成或局部重新生成
+ * @param input.provider 使用的服务商
+ * @param input.prompt 发送给AI的完整Prompt
+ * @param input.params 生成参数
+ * @param input.menuId 局部重新生成时修改的菜单，完整生成时在保存菜单后再关联
+ */
+export function createGenerationRun(input: {
+  canteenId: string
+  menuId?: string
+  kind: GenerationRunKind
+  provider: LLMProvider
+  prompt: string
+  params: GenerationParams
+}): GenerationRunRecorder {
+  const attempts: GenerationAttemptLog[] = []
+
+  return {
+    recordAttempt(log) {
+      attempts.push(log)
+    },
+
+    async save(status, error) {
+      try {
+        const run = await prisma.generationRun.create({
+          data: {
+            canteenId: input.canteenId,
+            menuId: input.menuId ?? null,
+            kind: input.kind,
+            status,
+            provider: input.provider.name,
+            model: input.provider.model,
+            prompt: input.prompt,
+            generationParams: input.params as object,
+            promptVersion: input.params.promptVersion ?? null,
+            attempts: attempts as object[],
+            error: error ?? null,
+            latencyMs: attempts.reduce((sum, attempt) => sum + attempt.latencyMs, 0),
+            promptTokens: attempts.reduce((sum, attempt) => sum + attempt.promptTokens, 0),
+            completionTokens: attempts.reduce((sum, attempt) => sum + attempt.completionTokens, 0),
+          },
+          select: { id: true },
+        })
+        return run.id
+      } catch (saveError) {
+        console.error('Failed to save generation run:', saveError)
+        return null
+      }
+    },
+  }
+}
+
+/**
+ * 构建一次调用的记录
+ *
+ * @param attempt 第几次调用
+ * @param result AI调用结果，调用失败时为null
+ * @param details 结果判定和相关信息
+ */
+export function buildAttemptLog(
+  attempt: number,
+  result: ChatCompletionResult | null,
+  details: {
+    outcome: GenerationAttemptLog['outcome']
+    report?: MenuValidationReport
+    notes?: string[]
+    correction?: string | null
+    error?: string | null
+    latencyMs?: number
+  }
+): GenerationAttemptLog {
+  const violations = details.report?.rules.flatMap(rule => rule.violations) ?? []
+  return {
+    attempt,
+    outcome: details.outcome,
+    response: result?.content ?? null,
+    problems: [...violations, ...(details.notes ?? [])],
+    correction: details.correction ?? null,
+    error: details.error ?? null,
+    latencyMs: result?.latencyMs ?? details.latencyMs ?? 0,
+    promptTokens: result?.usage?.promptTokens ?? 0,
+    completionTokens: result?.usage?.completionTokens ?? 0,
+  }
+}
+
+/**
+ * 将生成记录关联到保存后的菜单
+ *
+ * @param runId 生成记录ID，为null时不做任何操作
+ * @param menuId 菜单ID
+ */
+export async function linkRunToMenu(runId: string | null, menuId: string): Promise<void> {
+  if (!runId) return
+
+  try {
+    await prisma.generationRun.update({
+      where: { id: runId },
+      data: { menuId },
+    })
+  } catch (error) {
+    console.error('Failed to link generation run to menu:', error)
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * 历史菜匹配模块
+ *
+ * AI会自己给菜品标注(历史)，但标注并不可靠：可能把原创菜标成历史菜，
+ * 也可能把历史菜单里的菜原样抄过来却不标注。本模块把生成的菜品与
+ * 食堂上传的历史菜单逐一比对，以实际匹配结果为准重新标注。
+ *
+ * 匹配规则（按顺序）：
+ * 1. 规范化后完全相同
+ * 2. 一方包含另一方，且长度差不超过2个字（红烧鸡腿 / 红烧鸡腿肉）；多出的字只能是末尾的
+ *    肉、块等修饰，否则两者的主要做法必须相同，避免"醋溜土豆丝"、"凉拌土豆丝"都匹配到"土豆丝"
+ * 3. 相邻两字组合的相似度（Dice系数）不低于0.8
+ */
+
+import type { DishItem, HistoricalCheckResult, HistoricalRelabel, WeekMenu } from '@/types'
+import { getMenuDays } from './menu-format'
+
+const SIMILARITY_THRESHOLD = 0.8
+const MAX_CONTAINMENT_LENGTH_DIFF = 2
+const MIN_CONTAINMENT_LENGTH = 3
+
+/** 包含匹配时末尾可以多出的修饰字，如"红烧鸡腿肉"、"土豆烧鸡块" */
+const TRAILING_QUALIFIERS = ['肉', '块', '片', '丝', '丁', '条', '段', '仔']
+
+/** 识别菜名主要做法用的词，菜名中最靠前的一个视为主要做法 */
+const COOKING_METHODS = [
+  '红烧', '清蒸', '粉蒸', '醋溜', '醋熘', '凉拌', '干煸', '油焖', '糖醋', '清炒', '爆炒', '小炒', '酱爆',
+  '水煮', '宫保', '鱼香', '白灼', '蒜蓉', '干锅', '黄焖', '酸辣', '麻辣', '香辣', '香煎', '椒盐', '孜然',
+  '炒', '烧', '蒸', '炖', '煎', '炸', '拌', '焖', '烤', '卤', '煮', '溜', '熘', '爆', '烩', '煲',
+]
+
+/** 常见食材别名，规范化时统一替换为右侧写法 */
+const INGREDIENT_ALIASES: Array<[string, string]> = [
+  ['西红柿', '番茄'],
+  ['马铃薯', '土豆'],
+  ['洋芋', '土豆'],
+  ['卷心菜', '包菜'],
+  ['圆白菜', '包菜'],
+  ['鸡蛋', '蛋'],
+]
+
+/**
+ * 规范化菜品名称
+ *
+ * 去掉括号标注、空白和标点，把全角字母数字转换为半角，并统一常见食材别名，
+ * 使 `可乐鸡翅（主荤）` 与 `可乐 鸡翅`、`西红柿炒鸡蛋` 与 `番茄炒蛋` 能够匹配。
+ */
+export function normalizeDishName(name: string): string {
+  const normalized = name
+    .replace(/[！-～]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+    .replace(/\([^()]*\)|\[[^\[\]]*\]|【[^【】]*】/g, '')
+    .replace(/[\s·•・,，.。、;；:：!！?？'"“”‘’\-_/\\]/g, '')
+    .toLowerCase()
+
+  return INGREDIENT_ALIASES.reduce((text, [alias, canonical]) => text.split(alias).join(canonical), normalized)
+}
+
+function bigrams(text: string): string[] {
+  if (text.length < 2) return [text]
+  const result: string[] = []
+  for (let i = 0; i < text.length - 1; i++) {
+    result.push(text.slice(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * 计算两个规范化名称的相似度（Dice系数，0-1）
+ */
+export function dishSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const left = bigrams(a)
+  const right = bigrams(b)
+  const remaining = [...right]
+  let overlap = 0
+  for (const gram of left) {
+    const index = remaining.indexOf(gram)
+    if (index >= 0) {
+      overlap++
+      remaining.splice(index, 1)
+    }
+  }
+  return (2 * overlap) / (left.length + right.length)
+}
+
+/**
+ * 找出菜名的主要做法：菜名中最靠前的做法词，位置相同时取较长的
+ *
+ * @returns 做法词，看不出做法时返回null
+ */
+function findCookingMethod(name: string): string | null {
+  let method: string | null = null
+  let position = Infinity
+  for (const term of COOKING_METHODS) {
+    const index = name.indexOf(term)
+    if (index >= 0 && (index < position || (index === position && term.length > method!.length))) {
+      method = term
+      position = index
+    }
+  }
+  return method
+}
+
+/**
+ * 判断包含关系是否说明是同一道菜
+ *
+ * 多出的字都在末尾且是修饰字时视为同一道菜；否则两者都要看得出做法且做法相同。
+ */
+function isContainedVariant(shorter: string, longer: string): boolean {
+  if (longer.startsWith(shorter) && [...longer.slice(shorter.length)].every(char => TRAILING_QUALIFIERS.includes(char))) {
+    return true
+  }
+  const method = findCookingMethod(shorter)
+  return method !== null && method === findCookingMethod(longer)
+}
+
+function isSameDish(a: string, b: string): boolean {
+  if (!a || !b) return false
+  if (a === b) return true
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  if (
+    shorter.length >= MIN_CONTAINMENT_LENGTH &&
+    longer.length - shorter.length <= MAX_CONTAINMENT_LENGTH_DIFF &&
+    longer.includes(shorter)
+  ) {
+    return isContainedVariant(shorter, longer)
+  }
+
+  return dishSimilarity(a, b) >= SIMILARITY_THRESHOLD
+}
+
+export interface HistoricalMatcher {
+  /** 返回匹配到的历史菜名，未匹配返回null */
+  match(name: string): string | null
+}
+
+/**
+ * 根据食堂的历史菜单创建匹配器
+ *
+ * @param historicalMenus Canteen.historicalMenus
+ */
+export function createHistoricalMatcher(historicalMenus: string[][]): HistoricalMatcher {
+  const entries = new Map<string, string>()
+  for (const dish of historicalMenus.flat()) {
+    if (typeof dish !== 'string') continue
+    const normalized = normalizeDishName(dish)
+    if (normalized && !entries.has(normalized)) {
+      entries.set(normalized, dish.trim())
+    }
+  }
+
+  return {
+    match(name: string) {
+      const normalized = normalizeDishName(name)
+      if (!normalized) return null
+
+      const exact = entries.get(normalized)
+      if (exact) return exact
+
+      for (const [candidate, original] of entries) {
+        if (isSameDish(normalized, candidate)) {
+          return original
+        }
+      }
+      return null
+    },
+  }
+}
+
+/**
+ * 按历史菜单核实并修正菜品的历史标注
+ *
+ * @param weekMenu 解析后的一周菜单
+ * @param matcher 历史菜匹配器
+ * @param requestedRatio 用户要求的历史菜占比（百分比）
+ * @returns 修正标注后的菜单和核实结果
+ */
+export function reconcileHistoricalLabels(
+  weekMenu: WeekMenu,
+  matcher: HistoricalMatcher,
+  requestedRatio: number
+): { weekMenu: WeekMenu; result: HistoricalCheckResult } {
+  const relabeled: HistoricalRelabel[] = []
+  const corrected: WeekMenu = {}
+  let totalCount = 0
+  let historicalCount = 0
+
+  for (const day of getMenuDays(weekMenu)) {
+    corrected[day] = weekMenu[day]!.map((dish): DishItem => {
+      const matchedName = matcher.match(dish.name)
+      const isHistorical = matchedName !== null
+
+      totalCount++
+      if (isHistorical) historicalCount++
+
+      if (isHistorical !== dish.isHistorical) {
+        relabeled.push({
+          day,
+          name: dish.name,
+          labeledHistorical: dish.isHistorical,
+          matchedHistoricalDish: matchedName,
+        })
+      }
+      return { ...dish, isHistorical }
+    })
+  }
+
+  return {
+    weekMenu: corrected,
+    result: {
+      requestedRatio,
+      actualRatio: totalCount > 0 ? Math.round(historicalCount / totalCount * 1000) / 10 : 0,
+      historicalCount,
+      totalCount,
+      relabeled,
+    },
+  }
+}
+
+/**
+ * 将修正记录整理为发给模型的说明
+ */
+export function describeRelabels(relabeled: HistoricalRelabel[]): string[] {
+  return relabeled.map(item => item.labeledHistorical
+    ? `「${item.name}」标注了(历史)，但历史菜单中没有这道菜`
+    : `「${item.name}」与历史菜单中的「${item.matchedHistoricalDish}」相同，属于历史菜却没有标注(历史)`)
+}
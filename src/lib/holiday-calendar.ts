@@ -0,0 +1,197 @@
+/**
+ * 节假日日历模块
+ *
+ * 菜单可以对应到具体的一周，以这周周一的日期表示。节假日数据保存在
+ * src/data/holidays.json 中，包括法定节假日放假、调休上班和需要安排应节菜品的节日，
+ * 每年公布次年放假安排后直接修改该文件即可。放假安排尚未收录的年份，
+ * 选择日期时提示厨师长自行确认供餐日。
+ *
+ * 指定日期生成时：
+ * 1. 供餐日遇到放假自动跳过
+ * 2. 调休上班的日子即使不在供餐日中也照常供餐
+ * 3. 节日当天供餐时在当天安排应节菜品，节日放假时提前到这周之前最近的供餐日
+ *
+ * 日期统一使用北京时间的 YYYY-MM-DD 字符串。本模块不访问数据库，前端和服务端共用。
+ */
+
+import holidayData from '@/data/holidays.json'
+import { DAY_LABELS, WEEK_DAYS } from './menu-format'
+import type { CalendarEvent, WeekDay } from '@/types'
+
+interface HolidayCalendar {
+  /** 已收录放假和调休安排的年份 */
+  closureYears: number[]
+  closures: Array<{ name: string; start: string; end: string }>
+  workdays: Array<{ name: string; date: string }>
+  festivals: Array<{ name: string; date: string; dishes: string[] }>
+}
+
+const calendar: HolidayCalendar = holidayData
+
+/** 北京时间相对UTC的偏移 */
+const CHINA_TIME_OFFSET_MS = 8 * 60 * 60 * 1000
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`)
+  value.setUTCDate(value.getUTCDate() + days)
+  return value.toISOString().slice(0, 10)
+}
+
+/**
+ * 校验菜单对应周的周一日期
+ *
+ * @param raw 请求中的日期
+ * @returns 有效的周一日期（YYYY-MM-DD），格式错误或不是周一时返回null
+ */
+export function readWeekStart(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !DATE_PATTERN.test(raw)) return null
+
+  const date = new Date(`${raw}T00:00:00Z`)
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== raw) return null
+  return date.getUTCDay() === 1 ? raw : null
+}
+
+/**
+ * 获取北京时间本周的周一
+ */
+export function getCurrentWeekStart(now = new Date()): string {
+  const today = new Date(now.getTime() + CHINA_TIME_OFFSET_MS).toISOString().slice(0, 10)
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay()
+  return addDays(today, -((weekday + 6) % 7))
+}
+
+/**
+ * 获取从本周开始的若干周，用于选择菜单日期
+ */
+export function getUpcomingWeeks(count: number, now = new Date()): string[] {
+  const current = getCurrentWeekStart(now)
+  return Array.from({ length: count }, (_, index) => addWeeks(current, index))
+}
+
+/**
+ * 获取若干周之后的周一
+ */
+export function addWeeks(weekStart: string, count: number): string {
+  return addDays(weekStart, count * 7)
+}
+
+/**
+ * 获取一周中某一天的日期
+ */
+export function getDayDate(weekStart: string, day: WeekDay): string {
+  return addDays(weekStart, WEEK_DAYS.indexOf(day))
+}
+
+/**
+ * 将日期转换为"6月19日"形式
+ */
+export function formatMonthDay(date: string): string {
+  const [, month, day] = date.split('-')
+  return `${Number(month)}月${Number(day)}日`
+}
+
+/**
+ * 生成表格中某一天的表头，指定了菜单日期时带上日期，如"周一（6月15日）"
+ */
+export function formatDayTitle(day: WeekDay, weekStart?: string | null): string {
+  return weekStart ? `${DAY_LABELS[day]}（${formatMonthDay(getDayDate(weekStart, day))}）` : DAY_LABELS[day]
+}
+
+/**
+ * 生成一周的展示文字，如"6月15日–6月21日（端午节）"，括号中为这周的节假日和节日
+ */
+export function describeWeek(weekStart: string): string {
+  const weekEnd = addDays(weekStart, 6)
+  const names = new Set([
+    ...calendar.closures.filter(item => item.start <= weekEnd && item.end >= weekStart).map(item => item.name),
+    ...calendar.festivals.filter(item => item.date >= weekStart && item.date <= weekEnd).map(item => item.name),
+  ])
+  const range = `${formatMonthDay(weekStart)}–${formatMonthDay(weekEnd)}`
+  return names.size > 0 ? `${range}（${[...names].join('、')}）` : range
+}
+
+/**
+ * 找出若干周中放假安排尚未收录的年份
+ *
+ * 这些年份的放假和调休不会自动调整供餐日，节日仍按已收录的日期安排应节菜品。
+ *
+ * @param weekStart 第一周的周一（YYYY-MM-DD）
+ * @param weekCount 连续的周数，循环菜单为循环的周数
+ * @returns 未收录的年份，都已收录时返回空数组
+ */
+export function getUncoveredYears(weekStart: string, weekCount = 1): number[] {
+  const firstYear = Number(weekStart.slice(0, 4))
+  const lastYear = Number(addDays(weekStart, weekCount * 7 - 1).slice(0, 4))
+  const years: number[] = []
+  for (let year = firstYear; year <= lastYear; year++) {
+    if (!calendar.closureYears.includes(year)) years.push(year)
+  }
+  return years
+}
+
+/**
+ * 按节假日调整一周的供餐日
+ *
+ * 处理流程：
+ * 1. 逐天检查：供餐日遇到放假时跳过，不供餐的日子遇到调休上班时加上
+ * 2. 这周的节日找到安排应节菜品的供餐日：节日当天供餐就在当天，
+ *    否则提前到之前最近的供餐日，之前没有供餐日时推后到之后最近的供餐日
+ *
+ * @param weekStart 这周的周一（YYYY-MM-DD）
+ * @param serviceDays 食堂配置的供餐日
+ * @returns 调整后的供餐日和影响供餐的日期说明
+ */
+export function getWeekCalendar(
+  weekStart: string,
+  serviceDays: readonly WeekDay[]
+): { days: WeekDay[]; events: CalendarEvent[] } {
+  const days: WeekDay[] = []
+  const events: CalendarEvent[] = []
+
+  for (const day of WEEK_DAYS) {
+    const date = getDayDate(weekStart, day)
+    if (serviceDays.includes(day)) {
+      const closure = calendar.closures.find(item => item.start <= date && item.end >= date)
+      if (closure) {
+        events.push({ kind: 'closure', day, date, name: closure.name })
+      } else {
+        days.push(day)
+      }
+    } else {
+      const workday = calendar.workdays.find(item => item.date === date)
+      if (workday) {
+        days.push(day)
+        events.push({ kind: 'workday', day, date, name: workday.name })
+      }
+    }
+  }
+
+  const weekEnd = addDays(weekStart, 6)
+  for (const festival of calendar.festivals) {
+    if (festival.date < weekStart || festival.date > weekEnd) continue
+
+    const festivalIndex = WEEK_DAYS.findIndex(day => getDayDate(weekStart, day) === festival.date)
+    const target = days.filter(day => WEEK_DAYS.indexOf(day) <= festivalIndex).pop() ?? days[0]
+    if (target) {
+      events.push({ kind: 'festival', day: target, date: festival.date, name: festival.name, dishes: festival.dishes })
+    }
+  }
+
+  return { days, events }
+}
+
+/**
+ * 将影响供餐的日期转换为展示文字
+ */
+export function formatCalendarEvent(event: CalendarEvent): string {
+  switch (event.kind) {
+    case 'closure':
+      return `${DAY_LABELS[event.day]}（${formatMonthDay(event.date)}）${event.name}放假`
+    case 'workday':
+      return `${DAY_LABELS[event.day]}（${formatMonthDay(event.date)}）${event.name}上班`
+    case 'festival':
+      return `${DAY_LABELS[event.day]}安排${event.name}应节菜品：${(event.dishes || []).join('、')}`
+  }
+}
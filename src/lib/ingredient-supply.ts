@@ -0,0 +1,247 @@
+/**
+ * 食材供应模块
+ *
+ * 厨师长可以在每次生成时说明这周的食材供应情况：
+ * 1. 必用食材：库存需要消化的食材（如"冬瓜，库存50kg"），一周菜单中至少有指定道数的菜使用
+ * 2. 缺货食材：这周没有供应的食材（如"鲈鱼"），所有菜品都不能使用
+ *
+ * 两者都写入Prompt，生成后按菜名识别每道菜用到的食材，作为一条校验规则，未通过时要求AI修正。
+ * 菜名中的食材按名称和常见别名（如"西红柿"和"番茄"）识别；菜名中出现的是包含该名称的
+ * 另一种食材时（如缺货"白菜"时的"小白菜"、缺货"鸡蛋"时的"皮蛋"）不算使用。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import ingredientDatabase from '../../docs/databases.json'
+import seasonalProduce from '@/data/seasonal-produce.json'
+import type { GenerationParams, MustUseIngredient, WeekDay, WeekMenu } from '@/types'
+
+/** 必用食材和缺货食材各自最多的种数 */
+export const MAX_SUPPLY_INGREDIENTS = 10
+
+/** 必用食材一周最多要求使用的道数 */
+export const MAX_MUST_USE_COUNT = 10
+
+const MAX_INGREDIENT_NAME_LENGTH = 10
+const MAX_QUANTITY_LENGTH = 20
+
+const ingredients = ingredientDatabase['原材料'] as {
+  高频主料: Record<string, Record<string, number>>
+  低频主料: Record<string, string[]>
+}
+
+/** 原材料数据库中的全部食材，"鸡翅根/鸡翅中/鸡全翅"这类合并写法拆开，用于页面上选择 */
+export const SUPPLY_INGREDIENT_OPTIONS: string[] = [
+  ...new Set([
+    ...Object.values(ingredients['高频主料']).flatMap(category => Object.keys(category)),
+    ...Object.values(ingredients['低频主料']).flat(),
+  ].flatMap(name => name.split('/'))),
+]
+
+/** 同一种食材在菜名中的常见叫法 */
+const INGREDIENT_ALIASES: string[][] = [
+  ['西红柿', '番茄'],
+  ['土豆', '马铃薯', '洋芋'],
+  ['西蓝花', '西兰花'],
+  ['有机花菜', '花菜', '菜花', '花椰菜'],
+  ['圆白菜', '包菜', '卷心菜', '包心菜'],
+  ['鳜鱼', '桂鱼'],
+  ['黑鱼', '乌鱼'],
+  ['豇豆', '长豆角'],
+  ['青笋', '莴笋'],
+  ['鸡蛋', '蛋'],
+  ['鸡胸肉', '鸡胸'],
+  ['鸡腿肉', '鸡腿'],
+  ['鸡全翅', '鸡翅'],
+  ['鸡翅根', '翅根'],
+  ['鸡翅中', '翅中'],
+  ['猪里脊肉', '里脊'],
+  ['猪排骨', '排骨'],
+  ['五花肉', '五花'],
+  ['猪蹄', '猪脚'],
+  ['猪肘子', '肘子'],
+]
+
+/**
+ * 包含食材叫法、但指的是另一种东西的常见词，如"鸡腿菇"是菌菇、"皮蛋"不是鸡蛋
+ *
+ * 和已知食材一起在匹配前从菜名中去掉，避免误判为使用了缺货食材。
+ */
+const COMPOUND_TERMS = [
+  '鸡腿菇', '皮蛋', '松花蛋', '咸蛋', '咸鸭蛋', '鸭蛋', '鹅蛋', '鹌鹑蛋', '鸽子蛋',
+]
+
+/** 获取食材在菜名中的各种叫法，按长度倒序以便报告最具体的叫法 */
+function getIngredientTerms(ingredient: string): string[] {
+  const aliases = INGREDIENT_ALIASES.find(group => group.includes(ingredient)) ?? [ingredient]
+  return [...new Set([ingredient, ...aliases])].sort((a, b) => b.length - a.length)
+}
+
+/** 全部已知食材的叫法（包括时令食材日历中的食材和易混淆的词），用于排除包含目标叫法的其他食材 */
+const KNOWN_INGREDIENT_TERMS = [...new Set([
+  ...SUPPLY_INGREDIENT_OPTIONS,
+  ...INGREDIENT_ALIASES.flat(),
+  ...COMPOUND_TERMS,
+  ...Object.values(seasonalProduce.months).flatMap(month => [...month.vegetables, ...month.seafood]),
+])]
+
+/** 每种食材需要先从菜名中去掉的其他食材，按长度倒序 */
+const otherIngredientsCache = new Map<string, string[]>()
+
+function getOtherIngredients(ingredient: string, terms: string[]): string[] {
+  let others = otherIngredientsCache.get(ingredient)
+  if (!others) {
+    others = KNOWN_INGREDIENT_TERMS
+      .filter(other => !terms.includes(other) && terms.some(term => other.includes(term)))
+      .sort((a, b) => b.length - a.length)
+    otherIngredientsCache.set(ingredient, others)
+  }
+  return others
+}
+
+/**
+ * 在菜名中查找食材
+ *
+ * 时令食材模块也用这个函数识别菜品用到的当季、过季食材。
+ *
+ * 处理流程：
+ * 1. 去掉菜名中包含目标叫法、但属于其他食材的词（如找"白菜"时去掉"小白菜"、"娃娃菜"不受影响）
+ * 2. 依次用食材的各种叫法匹配
+ *
+ * @returns 菜名中匹配到的叫法，没有使用时返回null
+ */
+export function matchIngredient(name: string, ingredient: string): string | null {
+  const terms = getIngredientTerms(ingredient)
+  const others = getOtherIngredients(ingredient, terms)
+  // 去掉其他食材时用空格占位，避免前后文字拼接出新的匹配
+  const text = others.reduce((result, other) => result.split(other).join(' '), name)
+  return terms.find(term => text.includes(term)) ?? null
+}
+
+/**
+ * 校验并整理请求中的食材供应
+ *
+ * 食材名称去掉首尾空格，缺货食材重复时合并；必用食材的库存说明为空时去掉。
+ *
+ * @param params 请求中的生成参数
+ * @returns 整理后的生成参数，或可以直接展示给用户的错误信息
+ */
+export function readIngredientSupply(
+  params: GenerationParams
+): { params: GenerationParams; error: null } | { params: null; error: string } {
+  const rawMustUse: unknown = params.mustUseIngredients ?? []
+  const rawUnavailable: unknown = params.unavailableIngredients ?? []
+  if (!Array.isArray(rawMustUse)) {
+    return { params: null, error: '必用食材格式错误' }
+  }
+  if (!Array.isArray(rawUnavailable)) {
+    return { params: null, error: '缺货食材格式错误' }
+  }
+  if (rawMustUse.length > MAX_SUPPLY_INGREDIENTS || rawUnavailable.length > MAX_SUPPLY_INGREDIENTS) {
+    return { params: null, error: `必用食材和缺货食材各自最多设置${MAX_SUPPLY_INGREDIENTS}种` }
+  }
+
+  const readName = (raw: unknown) => {
+    const name = typeof raw === 'string' ? raw.trim() : ''
+    return name && name.length <= MAX_INGREDIENT_NAME_LENGTH ? name : null
+  }
+
+  const mustUse: MustUseIngredient[] = []
+  for (const item of rawMustUse as Array<Partial<MustUseIngredient> | null>) {
+    const name = readName(item?.name)
+    if (!name) {
+      return { params: null, error: `食材名称不能为空，且不能超过${MAX_INGREDIENT_NAME_LENGTH}个字` }
+    }
+    if (mustUse.some(entry => entry.name === name)) {
+      return { params: null, error: `必用食材「${name}」重复` }
+    }
+    const minCount = item?.minCount
+    if (!Number.isInteger(minCount) || minCount! < 1 || minCount! > MAX_MUST_USE_COUNT) {
+      return { params: null, error: `必用食材「${name}」的使用道数必须是1到${MAX_MUST_USE_COUNT}之间的整数` }
+    }
+    const quantity = typeof item?.quantity === 'string' ? item.quantity.trim() : ''
+    if (quantity.length > MAX_QUANTITY_LENGTH) {
+      return { params: null, error: `必用食材「${name}」的库存说明不能超过${MAX_QUANTITY_LENGTH}个字` }
+    }
+    mustUse.push(quantity ? { name, minCount: minCount!, quantity } : { name, minCount: minCount! })
+  }
+
+  const unavailable: string[] = []
+  for (const raw of rawUnavailable) {
+    const name = readName(raw)
+    if (!name) {
+      return { params: null, error: `食材名称不能为空，且不能超过${MAX_INGREDIENT_NAME_LENGTH}个字` }
+    }
+    if (mustUse.some(entry => entry.name === name)) {
+      return { params: null, error: `「${name}」不能同时是必用食材和缺货食材` }
+    }
+    if (!unavailable.includes(name)) {
+      unavailable.push(name)
+    }
+  }
+
+  return { params: { ...params, mustUseIngredients: mustUse, unavailableIngredients: unavailable }, error: null }
+}
+
+/**
+ * 判断生成参数中是否有食材供应要求
+ */
+export function hasIngredientSupply(params: GenerationParams): boolean {
+  return (params.mustUseIngredients?.length ?? 0) > 0 || (params.unavailableIngredients?.length ?? 0) > 0
+}
+
+/**
+ * 查找一道菜使用的缺货食材
+ *
+ * @returns 缺货食材名称，没有使用时返回null
+ */
+export function findUnavailableIngredient(name: string, params: GenerationParams): string | null {
+  return (params.unavailableIngredients || []).find(ingredient => matchIngredient(name, ingredient)) ?? null
+}
+
+/**
+ * 统计一周菜单中每种必用食材的使用道数
+ *
+ * 一道菜用到同一种食材只计一次。
+ *
+ * @param weekMenu 一周菜单
+ * @param days 需要统计的供餐日
+ * @param params 生成参数
+ * @returns 每种必用食材和实际使用的道数
+ */
+export function countMustUseIngredients(
+  weekMenu: WeekMenu,
+  days: WeekDay[],
+  params: GenerationParams
+): Array<MustUseIngredient & { count: number }> {
+  const dishes = days.flatMap(day => weekMenu[day] || [])
+  return (params.mustUseIngredients || []).map(ingredient => ({
+    ...ingredient,
+    count: dishes.filter(dish => matchIngredient(dish.name, ingredient.name)).length,
+  }))
+}
+
+/**
+ * 生成Prompt中的食材供应说明
+ *
+ * @param params 生成参数
+ * @returns 每条要求一行，没有食材供应要求时返回null
+ */
+export function buildIngredientSupplyText(params: GenerationParams): string | null {
+  const lines: string[] = []
+
+  const mustUse = params.mustUseIngredients || []
+  if (mustUse.length > 0) {
+    const items = mustUse.map(ingredient =>
+      `${ingredient.name}${ingredient.quantity ? `（库存${ingredient.quantity}）` : ''}至少${ingredient.minCount}道`
+    )
+    lines.push(`本周需要消化以下库存食材，一周菜单中使用该食材作为主料或配料的菜品不少于要求的道数，菜名中写明该食材：${items.join('、')}`)
+  }
+
+  const unavailable = params.unavailableIngredients || []
+  if (unavailable.length > 0) {
+    lines.push(`以下食材本周缺货，所有菜品都不能使用（即使【参考数据】中列出）：${unavailable.join('、')}`)
+  }
+
+  return lines.length > 0 ? lines.map((line, index) => `${index + 1}. ${line}`).join('\n') : null
+}
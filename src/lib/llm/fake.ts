@@ -0,0 +1,170 @@
+/**
+ * 本地假数据服务商
+ *
+ * 不访问任何外部服务，用内置菜品池拼出一份格式正确的一周菜单（支持多餐次）。
+ * 用于本地开发、演示环境以及没有API Key时的联调，
+ * 不保证满足历史菜占比等规则。
+ */
+
+import type { ChatCompletionResult, ChatMessage, LLMProvider, LLMProviderConfig } from './types'
+
+const DISH_POOL = {
+  mainMeat: ['可乐鸡翅', '红烧排骨', '孜然羊肉', '土豆炖牛肉', '清蒸鲈鱼', '黑椒牛柳', '香煎龙利鱼', '梅菜扣肉', '啤酒鸭', '蒜香鸡腿'],
+  halfMeat: ['青笋炒肉片', '宫保鸡丁', '木耳炒肉', '芹菜香干炒肉丝', '西葫芦炒鸡蛋', '土豆烧鸡块', '虾仁滑蛋', '蒜苔炒肉', '洋葱炒牛肉', '肉末茄子'],
+  vegetarian: ['蒜蓉西蓝花', '清炒小白菜', '干煸豆角', '手撕包菜', '醋溜土豆丝', '香菇油菜', '家常豆腐', '清炒丝瓜', '地三鲜', '蚝油生菜'],
+  cold: ['凉拌黄瓜', '凉拌木耳', '老醋花生', '皮蛋豆腐', '凉拌海带丝', '拍黄瓜', '凉拌腐竹', '麻酱豇豆', '凉拌三丝', '糖拌西红柿'],
+}
+
+const TYPE_LABELS = {
+  mainMeat: '主荤',
+  halfMeat: '半荤',
+  vegetarian: '素菜',
+  cold: '凉菜',
+} as const
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+/** Prompt中没有输出格式示例时按周一到周五生成 */
+const DEFAULT_DAYS = DAYS.slice(0, 5)
+
+type DishCounts = Record<keyof typeof TYPE_LABELS, number>
+
+/**
+ * 从Prompt中读取数量要求，读取不到时使用默认配置
+ */
+function readCounts(prompt: string): DishCounts {
+  const dishMatch = prompt.match(/每天包含(\d+)个热菜和(\d+)个凉菜/)
+  const categoryMatch = prompt.match(/(\d+)个主荤菜、(\d+)个半荤菜、(\d+)个素菜/)
+  return {
+    mainMeat: categoryMatch ? Number(categoryMatch[1]) : 3,
+    halfMeat: categoryMatch ? Number(categoryMatch[2]) : 3,
+    vegetarian: categoryMatch ? Number(categoryMatch[3]) : 2,
+    cold: dishMatch ? Number(dishMatch[2]) : 3,
+  }
+}
+
+/**
+ * 从Prompt的输出格式示例中读取供餐日
+ */
+function readDays(prompt: string): string[] {
+  const days = DAYS.filter(day => prompt.includes(`"${day}":`))
+  return days.length > 0 ? days : DEFAULT_DAYS
+}
+
+/**
+ * 读取多餐次Prompt中 `早餐：每天包含…` 形式的各餐次数量要求
+ *
+ * @returns 餐次名称到数量的映射，单餐Prompt返回null
+ */
+function readMealCounts(prompt: string): Array<{ meal: string; counts: DishCounts }> | null {
+  const matches = Array.from(prompt.matchAll(
+    /^(.+?)：每天包含(\d+)个热菜和(\d+)个凉菜，其中热菜里面包含(\d+)个主荤菜、(\d+)个半荤菜、(\d+)个素菜/gm
+  ))
+  if (matches.length === 0) return null
+
+  return matches.map(match => ({
+    meal: match[1],
+    counts: {
+      mainMeat: Number(match[4]),
+      halfMeat: Number(match[5]),
+      vegetarian: Number(match[6]),
+      cold: Number(match[3]),
+    },
+  }))
+}
+
+/**
+ * 局部重新生成时，按对话中的 `[替换 monday-2] ... → 换成一道半荤` 标记输出替换菜
+ */
+function buildReplacements(messages: ChatMessage[]): Record<string, string> | null {
+  const request = messages.filter(message => message.role === 'user').map(message => message.content).join('\n')
+  const slots = Array.from(request.matchAll(/\[替换 (\w+-\d+)\][^\n]*换成一道(主荤|半荤|素菜|凉菜)/g))
+  if (slots.length === 0) return null
+
+  const typeByLabel = Object.fromEntries(Object.entries(TYPE_LABELS).map(([type, label]) => [label, type])) as
+    Record<string, keyof typeof TYPE_LABELS>
+  const replacements: Record<string, string> = {}
+  slots.forEach(([, key, label], index) => {
+    const pool = DISH_POOL[typeByLabel[label]]
+    // 从菜品池末尾开始取，尽量避开整周生成时使用的菜
+    replacements[key] = `${pool[pool.length - 1 - (index % pool.length)]}(${label})`
+  })
+  return replacements
+}
+
+/** 流式输出时每段的字符数和间隔，模拟真实服务的输出节奏 */
+const STREAM_CHUNK_SIZE = 24
+const STREAM_INTERVAL_MS = 30
+
+export function createFakeProvider(config: LLMProviderConfig): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'fake',
+    model: config.model,
+
+    async chat(messages: ChatMessage[]): Promise<ChatCompletionResult> {
+      const startedAt = Date.now()
+      const prompt = messages.find(message => message.role === 'user')?.content || ''
+      const counts = readCounts(prompt)
+
+      const replacements = buildReplacements(messages)
+      if (replacements) {
+        return {
+          content: JSON.stringify(replacements, null, 2),
+          model: config.model,
+          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          latencyMs: Date.now() - startedAt,
+        }
+      }
+
+      // 多餐次时同一天各餐次从菜品池中依次往后取，避免同一天出现重复的菜
+      const mealCounts = readMealCounts(prompt)
+      const weekMenu: Record<string, string[] | Record<string, string[]>> = {}
+      readDays(prompt).forEach((day, dayIndex) => {
+        const used = { mainMeat: 0, halfMeat: 0, vegetarian: 0, cold: 0 }
+        const pickDishes = (mealCount: DishCounts, dailyCount: DishCounts) => {
+          const dishes: string[] = []
+          for (const type of Object.keys(TYPE_LABELS) as Array<keyof typeof TYPE_LABELS>) {
+            const pool = DISH_POOL[type]
+            for (let i = 0; i < mealCount[type]; i++) {
+              dishes.push(`${pool[(dayIndex * dailyCount[type] + used[type]++) % pool.length]}(${TYPE_LABELS[type]})`)
+            }
+          }
+          return dishes
+        }
+
+        if (mealCounts) {
+          const dailyCount = { mainMeat: 0, halfMeat: 0, vegetarian: 0, cold: 0 }
+          for (const { counts: mealCount } of mealCounts) {
+            for (const type of Object.keys(dailyCount) as Array<keyof DishCounts>) dailyCount[type] += mealCount[type]
+          }
+          weekMenu[day] = Object.fromEntries(mealCounts.map(({ meal, counts: mealCount }) => [
+            meal,
+            pickDishes(mealCount, dailyCount),
+          ]))
+        } else {
+          weekMenu[day] = pickDishes(counts, counts)
+        }
+      })
+
+      const content = JSON.stringify(weekMenu, null, 2)
+      return {
+        content,
+        model: config.model,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+        latencyMs: Date.now() - startedAt,
+      }
+    },
+
+    async stream(messages: ChatMessage[], onDelta: (delta: string) => void): Promise<ChatCompletionResult> {
+      const startedAt = Date.now()
+      const result = await provider.chat(messages)
+      for (let i = 0; i < result.content.length; i += STREAM_CHUNK_SIZE) {
+        onDelta(result.content.slice(i, i + STREAM_CHUNK_SIZE))
+        await new Promise(resolve => setTimeout(resolve, STREAM_INTERVAL_MS))
+      }
+      return { ...result, latencyMs: Date.now() - startedAt }
+    },
+  }
+
+  return provider
+}
@@ -0,0 +1,191 @@
+/**
+ * 大模型服务商入口
+ *
+ * 根据环境变量和食堂级配置选择服务商，并统一包装超时、
+ * 指数退避重试和错误分类。业务代码只需要：
+ *
+ *   const provider = getLLMProvider(canteen.llmConfig)
+ *   const result = await provider.chat(messages)
+ *
+ * 环境变量：
+ * - LLM_PROVIDER: deepseek（默认）| qwen | openai-compatible | fake
+ * - LLM_MODEL / LLM_BASE_URL / LLM_API_KEY: 覆盖服务商默认值
+ * - LLM_TEMPERATURE / LLM_MAX_TOKENS: 生成参数，默认0.7 / 4000
+ * - LLM_TIMEOUT_MS / LLM_MAX_RETRIES: 单次请求超时和临时性错误的重试次数
+ * - LLM_JSON_MODE: off | json_object | json_schema，默认按服务商（DeepSeek、通义千问为json_object，
+ *   自建OpenAI兼容服务为off，确认服务支持后再开启）
+ */
+
+import { createFakeProvider } from './fake'
+import { createOpenAICompatibleProvider } from './openai-compatible'
+import { LLMError } from './types'
+import type {
+  CanteenLLMConfig,
+  ChatCompletionResult,
+  ChatMessage,
+  ChatOptions,
+  LLMJsonMode,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+} from './types'
+
+export { LLMError } from './types'
+export type {
+  ChatCompletionResult,
+  ChatMessage,
+  ChatOptions,
+  ChatUsage,
+  CanteenLLMConfig,
+  LLMJsonMode,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderName,
+} from './types'
+
+const PROVIDER_DEFAULTS: Record<LLMProviderName, { baseUrl: string; model: string; apiKeyEnv?: string; jsonMode: LLMJsonMode }> = {
+  'deepseek': { baseUrl: 'https://api.deepseek.com', model: 'deepseek-chat', apiKeyEnv: 'DEEPSEEK_API_KEY', jsonMode: 'json_object' },
+  'qwen': { baseUrl: 'https://dashscope.aliyuncs.com/compatible-mode/v1', model: 'qwen-plus', apiKeyEnv: 'DASHSCOPE_API_KEY', jsonMode: 'json_object' },
+  'openai-compatible': { baseUrl: '', model: '', jsonMode: 'off' },
+  'fake': { baseUrl: '', model: 'fake-menu', jsonMode: 'off' },
+}
+
+const JSON_MODES: LLMJsonMode[] = ['off', 'json_object', 'json_schema']
+
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 8000
+
+function isProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && value in PROVIDER_DEFAULTS
+}
+
+function isJsonMode(value: unknown): value is LLMJsonMode {
+  return JSON_MODES.includes(value as LLMJsonMode)
+}
+
+function readNumber(value: string | number | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * 合并环境变量与食堂级配置，得到最终的服务商配置
+ *
+ * 食堂级配置只允许通过 apiKeyEnv 引用以 _API_KEY 结尾的环境变量，
+ * 避免把其他密钥发送到食堂配置的自定义地址。
+ *
+ * @param canteenConfig Canteen.llmConfig，可为空
+ * @throws Error 服务商名称无效或缺少必需配置时抛出
+ */
+export function resolveLLMConfig(canteenConfig?: CanteenLLMConfig | null): LLMProviderConfig {
+  const provider = canteenConfig?.provider || process.env.LLM_PROVIDER || 'deepseek'
+  if (!isProviderName(provider)) {
+    throw new Error(`Unknown LLM provider: ${provider}`)
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider]
+  // 服务商被食堂级配置切换时，不沿用为全局服务商准备的地址、模型和密钥
+  const useEnvOverrides = !canteenConfig?.provider || canteenConfig.provider === process.env.LLM_PROVIDER
+
+  let apiKey = useEnvOverrides ? process.env.LLM_API_KEY : undefined
+  if (canteenConfig?.apiKeyEnv) {
+    if (!canteenConfig.apiKeyEnv.endsWith('_API_KEY')) {
+      throw new Error(`Invalid apiKeyEnv: ${canteenConfig.apiKeyEnv}`)
+    }
+    apiKey = process.env[canteenConfig.apiKeyEnv]
+  } else if (!apiKey && defaults.apiKeyEnv) {
+    apiKey = process.env[defaults.apiKeyEnv]
+  }
+
+  const config: LLMProviderConfig = {
+    provider,
+    model: canteenConfig?.model || (useEnvOverrides && process.env.LLM_MODEL) || defaults.model,
+    baseUrl: canteenConfig?.baseUrl || (useEnvOverrides && process.env.LLM_BASE_URL) || defaults.baseUrl,
+    apiKey,
+    temperature: readNumber(canteenConfig?.temperature ?? process.env.LLM_TEMPERATURE, 0.7),
+    maxTokens: readNumber(canteenConfig?.maxTokens ?? process.env.LLM_MAX_TOKENS, 4000),
+    timeoutMs: readNumber(process.env.LLM_TIMEOUT_MS, 60000),
+    maxRetries: readNumber(process.env.LLM_MAX_RETRIES, 2),
+    jsonMode: defaults.jsonMode,
+  }
+
+  const jsonMode = canteenConfig?.jsonMode ?? (useEnvOverrides ? process.env.LLM_JSON_MODE : undefined)
+  if (jsonMode) {
+    if (!isJsonMode(jsonMode)) {
+      throw new Error(`Invalid LLM JSON mode: ${jsonMode}`)
+    }
+    config.jsonMode = jsonMode
+  }
+
+  if (provider !== 'fake' && (!config.baseUrl || !config.model)) {
+    throw new Error(`LLM provider ${provider} requires baseUrl and model`)
+  }
+
+  return config
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * 为服务商增加指数退避重试
+ *
+ * 只对临时性错误（超时、网络、限流、5xx）重试，
+ * 退避时间为 1s、2s、4s…（上限8s）并加入随机抖动，避免集中重试。
+ * 流式调用中途失败时会整体重试，调用方会重新收到完整输出。
+ */
+function withRetry(provider: LLMProvider, maxRetries: number): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    chat(messages: ChatMessage[], options?: ChatOptions) {
+      return retry(() => provider.chat(messages, options))
+    },
+
+    stream(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatOptions) {
+      let started = false
+      return retry(() => {
+        // 重试时服务商从头输出，通知调用方丢弃上一次已收到的片段
+        if (started) options?.onRestart?.()
+        started = true
+        return provider.stream(messages, onDelta, options)
+      })
+    },
+  }
+
+  async function retry(call: () => Promise<ChatCompletionResult>): Promise<ChatCompletionResult> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call()
+      } catch (error) {
+        const llmError = error instanceof LLMError
+          ? error
+          : new LLMError('network', (error as Error).message, provider.name)
+
+        if (!llmError.retryable || attempt >= maxRetries) {
+          throw llmError
+        }
+
+        const delay = Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS) + Math.random() * 250
+        console.warn(`LLM ${provider.name} ${llmError.kind} error, retrying in ${Math.round(delay)}ms:`, llmError.message)
+        await sleep(delay)
+      }
+    }
+  }
+}
+
+/**
+ * 获取已包装重试逻辑的服务商实例
+ *
+ * @param canteenConfig 食堂级覆盖配置，可为空
+ */
+export function getLLMProvider(canteenConfig?: CanteenLLMConfig | null): LLMProvider {
+  const config = resolveLLMConfig(canteenConfig)
+  const provider = config.provider === 'fake'
+    ? createFakeProvider(config)
+    : createOpenAICompatibleProvider(config)
+
+  return withRetry(provider, config.maxRetries)
+}
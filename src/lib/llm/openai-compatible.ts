@@ -0,0 +1,181 @@
+/**
+ * OpenAI兼容接口服务商
+ *
+ * DeepSeek、通义千问（DashScope兼容模式）以及大多数自建推理服务
+ * （vLLM、Ollama等）都实现了 /chat/completions 接口，
+ * 因此共用同一个实现，只是默认地址和模型不同。
+ */
+
+import { LLMError } from './types'
+import type { ChatCompletionResult, ChatMessage, ChatOptions, ChatUsage, LLMProvider, LLMProviderConfig } from './types'
+
+/**
+ * 根据HTTP状态码对错误进行分类
+ */
+function classifyStatus(status: number): LLMError['kind'] {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 408) return 'timeout'
+  if (status === 429) return 'rate_limit'
+  if (status >= 500) return 'server'
+  return 'bad_request'
+}
+
+function readUsage(usage: Record<string, number> | undefined): ChatUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens ?? 0,
+        completionTokens: usage.completion_tokens ?? 0,
+        totalTokens: usage.total_tokens ?? 0,
+      }
+    : undefined
+}
+
+/**
+ * 按服务商的JSON模式生成 response_format 参数，不需要时返回undefined
+ */
+function buildResponseFormat(config: LLMProviderConfig, options: ChatOptions): Record<string, unknown> | undefined {
+  if (!options.responseSchema || config.jsonMode === 'off') return undefined
+  if (config.jsonMode === 'json_object') return { type: 'json_object' }
+  return {
+    type: 'json_schema',
+    json_schema: { name: options.responseSchema.name, schema: options.responseSchema.schema, strict: true },
+  }
+}
+
+export function createOpenAICompatibleProvider(config: LLMProviderConfig): LLMProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`
+
+  /**
+   * 发送请求并处理超时
+   *
+   * 超时计时在每次收到数据时重置：普通调用等同于整体超时，
+   * 流式调用则表示两段输出之间的最长等待时间。
+   */
+  async function request<T>(
+    messages: ChatMessage[],
+    stream: boolean,
+    options: ChatOptions,
+    handle: (response: Response, touch: () => void) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController()
+    let timer = setTimeout(() => controller.abort(), config.timeoutMs)
+    const touch = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => controller.abort(), config.timeoutMs)
+    }
+
+    const responseFormat = buildResponseFormat(config, options)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: config.temperature,
+          max_tokens: config.maxTokens,
+          ...(stream ? { stream: true } : {}),
+          ...(responseFormat ? { response_format: responseFormat } : {}),
+        }),
+        signal: controller.signal,
+      })
+
+      if (!response.ok) {
+        throw new LLMError(
+          classifyStatus(response.status),
+          `${config.provider} API error: ${response.status}`,
+          config.provider,
+          response.status
+        )
+      }
+
+      return await handle(response, touch)
+    } catch (error) {
+      if (error instanceof LLMError) throw error
+      if (controller.signal.aborted) {
+        throw new LLMError('timeout', `${config.provider} request timed out after ${config.timeoutMs}ms`, config.provider)
+      }
+      throw new LLMError('network', `${config.provider} request failed: ${(error as Error).message}`, config.provider)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  return {
+    name: config.provider,
+    model: config.model,
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatCompletionResult> {
+      const startedAt = Date.now()
+      return request(messages, false, options, async response => {
+        const data = await response.json().catch(() => null)
+        const content = data?.choices?.[0]?.message?.content
+        if (typeof content !== 'string') {
+          throw new LLMError('invalid_response', `${config.provider} returned no message content`, config.provider)
+        }
+
+        return {
+          content,
+          model: data.model || config.model,
+          usage: readUsage(data.usage),
+          latencyMs: Date.now() - startedAt,
+        }
+      })
+    },
+
+    async stream(messages: ChatMessage[], onDelta: (delta: string) => void, options: ChatOptions = {}): Promise<ChatCompletionResult> {
+      const startedAt = Date.now()
+      return request(messages, true, options, async (response, touch) => {
+        if (!response.body) {
+          throw new LLMError('invalid_response', `${config.provider} returned an empty stream`, config.provider)
+        }
+
+        const reader = response.body.getReader()
+        const decoder = new TextDecoder()
+        let buffer = ''
+        let content = ''
+        let model = config.model
+        let usage: ChatUsage | undefined
+
+        // 服务端以SSE格式逐段返回，每行 `data: {...}`，以 `data: [DONE]` 结束
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          touch()
+
+          buffer += decoder.decode(value, { stream: true })
+          const lines = buffer.split('\n')
+          buffer = lines.pop() || ''
+
+          for (const line of lines) {
+            const payload = line.trim().replace(/^data:\s*/, '')
+            if (!line.trim().startsWith('data:') || payload === '[DONE]') continue
+
+            try {
+              const chunk = JSON.parse(payload)
+              const delta = chunk.choices?.[0]?.delta?.content
+              if (typeof delta === 'string' && delta) {
+                content += delta
+                onDelta(delta)
+              }
+              model = chunk.model || model
+              usage = readUsage(chunk.usage) || usage
+            } catch {
+              // 忽略无法解析的片段（如心跳注释）
+            }
+          }
+        }
+
+        if (!content) {
+          throw new LLMError('invalid_response', `${config.provider} returned no message content`, config.provider)
+        }
+
+        return { content, model, usage, latencyMs: Date.now() - startedAt }
+      })
+    },
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * 大模型服务商抽象层类型定义
+ *
+ * 菜单生成只依赖这里定义的接口，具体调用哪家服务（DeepSeek、
+ * 通义千问、自建的OpenAI兼容服务或本地假数据）由配置决定。
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ChatCompletionResult {
+  content: string
+  model: string
+  usage?: ChatUsage
+  latencyMs: number
+}
+
+export type LLMProviderName = 'deepseek' | 'qwen' | 'openai-compatible' | 'fake'
+
+/**
+ * 服务商的JSON模式
+ *
+ * - off：不使用，只靠Prompt约束输出格式
+ * - json_object：要求只输出一个JSON对象（DeepSeek、通义千问支持）
+ * - json_schema：要求输出符合给定的JSON Schema（OpenAI及部分自建推理服务支持）
+ */
+export type LLMJsonMode = 'off' | 'json_object' | 'json_schema'
+
+/** 单次调用的选项 */
+export interface ChatOptions {
+  /** 期望输出的JSON结构，按服务商的JSON模式使用，JSON模式为off时忽略 */
+  responseSchema?: { name: string; schema: Record<string, unknown> }
+  /** 流式调用因临时性错误重新开始前调用，此前收到的输出片段应当丢弃 */
+  onRestart?: () => void
+}
+
+/**
+ * 服务商配置
+ *
+ * 来自环境变量，并可被食堂级配置（Canteen.llmConfig）覆盖。
+ * API Key 不直接存库，食堂级配置只能通过 apiKeyEnv 指定读取哪个环境变量。
+ */
+export interface LLMProviderConfig {
+  provider: LLMProviderName
+  model: string
+  baseUrl: string
+  apiKey?: string
+  temperature: number
+  maxTokens: number
+  timeoutMs: number
+  maxRetries: number
+  jsonMode: LLMJsonMode
+}
+
+/** 食堂级覆盖配置，存储在 Canteen.llmConfig 中 */
+export interface CanteenLLMConfig {
+  provider?: LLMProviderName
+  model?: string
+  baseUrl?: string
+  apiKeyEnv?: string
+  temperature?: number
+  maxTokens?: number
+  jsonMode?: LLMJsonMode
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatCompletionResult>
+  /** 流式调用，每收到一段输出就回调一次，结束后返回完整结果 */
+  stream(messages: ChatMessage[], onDelta: (delta: string) => void, options?: ChatOptions): Promise<ChatCompletionResult>
+}
+
+/**
+ * 错误分类
+ *
+ * - timeout / network / rate_limit / server：临时性错误，可以退避重试
+ * - auth / bad_request / invalid_response：重试也不会成功，直接失败
+ */
+export type LLMErrorKind =
+  | 'timeout'
+  | 'network'
+  | 'rate_limit'
+  | 'server'
+  | 'auth'
+  | 'bad_request'
+  | 'invalid_response'
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['timeout', 'network', 'rate_limit', 'server']
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind
+  readonly status?: number
+  readonly provider: LLMProviderName
+
+  constructor(kind: LLMErrorKind, message: string, provider: LLMProviderName, status?: number) {
+    super(message)
+    this.name = 'LLMError'
+    this.kind = kind
+    this.status = status
+    this.provider = provider
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind)
+  }
+}
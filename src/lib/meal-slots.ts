@@ -0,0 +1,213 @@
+/**
+ * 餐次配置模块
+ *
+ * 食堂可以配置一天中的多个餐次（如早餐、午餐、晚餐），每个餐次有各自的
+ * 热菜、凉菜和主荤/半荤/素菜数量。没有配置餐次的食堂保持原来的单餐模式：
+ * 只生成午餐，数量取 Canteen.hotDishCount/coldDishCount 和生成参数中的分类数量。
+ *
+ * 生成时把选中餐次的配置快照写入 GenerationParams.mealSlots，之后的校验、
+ * 局部重新生成和手动编辑都以快照为准，不受餐次配置后续修改的影响。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import { getConfiguredServiceDays } from './service-days'
+import { getWeekCalendar, readWeekStart } from './holiday-calendar'
+import { readIngredientSupply } from './ingredient-supply'
+import { getSeasonMonth } from './seasonal-calendar'
+import { readBuffetPlan, readMealType } from './meal-type-rules'
+import { getConfiguredEquipment } from './equipment'
+import { getConfiguredMenuRules } from './menu-rules'
+import type { DishItem, GenerationParams, MealSlot } from '@/types'
+
+/** 单餐模式下的餐次名称，旧菜单中没有餐次字段的菜品都属于这一餐 */
+export const DEFAULT_MEAL_NAME = '午餐'
+
+/** 最多可配置的餐次数 */
+export const MAX_MEAL_SLOTS = 4
+
+/** 每个餐次各分类菜品数量的上限 */
+const MAX_DISHES_PER_CATEGORY = 20
+
+const COUNT_FIELDS = ['coldDishCount', 'mainMeatCount', 'halfMeatCount', 'vegetarianCount'] as const
+
+/**
+ * 校验并规范化餐次配置
+ *
+ * 处理流程：
+ * 1. 检查餐次数量和名称（非空、不重复、不超过10个字）
+ * 2. 检查各分类数量为非负整数，且每个餐次至少有一道菜
+ * 3. 热菜数量按主荤、半荤、素菜数量之和计算
+ *
+ * @param raw 请求中的餐次配置
+ * @returns 规范化后的餐次配置，或可以直接展示给用户的错误信息
+ */
+export function readMealSlots(raw: unknown): { slots: MealSlot[]; error: null } | { slots: null; error: string } {
+  if (!Array.isArray(raw)) {
+    return { slots: null, error: '餐次配置格式错误' }
+  }
+  if (raw.length > MAX_MEAL_SLOTS) {
+    return { slots: null, error: `最多配置${MAX_MEAL_SLOTS}个餐次` }
+  }
+
+  const slots: MealSlot[] = []
+  for (const item of raw) {
+    const source = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+    const name = typeof source.name === 'string' ? source.name.trim() : ''
+    if (!name || name.length > 10) {
+      return { slots: null, error: '餐次名称不能为空，且不能超过10个字' }
+    }
+    if (slots.some(slot => slot.name === name)) {
+      return { slots: null, error: `餐次「${name}」重复` }
+    }
+
+    const counts = {} as Record<(typeof COUNT_FIELDS)[number], number>
+    for (const field of COUNT_FIELDS) {
+      const value = source[field]
+      if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_DISHES_PER_CATEGORY) {
+        return { slots: null, error: `餐次「${name}」的菜品数量必须是0到${MAX_DISHES_PER_CATEGORY}之间的整数` }
+      }
+      counts[field] = value as number
+    }
+
+    const hotDishCount = counts.mainMeatCount + counts.halfMeatCount + counts.vegetarianCount
+    if (hotDishCount + counts.coldDishCount === 0) {
+      return { slots: null, error: `餐次「${name}」至少需要一道菜` }
+    }
+
+    slots.push({ name, hotDishCount, ...counts })
+  }
+
+  return { slots, error: null }
+}
+
+/**
+ * 读取食堂保存的餐次配置
+ *
+ * 数据库中的配置在保存时已经校验过，这里只做格式兜底，
+ * 没有配置或配置无效时返回空数组，表示单餐模式。
+ */
+export function getConfiguredMealSlots(raw: unknown): MealSlot[] {
+  if (!Array.isArray(raw) || raw.length === 0) return []
+  return readMealSlots(raw).slots || []
+}
+
+/**
+ * 确定本次生成的餐次和供餐日
+ *
+ * 处理流程：
+ * 1. 按食堂配置确定供餐日；指定了菜单日期时按节假日跳过放假的日子、加上调休上班的日子，
+ *    并记录这周的节假日和节日
+ * 2. 按请求中选择的餐次从食堂配置中挑出对应的餐次；没有配置餐次的食堂
+ *    清除参数中的餐次字段，按单餐模式生成
+ * 3. 把餐次、供餐日、日期、时令月份和餐制类型的快照写入生成参数
+ * 4. 校验并整理必用食材和缺货食材
+ * 5. 自助餐食堂校验备餐计划，定价餐食堂清除备餐计划
+ * 6. 登记了烹饪设备的食堂写入设备快照，不再使用设备紧缺勾选项
+ * 7. 写入食堂开菜规则设置的快照
+ *
+ * @param canteen 食堂的餐次、供餐日、设备、开菜规则配置和餐制类型
+ * @param params 请求中的生成参数
+ * @returns 补全配置快照的生成参数，或可以直接展示给用户的错误信息
+ */
+export function resolveGenerationParams(
+  canteen: { mealSlots: unknown; serviceDays: unknown; mealType: string; equipment: unknown; menuRules: unknown },
+  params: GenerationParams
+): { params: GenerationParams; error: null } | { params: null; error: string } {
+  const supply = readIngredientSupply(params)
+  if (!supply.params) {
+    return { params: null, error: supply.error }
+  }
+
+  const mealType = readMealType(canteen.mealType)
+  const buffet = mealType === '自助餐' ? readBuffetPlan(params.buffet) : { plan: null, error: null }
+  if (buffet.error !== null) {
+    return { params: null, error: buffet.error }
+  }
+
+  const resolved: GenerationParams = { ...supply.params, serviceDays: getConfiguredServiceDays(canteen.serviceDays) }
+  delete resolved.calendarEvents
+
+  if (params.weekStart !== undefined && params.weekStart !== null) {
+    const weekStart = readWeekStart(params.weekStart)
+    if (!weekStart) {
+      return { params: null, error: '菜单日期无效，请重新选择菜单对应的一周' }
+    }
+    const week = getWeekCalendar(weekStart, resolved.serviceDays!)
+    if (week.days.length === 0) {
+      return { params: null, error: '所选的一周全部为节假日，没有需要供餐的日子' }
+    }
+    Object.assign(resolved, { weekStart, serviceDays: week.days, calendarEvents: week.events })
+  }
+  resolved.seasonMonth = getSeasonMonth(resolved.weekStart)
+  resolved.mealType = mealType
+  if (buffet.plan) {
+    resolved.buffet = buffet.plan
+  } else {
+    delete resolved.buffet
+  }
+  const equipment = getConfiguredEquipment(canteen.equipment)
+  if (equipment) {
+    Object.assign(resolved, { equipment, equipmentShortage: [] })
+  } else {
+    delete resolved.equipment
+  }
+  resolved.menuRules = getConfiguredMenuRules(canteen.menuRules)
+
+  const configured = getConfiguredMealSlots(canteen.mealSlots)
+  if (configured.length === 0) {
+    delete resolved.meals
+    delete resolved.mealSlots
+    return { params: resolved, error: null }
+  }
+
+  const requested = Array.isArray(params.meals) && params.meals.length > 0 ? params.meals : null
+  const selected = requested ? configured.filter(slot => requested.includes(slot.name)) : configured
+  if (selected.length === 0) {
+    return { params: null, error: '请至少选择一个已配置的餐次' }
+  }
+
+  return { params: { ...resolved, meals: selected.map(slot => slot.name), mealSlots: selected }, error: null }
+}
+
+/**
+ * 获取生成参数对应的餐次
+ *
+ * 生成参数中有餐次快照时使用快照，否则按单餐模式构造午餐。
+ *
+ * @param canteen 食堂热菜、凉菜数量，单餐模式使用
+ * @param params 生成参数
+ */
+export function getMealSlots(
+  canteen: { hotDishCount: number; coldDishCount: number },
+  params: GenerationParams
+): MealSlot[] {
+  if (params.mealSlots && params.mealSlots.length > 0) {
+    return params.mealSlots
+  }
+
+  return [{
+    name: DEFAULT_MEAL_NAME,
+    hotDishCount: canteen.hotDishCount,
+    coldDishCount: canteen.coldDishCount,
+    mainMeatCount: params.mainMeatCount,
+    halfMeatCount: params.halfMeatCount,
+    vegetarianCount: params.vegetarianCount,
+  }]
+}
+
+/**
+ * 获取多餐次菜单的餐次名称
+ *
+ * @returns 按餐次生成时返回餐次名称，单餐模式返回null
+ */
+export function getMealNames(params: GenerationParams): string[] | null {
+  return params.mealSlots && params.mealSlots.length > 0 ? params.mealSlots.map(slot => slot.name) : null
+}
+
+/**
+ * 获取菜品所属的餐次，旧菜单中没有餐次字段的菜品属于午餐
+ */
+export function getDishMeal(dish: DishItem): string {
+  return dish.meal || DEFAULT_MEAL_NAME
+}
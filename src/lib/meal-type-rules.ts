@@ -0,0 +1,188 @@
+/**
+ * 餐制规则模块
+ *
+ * 食堂注册时选择的餐制类型决定生成时额外使用的规则：
+ * - 定价餐：按份打菜，只使用通用的开菜规则
+ * - 自助餐：菜品放在保温餐炉中由就餐者自取，要求热菜耐保温、方便夹取，凉菜以自取类为主；
+ *   可以按就餐人数估算每道菜需要准备的盘数，随菜单导出
+ *
+ * 生成时把餐制类型快照写入 GenerationParams.mealType，之后的校验和局部重新生成都以快照为准，
+ * 旧菜单没有快照时按定价餐处理。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import { getMenuDays } from './menu-format'
+import type { BuffetPlan, DishItem, DishType, GenerationParams, MealType, WeekMenu } from '@/types'
+
+export const DEFAULT_MEAL_TYPE: MealType = '定价餐'
+
+export const MEAL_TYPES: MealType[] = ['定价餐', '自助餐']
+
+/** 自助餐备餐计划的取值范围 */
+export const MAX_BUFFET_GUESTS = 5000
+export const MIN_SERVINGS_PER_TRAY = 5
+export const MAX_SERVINGS_PER_TRAY = 100
+
+/** 不适合某种餐制的菜品：菜名包含terms中的词（去掉exceptions后）即视为不适合 */
+interface DishSuitabilityCheck {
+  terms: string[]
+  exceptions: string[]
+  /** 检查的分类 */
+  types: DishType[]
+  /** 不适合的原因，用于违规说明 */
+  reason: string
+}
+
+interface MealTypeRuleSet {
+  /** 写入Prompt的额外规则，没有时不增加段落 */
+  promptRules: string[]
+  checks: DishSuitabilityCheck[]
+}
+
+const HOT_DISH_TYPES: DishType[] = ['mainMeat', 'halfMeat', 'vegetarian']
+
+/** 各餐制的规则 */
+const MEAL_TYPE_RULES: Record<MealType, MealTypeRuleSet> = {
+  定价餐: { promptRules: [], checks: [] },
+  自助餐: {
+    promptRules: [
+      '耐保温：热菜要在保温餐炉中放置1-2小时，优先选择烧、炖、焖、卤、烩等久放不影响口感的做法；不安排油炸、拔丝、脆皮等会回软的菜，不安排滑蛋、蒸蛋等嫩蛋类，素菜不用菠菜、空心菜等久放会发黄的绿叶菜',
+      '方便自取：主料切成块、段、丁、片，方便用夹子或勺子分取；不安排整条鱼、整只禽等需要分割的菜',
+      '凉菜以适合自取的拌菜、卤味、沙拉、小菜为主，可以提前备好、整盘摆放',
+      '汤汁多的菜适当收汁，避免取用时滴洒',
+    ],
+    checks: [
+      {
+        terms: ['拔丝', '脆皮', '酥炸', '干炸', '软炸', '椒盐', '锅包肉', '炸'],
+        exceptions: ['炸酱'],
+        types: HOT_DISH_TYPES,
+        reason: '油炸菜在保温餐炉中容易回软',
+      },
+      {
+        terms: ['滑蛋', '蒸蛋', '蛋羹'],
+        exceptions: [],
+        types: HOT_DISH_TYPES,
+        reason: '嫩蛋类久放容易出水变老',
+      },
+      {
+        terms: ['菠菜', '空心菜', '生菜', '油麦菜', '豌豆苗', '苋菜', '茼蒿', '小白菜', '菜心'],
+        exceptions: ['白菜心'],
+        types: HOT_DISH_TYPES,
+        reason: '绿叶菜久放容易发黄变软',
+      },
+      {
+        terms: ['松鼠', '整鱼', '全鱼', '清蒸鲈鱼', '清蒸鳜鱼', '清蒸鱼', '烤全'],
+        exceptions: [],
+        types: [...HOT_DISH_TYPES, 'cold'],
+        reason: '整条、整只的菜需要分割，不方便自取',
+      },
+    ],
+  },
+}
+
+/**
+ * 每位就餐者每餐各类菜品的取用份数，平均分到同一餐同一分类的每道菜上
+ */
+const SERVINGS_PER_GUEST: Record<DishType, number> = {
+  mainMeat: 1.2,
+  halfMeat: 1,
+  vegetarian: 1,
+  cold: 0.8,
+}
+
+/**
+ * 将食堂记录中的餐制类型转换为已知的类型，无法识别时按定价餐处理
+ */
+export function readMealType(raw: unknown): MealType {
+  return MEAL_TYPES.find(type => type === raw) ?? DEFAULT_MEAL_TYPE
+}
+
+/**
+ * 获取生成参数对应的餐制类型，旧菜单没有快照时为定价餐
+ */
+export function getMealType(params: GenerationParams): MealType {
+  return readMealType(params.mealType)
+}
+
+/**
+ * 校验请求中的自助餐备餐计划
+ *
+ * @param raw 请求中的备餐计划，不填时为空
+ * @returns 备餐计划（不填时为null），或可以直接展示给用户的错误信息
+ */
+export function readBuffetPlan(raw: unknown): { plan: BuffetPlan | null; error: null } | { plan: null; error: string } {
+  if (raw === undefined || raw === null) {
+    return { plan: null, error: null }
+  }
+  const { guestCount, servingsPerTray } = raw as Partial<BuffetPlan>
+  if (!Number.isInteger(guestCount) || guestCount! < 1 || guestCount! > MAX_BUFFET_GUESTS) {
+    return { plan: null, error: `就餐人数必须是1到${MAX_BUFFET_GUESTS}之间的整数` }
+  }
+  if (!Number.isInteger(servingsPerTray) || servingsPerTray! < MIN_SERVINGS_PER_TRAY || servingsPerTray! > MAX_SERVINGS_PER_TRAY) {
+    return { plan: null, error: `每盘份数必须是${MIN_SERVINGS_PER_TRAY}到${MAX_SERVINGS_PER_TRAY}之间的整数` }
+  }
+  return { plan: { guestCount: guestCount!, servingsPerTray: servingsPerTray! }, error: null }
+}
+
+/**
+ * 生成Prompt中的餐制要求
+ *
+ * @returns 每条要求一行，餐制没有额外规则时返回null
+ */
+export function buildMealTypeText(params: GenerationParams): string | null {
+  const rules = MEAL_TYPE_RULES[getMealType(params)].promptRules
+  return rules.length > 0 ? rules.map((rule, index) => `${index + 1}. ${rule}`).join('\n') : null
+}
+
+/**
+ * 判断餐制是否有菜品适宜性检查，没有时不加入校验报告
+ */
+export function hasMealTypeChecks(params: GenerationParams): boolean {
+  return MEAL_TYPE_RULES[getMealType(params)].checks.length > 0
+}
+
+/**
+ * 检查一道菜是否适合当前餐制
+ *
+ * @returns 不适合的原因，适合时返回null
+ */
+export function findMealTypeIssue(dish: DishItem, params: GenerationParams): string | null {
+  for (const check of MEAL_TYPE_RULES[getMealType(params)].checks) {
+    if (!check.types.includes(dish.type)) continue
+    // 去掉例外词时用空格占位，避免前后文字拼接出新的匹配
+    const text = check.exceptions.reduce((result, exception) => result.split(exception).join(' '), dish.name)
+    if (check.terms.some(term => text.includes(term))) {
+      return check.reason
+    }
+  }
+  return null
+}
+
+/**
+ * 按自助餐备餐计划估算每道菜需要准备的盘数
+ *
+ * 每位就餐者各类菜品的取用份数平均分到同一天、同一餐次、同一分类的每道菜上，
+ * 再按每盘份数向上取整，每道菜至少1盘。
+ *
+ * @param weekMenu 一周菜单
+ * @param plan 备餐计划
+ * @returns 每道菜的盘数，以菜品对象为键
+ */
+export function planBuffetTrays(weekMenu: WeekMenu, plan: BuffetPlan): Map<DishItem, number> {
+  const trays = new Map<DishItem, number>()
+  for (const day of getMenuDays(weekMenu)) {
+    const groups = new Map<string, DishItem[]>()
+    for (const dish of weekMenu[day]!) {
+      const key = `${dish.meal ?? ''}-${dish.type}`
+      groups.set(key, [...(groups.get(key) || []), dish])
+    }
+    for (const dishes of groups.values()) {
+      for (const dish of dishes) {
+        const servings = plan.guestCount * SERVINGS_PER_GUEST[dish.type] / dishes.length
+        trays.set(dish, Math.max(1, Math.ceil(servings / plan.servingsPerTray)))
+      }
+    }
+  }
+  return trays
+}
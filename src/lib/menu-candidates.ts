@@ -0,0 +1,112 @@
+/**
+ * 候选菜单模块
+ *
+ * 厨师长可以一次生成多份候选菜单，逐天对比后选用其中一份，
+ * 或者把不同方案中满意的几天组合成一份菜单。主要功能：
+ * 1. 为每份候选方案提供不同的侧重点，让并行生成的方案之间有明显区别
+ * 2. 按规则校验和近期重复情况给候选方案打分
+ * 3. 按厨师长的选择组合菜单，并重新核实历史标注和校验规则
+ */
+
+import type { Canteen } from '@prisma/client'
+import { getMenuDays } from './menu-format'
+import { createHistoricalMatcher, reconcileHistoricalLabels } from './historical-matcher'
+import { countViolations, validateWeekMenu } from './menu-validator'
+import { findRecentRepeats, loadRecentDishes } from './repeat-check'
+import type {
+  CandidateSelection, GenerationParams, HistoricalCheckResult, MenuCandidate,
+  MenuValidationReport, RepeatCheckResult, WeekMenu
+} from '@/types'
+
+/** 一次最多生成的候选方案数，每份方案都单独计入生成配额 */
+export const MAX_CANDIDATES = 3
+
+/** 各份候选方案的侧重点，并行生成时互相看不到对方的结果，靠侧重点拉开差异 */
+const CANDIDATE_FOCUSES = [
+  '以食堂就餐者熟悉的家常经典菜为主，口味稳妥',
+  '多安排地方特色菜和新颖的搭配，给就餐者新鲜感',
+  '侧重时令蔬菜和清淡健康的做法，控制油盐',
+]
+
+/**
+ * 构建候选方案的附加说明
+ *
+ * 附加在Prompt末尾，只在同时生成多份方案时使用。
+ *
+ * @param index 第几份方案（从0开始）
+ * @param total 方案总数
+ */
+export function buildCandidateVariation(index: number, total: number): string {
+  return `【候选方案】
+这是同时生成的${total}份候选方案中的第${index + 1}份，厨师长会对比后选用。本方案请${CANDIDATE_FOCUSES[index % CANDIDATE_FOCUSES.length]}，在满足以上所有规则的前提下，尽量选用与常见搭配不同的菜品。`
+}
+
+/**
+ * 计算菜单得分
+ *
+ * 满分100，每个违规项扣10分，每道与近期菜单重复的原创菜扣5分，最低0分。
+ * 用于在候选方案之间直观比较，扣分口径与生成时挑选最佳结果一致。
+ */
+export function scoreMenu(validation: MenuValidationReport, repeatCheck: RepeatCheckResult): number {
+  return Math.max(0, 100 - countViolations(validation) * 10 - repeatCheck.repeats.length * 5)
+}
+
+/**
+ * 按选择组合候选方案
+ *
+ * @param candidates 候选方案
+ * @param selection 每个供餐日选用的方案序号，必须指向生成成功的方案，不能包含供餐日以外的日子
+ * @returns 组合后的一周菜单和用到的方案，选择无效时返回null
+ */
+export function mergeCandidates(
+  candidates: MenuCandidate[],
+  selection: CandidateSelection
+): { weekMenu: WeekMenu; used: MenuCandidate[] } | null {
+  // 同一任务的候选方案供餐日相同，以任意一份成功的方案为准
+  const days = getMenuDays(candidates.find(candidate => candidate.weekMenu)?.weekMenu ?? {})
+  if (days.length === 0) return null
+  if (Object.keys(selection).some(day => !days.includes(day as keyof WeekMenu))) return null
+
+  const weekMenu: WeekMenu = {}
+  const used = new Set<MenuCandidate>()
+  for (const day of days) {
+    const index = selection[day]
+    const candidate = index === undefined ? undefined : candidates[index]
+    if (!candidate?.weekMenu) return null
+    weekMenu[day] = candidate.weekMenu[day]
+    used.add(candidate)
+  }
+  return { weekMenu, used: [...used] }
+}
+
+/**
+ * 重新评估组合后的菜单
+ *
+ * 组合后一周的历史菜数量、跨天的重复等都可能变化，
+ * 因此按与生成时相同的口径重新核实历史标注、校验规则和检查近期重复。
+ *
+ * @param canteen 食堂记录
+ * @param weekMenu 组合后的菜单
+ * @param params 生成参数
+ */
+export async function evaluateWeekMenu(
+  canteen: Canteen,
+  weekMenu: WeekMenu,
+  params: GenerationParams
+): Promise<{
+  weekMenu: WeekMenu
+  validation: MenuValidationReport
+  historicalCheck: HistoricalCheckResult
+  repeatCheck: RepeatCheckResult
+}> {
+  const matcher = createHistoricalMatcher(canteen.historicalMenus as string[][])
+  const reconciled = reconcileHistoricalLabels(weekMenu, matcher, params.historicalRatio)
+  const recentDishes = await loadRecentDishes(canteen.id, canteen.repeatAvoidanceWeeks)
+
+  return {
+    weekMenu: reconciled.weekMenu,
+    validation: validateWeekMenu(reconciled.weekMenu, canteen, params),
+    historicalCheck: reconciled.result,
+    repeatCheck: findRecentRepeats(reconciled.weekMenu, recentDishes, canteen.repeatAvoidanceWeeks),
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * 多周循环菜单模块
+ *
+ * 团餐合同通常要求提前报批一套4周左右轮换的循环菜单。循环菜单一次生成连续的几周：
+ * 1. 第1周按请求的生成参数确定供餐日，之后各周的日期依次顺延一周，
+ *    按节假日重新确定各自的供餐日
+ * 2. 各周依次生成，每周都不能使用之前各周的菜品，历史菜占比按每周单独计算
+ * 3. 全部生成后保存为一条循环记录和关联的各周菜单，每周菜单仍可单独编辑、重新生成
+ *
+ * 循环中任何一周生成失败时整个循环失败，不保存不完整的循环。
+ */
+
+import type { Canteen } from '@prisma/client'
+import { prisma } from './db'
+import { getMenuDays, normalizeWeekMenu } from './menu-format'
+import { addWeeks } from './holiday-calendar'
+import { resolveGenerationParams } from './meal-slots'
+import { normalizeDishName } from './historical-matcher'
+import { validateWeekMenu } from './menu-validator'
+import { checkSeasonalIngredients } from './seasonal-calendar'
+import { linkRunToMenu } from './generation-run'
+import { archiveExpiredMenus } from './menu-retention'
+import { MenuGenerationError, createGeneratedMenu, generateWeekMenu } from './menu-generation'
+import type { GenerationResult } from './menu-generation'
+import type { CycleDish, GenerationParams, MenuCycle, WeekMenu } from '@/types'
+
+/** 循环菜单最多的周数 */
+export const MAX_CYCLE_WEEKS = 4
+
+/**
+ * 确定循环菜单各周的生成参数
+ *
+ * 第1周使用已经按食堂配置补全的参数，之后各周的菜单日期依次顺延一周，
+ * 按食堂配置和节假日重新确定供餐日；没有指定日期时各周参数相同。
+ *
+ * @param canteen 食堂的餐次、供餐日、设备、开菜规则配置和餐制类型
+ * @param params 第1周的生成参数
+ * @param weekCount 循环的周数
+ * @returns 各周的生成参数，或可以直接展示给用户的错误信息
+ */
+export function resolveCycleParams(
+  canteen: { mealSlots: unknown; serviceDays: unknown; mealType: string; equipment: unknown; menuRules: unknown },
+  params: GenerationParams,
+  weekCount: number
+): { weeks: GenerationParams[]; error: null } | { weeks: null; error: string } {
+  const weeks: GenerationParams[] = [params]
+
+  for (let index = 1; index < weekCount; index++) {
+    if (!params.weekStart) {
+      weeks.push(params)
+      continue
+    }
+
+    const weekStart = addWeeks(params.weekStart, index)
+    const { params: weekParams, error } = resolveGenerationParams(canteen, { ...params, weekStart })
+    if (!weekParams) {
+      return { weeks: null, error: `循环第${index + 1}周：${error}` }
+    }
+    weeks.push(weekParams)
+  }
+
+  return { weeks, error: null }
+}
+
+/**
+ * 收集循环中各周用过的菜品
+ *
+ * 同一道菜出现在多周时记为第一次出现的那一周。
+ *
+ * @param weeks 按周次排序的各周菜单
+ * @returns 按规范化菜名索引的菜品
+ */
+export function collectCycleDishes(weeks: Array<{ cycleWeek: number; weekMenu: WeekMenu }>): Map<string, CycleDish> {
+  const dishes = new Map<string, CycleDish>()
+  for (const { cycleWeek, weekMenu } of weeks) {
+    for (const day of getMenuDays(weekMenu)) {
+      for (const dish of weekMenu[day]!) {
+        const key = normalizeDishName(dish.name)
+        if (!dishes.has(key)) {
+          dishes.set(key, { name: dish.name, week: cycleWeek })
+        }
+      }
+    }
+  }
+  return dishes
+}
+
+/**
+ * 读取循环中其他各周用过的菜品
+ *
+ * 单独重新生成循环中的某一周时，替换菜不能与其他各周（包括之后的周）重复。
+ *
+ * @param cycleId 循环记录ID
+ * @param menuId 正在修改的菜单ID，不计入
+ * @param hotDishCount 食堂热菜数量，用于读取旧格式的菜单
+ * @returns 按规范化菜名索引的菜品
+ */
+export async function loadCycleDishes(
+  cycleId: string,
+  menuId: string,
+  hotDishCount: number
+): Promise<Map<string, CycleDish>> {
+  const menus = await prisma.menu.findMany({
+    where: { cycleId, id: { not: menuId } },
+    orderBy: { cycleWeek: 'asc' },
+    select: { cycleWeek: true, weekMenu: true },
+  })
+
+  return collectCycleDishes(menus.map((menu, index) => ({
+    cycleWeek: menu.cycleWeek ?? index + 1,
+    weekMenu: normalizeWeekMenu(menu.weekMenu, hotDishCount),
+  })))
+}
+
+/**
+ * 依次生成循环菜单的各周
+ *
+ * 处理流程：
+ * 1. 按周次依次生成，每周的Prompt中列出之前各周用过的菜品
+ * 2. 与之前各周重复作为校验规则，未通过时和其他规则一样要求AI修正
+ * 3. 每完成一周通过回调报告进度
+ *
+ * @param canteen 食堂记录
+ * @param weeks 各周的生成参数
+ * @param onWeekDone 每完成一周的回调，参数为已完成的周数
+ * @returns 各周的生成结果，尚未保存到数据库
+ * @throws MenuGenerationError 任何一周生成失败时抛出，说明是第几周
+ */
+export async function generateMenuCycle(
+  canteen: Canteen,
+  weeks: GenerationParams[],
+  onWeekDone?: (completedWeeks: number) => void
+): Promise<GenerationResult[]> {
+  const results: GenerationResult[] = []
+  const usedDishes = new Map<string, CycleDish>()
+
+  for (const [index, params] of weeks.entries()) {
+    const week = index + 1
+    let result: GenerationResult
+    try {
+      result = await generateWeekMenu(canteen, params, {
+        cycle: { week, weekCount: weeks.length, usedDishes: new Map(usedDishes) },
+      })
+    } catch (error) {
+      if (error instanceof MenuGenerationError) {
+        throw new MenuGenerationError(`循环第${week}周：${error.message}`, error.status)
+      }
+      throw error
+    }
+
+    for (const [key, dish] of collectCycleDishes([{ cycleWeek: week, weekMenu: result.weekMenu }])) {
+      if (!usedDishes.has(key)) {
+        usedDishes.set(key, dish)
+      }
+    }
+    results.push(result)
+    onWeekDone?.(week)
+  }
+
+  return results
+}
+
+/**
+ * 保存循环菜单
+ *
+ * 处理流程：
+ * 1. 在同一事务中创建循环记录和各周菜单，任何一周保存失败时整个循环都不保存
+ * 2. 关联各周的生成记录
+ * 3. 按食堂的保留份数归档一次旧菜单，新保存的各周始终保留
+ *
+ * @param canteen 食堂ID和保留份数
+ * @param weeks 各周的生成参数
+ * @param results 各周的生成结果
+ * @returns 循环记录ID和各周菜单ID
+ */
+export async function saveMenuCycle(
+  canteen: { id: string; menuRetentionCount: number },
+  weeks: GenerationParams[],
+  results: GenerationResult[]
+): Promise<{ cycleId: string; menuIds: string[] }> {
+  const first = weeks[0]
+  const { cycleId, menuIds } = await prisma.$transaction(async tx => {
+    const cycle = await tx.menuCycle.create({
+      data: {
+        canteenId: canteen.id,
+        weekCount: weeks.length,
+        startWeek: first.weekStart ? new Date(`${first.weekStart}T00:00:00+08:00`) : null,
+        generationParams: first as object,
+      },
+    })
+
+    const ids: string[] = []
+    for (const [index, result] of results.entries()) {
+      const menu = await createGeneratedMenu(tx, canteen.id, result.weekMenu, weeks[index], { id: cycle.id, week: index + 1 })
+      ids.push(menu.id)
+    }
+    return { cycleId: cycle.id, menuIds: ids }
+  })
+
+  for (const [index, result] of results.entries()) {
+    await linkRunToMenu(result.runId, menuIds[index])
+  }
+
+  const archived = await archiveExpiredMenus(canteen.id, canteen.menuRetentionCount, menuIds)
+  if (archived > 0) {
+    console.log(`Archived ${archived} menus beyond retention of ${canteen.menuRetentionCount} for canteen ${canteen.id}`)
+  }
+
+  return { cycleId, menuIds }
+}
+
+/**
+ * 获取循环菜单及各周菜单
+ *
+ * 各周菜单可能已经单独编辑过，读取时按当前内容重新校验，
+ * 包括与之前各周菜品不重复。
+ *
+ * @param cycleId 循环记录ID
+ * @param canteen 食堂热菜、凉菜数量，循环不属于该食堂时视为不存在
+ * @returns 循环菜单，不存在时返回null
+ */
+export async function getMenuCycle(
+  cycleId: string,
+  canteen: { id: string; hotDishCount: number; coldDishCount: number }
+): Promise<MenuCycle | null> {
+  const cycle = await prisma.menuCycle.findUnique({
+    where: { id: cycleId },
+    include: { menus: { orderBy: { cycleWeek: 'asc' } } },
+  })
+  if (!cycle || cycle.canteenId !== canteen.id) return null
+
+  const previous: Array<{ cycleWeek: number; weekMenu: WeekMenu }> = []
+  const weeks = cycle.menus.map(menu => {
+    const cycleWeek = menu.cycleWeek ?? previous.length + 1
+    const weekMenu = normalizeWeekMenu(menu.weekMenu, canteen.hotDishCount)
+    const generationParams = menu.generationParams as unknown as GenerationParams
+    const validation = validateWeekMenu(weekMenu, canteen, generationParams, collectCycleDishes(previous))
+    previous.push({ cycleWeek, weekMenu })
+    const seasonalCheck = checkSeasonalIngredients(weekMenu, generationParams)
+    return { menuId: menu.id, cycleWeek, weekMenu, generationParams, validation, seasonalCheck }
+  })
+
+  return {
+    id: cycle.id,
+    weekCount: cycle.weekCount,
+    startWeek: (cycle.generationParams as unknown as GenerationParams).weekStart ?? null,
+    weeks,
+    createdAt: cycle.createdAt,
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * 菜单Excel导出模块
+ *
+ * 将一周菜单整理为厨房可直接使用的表格：横轴为菜单的供餐日，纵轴按主荤、半荤、素菜、凉菜分区，
+ * 多餐次菜单在最左侧增加餐次列，先按餐次再按分类分区。多周循环菜单每周一个工作表。
+ * 自助餐菜单填写了备餐计划时，每道菜后标注需要准备的盘数。
+ *
+ * 在浏览器中生成文件并下载，前端页面共用。
+ */
+
+import * as XLSX from 'xlsx'
+import { DISH_TYPE_LABELS, buildWeekMenuRows, getMenuDays } from './menu-format'
+import { formatDayTitle } from './holiday-calendar'
+import { planBuffetTrays } from './meal-type-rules'
+import type { BuffetPlan, WeekMenu } from '@/types'
+
+/** 一个工作表的菜单 */
+export interface MenuSheet {
+  name: string
+  weekMenu: WeekMenu
+  /** 菜单对应周的周一，指定了日期时表头带上日期 */
+  weekStart: string | null
+  /** 自助餐的备餐计划，提供时标注每道菜的盘数 */
+  buffet?: BuffetPlan | null
+}
+
+/**
+ * 将一周菜单转换为表格数据
+ *
+ * 处理流程：
+ * 1. 使用与页面表格相同的分组行结构
+ * 2. 每个餐次、每个分类只在第一行标注名称
+ * 3. 历史菜在菜名后标注(历史)，便于厨房识别
+ * 4. 自助餐标注每道菜的盘数，并在表格末尾注明估算依据
+ */
+function buildSheetData({ weekMenu, weekStart, buffet }: MenuSheet): string[][] {
+  const rows = buildWeekMenuRows(weekMenu)
+  const trays = buffet ? planBuffetTrays(weekMenu, buffet) : null
+  const days = getMenuDays(weekMenu)
+  const multiMeal = rows.some(row => row.meal !== null)
+
+  // 创建表头 - 第一行为各供餐日，指定了菜单日期时带上日期
+  const data = [[...(multiMeal ? ['餐次'] : []), '', ...days.map(day => formatDayTitle(day, weekStart))]]
+
+  // 按餐次、分类添加菜品行
+  for (const row of rows) {
+    data.push([
+      ...(multiMeal ? [row.isFirstOfMeal ? row.meal ?? '' : ''] : []),
+      row.isFirstOfType ? DISH_TYPE_LABELS[row.type] : '',  // 只在第一行显示分类标签
+      ...days.map(day => {
+        const dish = row.dishes[day]
+        if (!dish) return ''
+        const tray = trays?.get(dish)
+        return `${dish.name}${dish.isHistorical ? '(历史)' : ''}${tray ? ` ×${tray}盘` : ''}`
+      }),
+    ])
+  }
+
+  if (buffet) {
+    data.push([])
+    data.push([`盘数按每餐${buffet.guestCount}人就餐、每盘${buffet.servingsPerTray}份估算`])
+  }
+
+  return data
+}
+
+/**
+ * 导出菜单到Excel文件并下载
+ *
+ * @param sheets 每个工作表的菜单，按顺序排列
+ * @param fileName 下载的文件名
+ */
+export function exportMenuWorkbook(sheets: MenuSheet[], fileName: string): void {
+  const workbook = XLSX.utils.book_new()
+  for (const sheet of sheets) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildSheetData(sheet)), sheet.name)
+  }
+  XLSX.writeFile(workbook, fileName)
+}
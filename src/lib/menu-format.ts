@@ -0,0 +1,315 @@
+/**
+ * 菜品数据格式转换模块
+ *
+ * 系统内部统一使用结构化的 DishItem（名称、分类、是否历史菜、餐次），
+ * 只在与AI交互和导出时才转换为 `可乐鸡翅(主荤)(历史)` 形式的标注字符串。
+ * 同时负责把旧版本保存的字符串菜单转换为结构化数据。
+ *
+ * 多餐次菜单中每天的菜品仍是一个数组，按 DishItem.meal 区分餐次，
+ * 只在与AI交互时转换为按餐次嵌套的结构。
+ *
+ * 菜单只包含食堂供餐的日子（旧菜单为周一到周五），遍历菜单时使用
+ * getMenuDays 取得菜单中实际包含的日子。
+ */
+
+import type { DishItem, DishType, WeekDay, WeekMenu } from '@/types'
+
+/** 一周七天的顺序，菜单只包含其中食堂供餐的日子 */
+export const WEEK_DAYS: readonly WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+/** 未配置供餐日的食堂和旧菜单使用周一到周五 */
+export const DEFAULT_SERVICE_DAYS: readonly WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+
+export const DAY_LABELS: Record<WeekDay, string> = {
+  monday: '周一',
+  tuesday: '周二',
+  wednesday: '周三',
+  thursday: '周四',
+  friday: '周五',
+  saturday: '周六',
+  sunday: '周日',
+}
+
+/** 菜品分类及展示顺序 */
+export const DISH_TYPES: DishType[] = ['mainMeat', 'halfMeat', 'vegetarian', 'cold']
+
+export const DISH_TYPE_LABELS: Record<DishType, string> = {
+  mainMeat: '主荤',
+  halfMeat: '半荤',
+  vegetarian: '素菜',
+  cold: '凉菜',
+}
+
+const TYPE_BY_LABEL: Record<string, DishType> = {
+  '主荤': 'mainMeat',
+  '主荤菜': 'mainMeat',
+  '半荤': 'halfMeat',
+  '半荤菜': 'halfMeat',
+  '素菜': 'vegetarian',
+  '素': 'vegetarian',
+  '凉菜': 'cold',
+}
+
+/**
+ * 解析带标注的菜品字符串
+ *
+ * 将 `可乐鸡翅(主荤)(历史)` 形式的字符串拆分为结构化的菜品信息。
+ * 兼容全角括号，无法识别分类时type为null。
+ *
+ * @param dish AI返回或旧版本保存的菜品字符串
+ * @returns 菜品名称、分类和历史标记
+ */
+export function parseDishLabel(dish: string): { name: string; type: DishType | null; isHistorical: boolean } {
+  const normalized = dish.replace(/（/g, '(').replace(/）/g, ')').trim()
+  const tags = Array.from(normalized.matchAll(/\(([^()]*)\)/g)).map(match => match[1].trim())
+  const name = normalized.replace(/\([^()]*\)/g, '').trim()
+
+  let type: DishType | null = null
+  for (const tag of tags) {
+    if (TYPE_BY_LABEL[tag]) {
+      type = TYPE_BY_LABEL[tag]
+    }
+  }
+
+  return {
+    name,
+    type,
+    isHistorical: tags.includes('历史'),
+  }
+}
+
+/**
+ * 将菜品转换为带标注的字符串
+ *
+ * 用于向AI回传上一次的菜单以及Excel导出。
+ */
+export function formatDishLabel(dish: DishItem): string {
+  return `${dish.name}(${DISH_TYPE_LABELS[dish.type]})${dish.isHistorical ? '(历史)' : ''}`
+}
+
+/**
+ * 将任意形式的菜品数据转换为 DishItem
+ *
+ * 接受标注字符串或对象两种形式，无法识别分类时返回null。
+ */
+export function toDishItem(value: unknown): DishItem | null {
+  if (typeof value === 'string') {
+    const parsed = parseDishLabel(value)
+    return parsed.name && parsed.type ? { name: parsed.name, type: parsed.type, isHistorical: parsed.isHistorical } : null
+  }
+
+  if (value && typeof value === 'object') {
+    const { name, type, isHistorical, meal } = value as Record<string, unknown>
+    const dishType = typeof type === 'string'
+      ? (DISH_TYPES.includes(type as DishType) ? type as DishType : TYPE_BY_LABEL[type])
+      : undefined
+    if (typeof name === 'string' && name.trim() && dishType) {
+      const item: DishItem = { name: name.trim(), type: dishType, isHistorical: isHistorical === true }
+      if (typeof meal === 'string' && meal.trim()) {
+        item.meal = meal.trim()
+      }
+      return item
+    }
+  }
+
+  return null
+}
+
+/**
+ * 将一天的AI输出转换为 DishItem 列表
+ *
+ * 单餐模式下每天是菜品数组；多餐次时每天是以餐次名称为键的对象，
+ * 转换后的菜品带上所属餐次。只有一个餐次时也接受数组形式。
+ *
+ * @param value 某一天的原始数据
+ * @param meals 本次生成的餐次名称，单餐模式为null
+ * @returns 菜品列表，缺少餐次或菜品无法识别分类时返回null
+ */
+export function toDayDishes(value: unknown, meals: string[] | null): DishItem[] | null {
+  const convert = (dishes: unknown, meal?: string): DishItem[] | null => {
+    if (!Array.isArray(dishes)) return null
+    const items = dishes.map(toDishItem)
+    if (items.some(item => item === null)) return null
+    return (items as DishItem[]).map(item => (meal ? { ...item, meal } : item))
+  }
+
+  if (!meals) return convert(value)
+  if (Array.isArray(value)) return meals.length === 1 ? convert(value, meals[0]) : null
+  if (!value || typeof value !== 'object') return null
+
+  const dishes: DishItem[] = []
+  for (const meal of meals) {
+    const items = convert((value as Record<string, unknown>)[meal], meal)
+    if (!items) return null
+    dishes.push(...items)
+  }
+  return dishes
+}
+
+/**
+ * 获取菜单包含的日子，按周一到周日的顺序排列
+ */
+export function getMenuDays(weekMenu: WeekMenu): WeekDay[] {
+  return WEEK_DAYS.filter(day => Array.isArray(weekMenu[day]))
+}
+
+/**
+ * 将供餐日列表转换为展示文字，如"周一至周五"、"周一、周三、周五"
+ */
+export function formatServiceDays(days: readonly WeekDay[]): string {
+  const indexes = days.map(day => WEEK_DAYS.indexOf(day))
+  const consecutive = indexes.every((value, i) => i === 0 || value === indexes[i - 1] + 1)
+  if (days.length >= 3 && consecutive) {
+    return `${DAY_LABELS[days[0]]}至${DAY_LABELS[days[days.length - 1]]}`
+  }
+  return days.map(day => DAY_LABELS[day]).join('、')
+}
+
+/**
+ * 将一周菜单转换为发给AI的标注字符串结构
+ *
+ * 与Prompt中要求的输出格式一致：单餐模式每天是数组，多餐次时按餐次嵌套。
+ *
+ * @param weekMenu 一周菜单
+ * @param meals 餐次名称，单餐模式为null
+ */
+export function serializeWeekMenu(weekMenu: WeekMenu, meals: string[] | null): Record<string, unknown> {
+  return Object.fromEntries(getMenuDays(weekMenu).map(day => {
+    const dishes = weekMenu[day] || []
+    if (!meals) return [day, dishes.map(formatDishLabel)]
+    return [day, Object.fromEntries(meals.map(meal => [
+      meal,
+      dishes.filter(dish => dish.meal === meal).map(formatDishLabel),
+    ]))]
+  }))
+}
+
+/**
+ * 判断存储的菜单是否为旧版本的字符串格式
+ */
+export function isLegacyWeekMenu(raw: unknown): boolean {
+  if (!raw || typeof raw !== 'object') return false
+  return WEEK_DAYS.some(day => {
+    const dishes = (raw as Record<string, unknown>)[day]
+    return Array.isArray(dishes) && dishes.some(dish => typeof dish === 'string')
+  })
+}
+
+/**
+ * 将数据库中的菜单数据规范化为结构化的 WeekMenu
+ *
+ * 旧版本保存的字符串菜单在读取时即时转换；缺少分类标注的旧数据
+ * 按所在位置推断：热菜区的归为素菜，凉菜区的归为凉菜。
+ * 只保留原始数据中包含的日子，一天都没有时按周一到周五返回空菜单。
+ *
+ * @param raw Menu.weekMenu 字段的原始JSON
+ * @param hotDishCount 食堂热菜数量，用于推断缺少标注的旧数据
+ */
+export function normalizeWeekMenu(raw: unknown, hotDishCount?: number): WeekMenu {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  const weekMenu: WeekMenu = {}
+  const days = WEEK_DAYS.filter(day => Array.isArray(source[day]))
+
+  for (const day of days.length > 0 ? days : DEFAULT_SERVICE_DAYS) {
+    const dishes = Array.isArray(source[day]) ? source[day] as unknown[] : []
+    weekMenu[day] = dishes.flatMap((dish, index) => {
+      const item = toDishItem(dish)
+      if (item) return [item]
+      if (typeof dish !== 'string' || !dish.trim()) return []
+
+      const parsed = parseDishLabel(dish)
+      const inferredType: DishType = hotDishCount !== undefined && index >= hotDishCount ? 'cold' : 'vegetarian'
+      return [{ name: parsed.name, type: inferredType, isHistorical: parsed.isHistorical }]
+    })
+  }
+
+  return weekMenu
+}
+
+/**
+ * 创建空的一周菜单，用于逐天填充生成结果
+ *
+ * @param days 供餐日，默认周一到周五
+ */
+export function createEmptyWeekMenu(days: readonly WeekDay[] = DEFAULT_SERVICE_DAYS): WeekMenu {
+  return Object.fromEntries(days.map(day => [day, []]))
+}
+
+/**
+ * 按分类分组一天的菜品
+ */
+export function groupDishesByType(dishes: DishItem[]): Record<DishType, DishItem[]> {
+  const groups: Record<DishType, DishItem[]> = { mainMeat: [], halfMeat: [], vegetarian: [], cold: [] }
+  for (const dish of dishes) {
+    groups[dish.type].push(dish)
+  }
+  return groups
+}
+
+export interface WeekMenuRow {
+  key: string
+  /** 所属餐次，单餐菜单为null */
+  meal: string | null
+  /** 是否为该餐次的第一行，用于只在第一行显示餐次名称 */
+  isFirstOfMeal: boolean
+  type: DishType
+  /** 是否为该分类的第一行，用于只在第一行显示分类名称 */
+  isFirstOfType: boolean
+  /** 菜单包含的每一天在这一行的菜品 */
+  dishes: Partial<Record<WeekDay, DishItem | null>>
+}
+
+/**
+ * 获取一周菜单中出现的餐次，按出现顺序排列
+ *
+ * @returns 餐次名称，单餐菜单返回空数组
+ */
+export function getWeekMenuMeals(weekMenu: WeekMenu): string[] {
+  const meals: string[] = []
+  for (const day of WEEK_DAYS) {
+    for (const dish of weekMenu[day] || []) {
+      if (dish.meal && !meals.includes(dish.meal)) meals.push(dish.meal)
+    }
+  }
+  return meals
+}
+
+/**
+ * 将一周菜单转换为按餐次、分类分组的表格行
+ *
+ * 多餐次菜单先按餐次分组，再在餐次内按分类分组；单餐菜单只按分类分组。
+ * 每个分类占用的行数取决于一周中该分类菜品最多的一天，
+ * 表格和Excel导出共用这一行结构，保证两者展示一致。
+ */
+export function buildWeekMenuRows(weekMenu: WeekMenu): WeekMenuRow[] {
+  const days = getMenuDays(weekMenu)
+  const meals = getWeekMenuMeals(weekMenu)
+  const groups: Array<string | null> = meals.length > 0 ? meals : [null]
+
+  const rows: WeekMenuRow[] = []
+  for (const meal of groups) {
+    const grouped = Object.fromEntries(days.map(day => [
+      day,
+      groupDishesByType((weekMenu[day] || []).filter(dish => meal === null || dish.meal === meal)),
+    ])) as Partial<Record<WeekDay, Record<DishType, DishItem[]>>>
+
+    const mealStart = rows.length
+    for (const type of DISH_TYPES) {
+      const rowCount = Math.max(0, ...days.map(day => grouped[day]![type].length))
+      for (let i = 0; i < rowCount; i++) {
+        rows.push({
+          key: meal === null ? `${type}-${i}` : `${meal}-${type}-${i}`,
+          meal,
+          isFirstOfMeal: rows.length === mealStart,
+          type,
+          isFirstOfType: i === 0,
+          dishes: Object.fromEntries(
+            days.map(day => [day, grouped[day]![type][i] || null])
+          ),
+        })
+      }
+    }
+  }
+
+  return rows
+}
@@ -0,0 +1,715 @@
+/**
+ * 菜单生成核心模块
+ * 
+ * 本模块实现了基于AI的智能菜单生成流程，是整个系统的核心业务逻辑，
+ * 由普通生成接口和异步生成任务共用。
+ * 主要功能：
+ * 1. 构建符合团餐规范的AI Prompt
+ * 2. 通过配置的大模型服务商生成菜单
+ * 3. 解析AI返回结果（本地修复常见的JSON格式问题），按历史菜单核实标注并进行规则校验，
+ *    不通过时携带违规项重新提示
+ * 4. 通过进度回调报告生成过程（尝试次数、逐天结果、校验结果）
+ * 5. 记录每次调用的原始输出和错误，便于事后排查
+ * 6. 保存菜单到数据库并归档超出保留份数的旧菜单
+ */
+
+import type { Canteen, Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { archiveExpiredMenus } from './menu-retention'
+import { buildAttemptLog, createGenerationRun } from './generation-run'
+import { LLMError, getLLMProvider } from './llm'
+import type { CanteenLLMConfig, ChatCompletionResult, ChatMessage } from './llm'
+import { DAY_LABELS, DEFAULT_SERVICE_DAYS, formatServiceDays, toDayDishes } from './menu-format'
+import {
+  buildJsonFixMessage,
+  buildWeekMenuSchema,
+  describeDroppedOutput,
+  describeJsonRepairs,
+  parseJsonObject,
+  readWeekMenuJson,
+} from './menu-json'
+import type { JsonParseResult } from './menu-json'
+import { getMealNames, getMealSlots } from './meal-slots'
+import { getServiceDays } from './service-days'
+import { formatMonthDay, getDayDate } from './holiday-calendar'
+import { buildDietaryText, findDietaryMatches } from './dietary-rules'
+import { buildIngredientSupplyText, findUnavailableIngredient } from './ingredient-supply'
+import { buildSeasonalText, isOutOfSeasonDish } from './seasonal-calendar'
+import { buildMealTypeText, getMealType } from './meal-type-rules'
+import { buildEquipmentText } from './equipment'
+import { buildMenuRulesText, isMenuRuleEnabled } from './menu-rules'
+import { DEFAULT_PROMPT_TEMPLATE } from './prompt-template'
+import { loadPromptTemplate } from './prompt-versions'
+import {
+  createHistoricalMatcher,
+  describeRelabels,
+  normalizeDishName,
+  reconcileHistoricalLabels,
+} from './historical-matcher'
+import { describeRepeats, findRecentRepeats, isRecentDish, loadRecentDishes } from './repeat-check'
+import type { RecentDish } from './repeat-check'
+import {
+  buildCorrectionMessage,
+  countViolations,
+  getHistoricalDishTarget,
+  validateWeekMenu,
+} from './menu-validator'
+import type {
+  CalendarEvent,
+  CycleDish,
+  DishItem,
+  GenerationParams,
+  GenerationProgressEvent,
+  HistoricalCheckResult,
+  MenuValidationReport,
+  PromptTemplateContent,
+  RepeatCheckResult,
+  WeekDay,
+  WeekMenu,
+} from '@/types'
+
+/**
+ * 生成Prompt中的日期安排说明
+ *
+ * @param weekStart 菜单对应周的周一
+ * @param events 这周的放假、调休和节日
+ */
+function buildCalendarText(weekStart: string, events: CalendarEvent[]): string {
+  const lines = events.map(event => {
+    const dayDate = getDayDate(weekStart, event.day)
+    const dayText = `${DAY_LABELS[event.day]}（${formatMonthDay(dayDate)}）`
+    switch (event.kind) {
+      case 'closure':
+        return `- ${dayText}${event.name}放假，不供餐`
+      case 'workday':
+        return `- ${dayText}${event.name}上班，照常供餐`
+      case 'festival': {
+        const when = event.date === dayDate ? `是${event.name}` : `临近${event.name}（${formatMonthDay(event.date)}）`
+        return `- ${dayText}${when}，请在当天安排1道应节菜品，可参考：${(event.dishes || []).join('、')}。应节菜品计入当天的菜品数量，按实际分类标注`
+      }
+    }
+  })
+
+  return [`本周菜单对应${formatMonthDay(weekStart)}至${formatMonthDay(getDayDate(weekStart, 'sunday'))}。`, ...lines].join('\n')
+}
+
+/**
+ * 生成Prompt中的循环菜单说明
+ *
+ * 列出之前各周已经用过的菜品，要求本周全部避开，历史菜也不例外。
+ */
+function buildCycleText(cycle: CycleOptions): string {
+  const intro = `本次菜单是${cycle.weekCount}周循环菜单中的第${cycle.week}周，整个循环内各周的菜品不能重复。`
+  if (cycle.usedDishes.size === 0) {
+    return `${intro}之后各周会避开本周的菜品，请尽量覆盖不同的原材料和做法。`
+  }
+
+  const usedText = Array.from(cycle.usedDishes.values()).map(dish => dish.name).join('、')
+  return `${intro}以下菜品已经在之前各周使用，本周不能再出现（包括历史菜和只改了个别字的同一道菜）：
+${usedText}`
+}
+
+/**
+ * 构建AI菜单生成的Prompt
+ * 
+ * 这是整个系统最核心的函数之一，负责将用户的配置参数
+ * 转换为AI能够理解的专业指令。Prompt的质量直接影响
+ * 生成菜单的实用性和合理性。
+ * 
+ * @param canteen 食堂基础配置（热菜数量、凉菜数量、不重复周数）
+ * @param params 用户选择的生成参数，多餐次时包含各餐次的数量配置
+ * @param historicalMenus 历史菜单数据，用于风格参考
+ * @param recentDishes 最近几周已生成过的菜品，需要避免重复
+ * @returns 完整的AI Prompt字符串
+ * 
+ * 核心逻辑：
+ * 1. 根据参数映射规则转换用户配置
+ * 2. 计算历史菜与原创菜的数量分配
+ * 3. 构建包含约束条件的专业指令
+ * 4. 列出近期已出菜品，避免跨周重复
+ * 5. 多餐次时逐个餐次列出数量要求，并要求按餐次嵌套输出；按供餐日列出每天的输出格式
+ * 6. 指定了菜单日期时说明节假日调整，并要求在节日前后安排应节菜品
+ * 7. 有饮食要求时说明禁用的食材，不提供含禁用食材的历史菜
+ * 8. 有食材供应要求时说明必用食材和缺货食材，不提供使用缺货食材的历史菜
+ * 9. 按菜单对应月份列出当季和过季食材，用到过季食材的历史菜排在后面
+ * 10. 自助餐等有额外规则的餐制说明出品要求
+ * 11. 登记了烹饪设备时按设备产能列出每餐各种做法的上限，否则使用设备紧缺勾选项
+ * 12. 按食堂的开菜规则设置列出启用的规则和补充规则
+ * 13. 系统提示、参数映射、参考数据和菜品分类定义取自本次使用的Prompt模板版本
+ * 14. 确保生成结果符合团餐运营规范
+ *
+ * @param template 本次使用的Prompt模板内容，默认为内置模板
+ */
+export function buildPrompt(
+  canteen: { hotDishCount: number; coldDishCount: number; repeatAvoidanceWeeks: number },
+  params: GenerationParams,
+  historicalMenus: string[][],
+  recentDishes: Map<string, RecentDish>,
+  template: PromptTemplateContent = DEFAULT_PROMPT_TEMPLATE
+): string {
+  const mappings = template.parameterMappings
+  
+  // 构建设备要求 - 这直接影响可生成的菜品类型
+  // 设备限制是硬约束，必须严格遵守，否则厨房无法执行
+  // 登记了设备时以【烹饪设备】中的产能为准，生成后逐餐检查；停用设备规则时不列出
+  const equipmentText = isMenuRuleEnabled(params, 'equipment') ? buildEquipmentText(params) : null
+  let equipmentRequirement = "所有烹饪设备均充足，蒸屉、烤箱、砂锅、炖锅、烧炉的使用注重均衡协调"
+  if (equipmentText) {
+    equipmentRequirement = "按【烹饪设备】中登记的设备和产能安排菜品，每餐同一种做法的热菜不能超过对应设备的产能"
+  } else if (params.equipmentShortage && params.equipmentShortage.length > 0) {
+    const requirements = params.equipmentShortage.map(item => mappings["设备要求"][item]).filter(Boolean)
+    equipmentRequirement = requirements.join('；')
+  }
+  
+  // 构建其他参数
+  const staffRequirement = mappings["人员配置"][params.staffSituation]
+  const spicyRequirement = mappings["辣味菜要求"][params.spicyLevel]
+  const flavorRequirement = mappings["调味品多样性"][params.flavorDiversity.toString()]
+  const ingredientRequirement = mappings["原材料多样性"][params.ingredientDiversity]
+  const workRatioRequirement = mappings["菜品做工比例"][params.workRatio]
+
+  // 开菜规则按食堂的设置组装，占位符按上面的生成参数填写
+  const menuRulesText = buildMenuRulesText(params, {
+    设备要求: equipmentRequirement,
+    菜品做工比例要求: workRatioRequirement,
+    原材料多样性要求: ingredientRequirement,
+    辣味菜要求: spicyRequirement,
+    刀工复杂性限制: staffRequirement,
+    调味品多样性要求: flavorRequirement,
+  })
+  const menuRulesSection = menuRulesText
+    ? `
+
+【开菜规则】
+${menuRulesText}`
+    : ''
+  
+  // 计算菜单数量和历史菜占比
+  // 这个计算确保历史菜和原创菜的精确分配，避免AI生成时数量错误
+  const slots = getMealSlots(canteen, params)
+  const meals = getMealNames(params)
+  const days = getServiceDays(params)
+  const dishesPerDay = slots.reduce((sum, slot) => sum + slot.hotDishCount + slot.coldDishCount, 0)
+  const totalDishesPerWeek = dishesPerDay * days.length  // 一周所有供餐日的总菜品数
+  const historicalDishCount = getHistoricalDishTarget(canteen, params)  // 历史菜数量，与校验口径一致
+
+  // 供餐日不是周一到周五时在天数后注明具体是哪几天
+  const dayRange = formatServiceDays(days)
+  const isDefaultDays = days.join() === DEFAULT_SERVICE_DAYS.join()
+  const weekText = `一周${'一两三四五六七'[days.length - 1]}天${isDefaultDays ? '' : `（${dayRange}）`}`
+  const originalDishCount = totalDishesPerWeek - historicalDishCount  // 原创菜数量
+  
+  // 构建历史菜单数据 - 限制为合理数量
+  // 提供给AI的历史菜单数据不宜过多，避免Prompt过长导致性能问题
+  // 同时确保有足够的选择余地，提高生成质量
+  // 近期已经出过的历史菜排在后面，优先提供其他历史菜；用到过季食材的历史菜也靠后
+  // 有清真、过敏原等饮食要求时，含禁用食材的历史菜不提供（全素日只影响个别天，不在这里过滤），
+  // 使用缺货食材的历史菜同样不提供
+  const allHistoricalDishes = historicalMenus.flat().filter(dish =>
+    findDietaryMatches(dish, params).length === 0 && !findUnavailableIngredient(dish, params)
+  )
+  const dishPriority = new Map(allHistoricalDishes.map(dish => [
+    dish,
+    (isRecentDish(dish, recentDishes) ? 2 : 0) + (params.seasonMonth && isOutOfSeasonDish(dish, params.seasonMonth) ? 1 : 0),
+  ]))
+  const historicalDishes = [...allHistoricalDishes]
+    .sort((a, b) => dishPriority.get(a)! - dishPriority.get(b)!)
+    .slice(0, historicalDishCount + 10) // 只提供稍多于需要的数量
+  const historicalMenuText = historicalDishes.join('、')
+
+  // 近期已出菜品 - 控制数量避免Prompt过长
+  const recentDishText = Array.from(recentDishes.values()).slice(0, 200).map(dish => dish.name).join('、')
+  const recentDishSection = recentDishText
+    ? `
+
+【近期已出菜品】
+以下菜品在最近${canteen.repeatAvoidanceWeeks}周的菜单中已经出现过。原创菜不能使用这些菜品（包括只改了个别字的同一道菜），历史菜也尽量避开：
+${recentDishText}`
+    : ''
+  
+  // 指定了菜单日期时说明放假、调休，节日按日历中的推荐菜品安排应节菜
+  const calendarSection = params.weekStart
+    ? `
+
+【日期安排】
+${buildCalendarText(params.weekStart, params.calendarEvents || [])}`
+    : ''
+
+  // 清真、全素日、治疗膳食和过敏原是硬性要求，生成后会逐道菜检查
+  const dietaryText = buildDietaryText(params)
+  const dietarySection = dietaryText
+    ? `
+
+【饮食要求】（必须严格遵守）
+${dietaryText}`
+    : ''
+
+  // 库存需要消化的食材和缺货食材，生成后按菜名统计和检查
+  const supplyText = buildIngredientSupplyText(params)
+  const supplySection = supplyText
+    ? `
+
+【食材供应】（必须严格遵守）
+${supplyText}`
+    : ''
+
+  const equipmentSection = equipmentText
+    ? `
+
+【烹饪设备】（必须严格遵守）
+${equipmentText}`
+    : ''
+
+  // 自助餐要求菜品耐保温、方便自取，生成后逐道菜检查；定价餐没有额外要求
+  const mealTypeText = buildMealTypeText(params)
+  const mealTypeSection = mealTypeText
+    ? `
+
+【${getMealType(params)}要求】（必须遵守）
+${mealTypeText}`
+    : ''
+
+  // 按菜单对应月份推荐当季食材，旧菜单没有月份时不写
+  const seasonalText = buildSeasonalText(params)
+  const seasonalSection = seasonalText
+    ? `
+
+【时令食材】
+${seasonalText}`
+    : ''
+
+  // 单餐模式保持原来的午餐写法；多餐次时逐个餐次列出数量，并按餐次嵌套输出
+  const mealText = meals ? meals.join('、') : '午餐'
+  const slotRequirement = (slot: (typeof slots)[number]) =>
+    `每天包含${slot.hotDishCount}个热菜和${slot.coldDishCount}个凉菜，其中热菜里面包含${slot.mainMeatCount}个主荤菜、${slot.halfMeatCount}个半荤菜、${slot.vegetarianCount}个素菜`
+  const countRequirement = meals
+    ? `请为团餐食堂生成${weekText}的${mealText}菜谱，各餐次的菜品数量如下（这个条件必须严格遵守）：
+${slots.map(slot => `${slot.name}：${slotRequirement(slot)}`).join('\n')}${slots.length > 1 ? `
+
+【重要】同一天的各餐次之间菜品不能重复，例如周一早餐出现过的菜，周一午餐和晚餐不能再出现。` : ''}`
+    : `请为团餐食堂生成${weekText}的午餐菜谱，每天包含${canteen.hotDishCount}个热菜和${canteen.coldDishCount}个凉菜（这个条件必须严格遵守），其中热菜里面包含${params.mainMeatCount}个主荤菜、${params.halfMeatCount}个半荤菜、${params.vegetarianCount}个素菜（这个也需要严格遵守）。`
+  const exampleDishes = '["菜品1(主荤)", "菜品2(半荤)", "菜品3(素菜)", "菜品4(凉菜)"]'
+  const outputExample = days.map(day => meals
+    ? `  "${day}": {${meals.map(meal => `"${meal}": ${exampleDishes}`).join(', ')}}`
+    : `  "${day}": ${exampleDishes}`
+  ).join(',\n')
+  const countChecks = meals
+    ? `1. 每天每个餐次的热菜、凉菜数量严格等于上面对该餐次的要求，每天共${dishesPerDay}道
+2. 每个餐次的主荤菜、半荤菜、素菜数量严格等于上面对该餐次的要求`
+    : `1. 每天菜品数量严格等于${canteen.hotDishCount + canteen.coldDishCount}道
+2. 每天热菜数量严格等于${canteen.hotDishCount}道，凉菜数量严格等于${canteen.coldDishCount}道`
+
+  const prompt = `${template.systemPrompt.replace('{天数}', weekText).replace('{餐次}', mealText)}
+
+${countRequirement}
+
+【重要】严格控制历史菜单占比：整个一周菜单（共${totalDishesPerWeek}道菜）中，必须有且仅有${historicalDishCount}道菜来源于【历史菜单】，其余${originalDishCount}道菜必须是全新的原创菜品，不能出现在【历史菜单】中。
+
+【重要】历史菜品分散原则：为了保证一周菜单的新鲜感和均衡性，请将这${historicalDishCount}道历史菜品均匀地分散在${dayRange}的菜单中，每天都要有一些历史菜和一些原创菜的搭配，避免某一天全是历史菜或某一天全是原创菜。让每一天的用餐者都能既品尝到经典的招牌菜（历史菜），又能尝试新的菜品（原创菜）。${menuRulesSection}
+
+【参考数据】
+原材料：${template.referenceData["原材料"]}
+烹饪方式：${template.referenceData["烹饪方式"]}
+风味：${template.referenceData["风味"]}
+
+【历史菜单】
+${historicalMenuText}${recentDishSection}${calendarSection}${seasonalSection}${mealTypeSection}${dietarySection}${supplySection}${equipmentSection}
+
+【菜品分类定义】
+${template.categoryDefinitions}
+
+【分散策略建议】
+为了最佳的用餐体验，建议每天安排大约${Math.round(historicalDishCount/days.length)}道左右的历史菜（可以有1-2道的浮动），让历史经典菜品和创新菜品在每一天都有合理的搭配。
+
+【输出要求】
+请严格按照JSON格式输出，包含${dayRange}的菜单${meals ? '，每天按餐次分别列出' : ''}：
+{
+${outputExample}
+}
+
+如果菜品来源于历史菜单，请额外标注(历史)，如：可乐鸡翅(主荤)(历史)
+
+请确保：
+${countChecks}
+3. 菜品分类标注准确
+4. 【最重要】整个一周菜单中，标注(历史)的菜品总数必须严格等于${historicalDishCount}道，不能多也不能少
+5. 原创菜品（不标注历史的）总数必须严格等于${originalDishCount}道
+6. 【用户体验】每天都要有历史菜和原创菜的合理搭配，避免历史菜过分集中在某几天`
+
+  // 完整Prompt保存在生成记录（GenerationRun）中，这里只输出摘要
+  console.log(`Prompt built: ${totalDishesPerWeek} dishes, ${historicalDishCount} historical, ${originalDishCount} original, ${historicalDishes.length} historical candidates`)
+  
+  return prompt
+}
+
+/** 解析AI返回的菜单的结果 */
+export interface MenuParseResult {
+  /** 解析出的菜单，无法解析或不符合菜单结构时为null */
+  weekMenu: WeekMenu | null
+  /** 解析前在本地做的JSON修复 */
+  repairs: JsonParseResult['repairs']
+  /** 修复截断的输出时丢弃的没有写完的内容 */
+  dropped: JsonParseResult['dropped']
+  /** 无法解析的具体问题，用于要求AI修正格式 */
+  problems: string[]
+}
+
+/**
+ * 解析AI返回的菜单数据
+ * 
+ * AI可能返回包含额外文本或格式瑕疵的响应，需要提取其中的JSON部分
+ * 并验证数据结构的完整性。这是确保系统稳定性的关键步骤。
+ * 
+ * @param content AI返回的原始文本
+ * @param days 供餐日，默认周一到周五
+ * @param meals 本次生成的餐次名称，单餐模式为null
+ * @returns 解析后的菜单对象和本地修复记录，失败时菜单为null并给出具体问题
+ * 
+ * 解析步骤：
+ * 1. 去掉Markdown代码块，按括号配对提取JSON对象，优先采用包含供餐日的对象
+ * 2. 直接解析失败时修复中文引号和标点、多余的逗号以及截断的输出后再解析，记下截断时丢弃的内容
+ * 3. 检查必需的数据结构（每个供餐日，多餐次时每个餐次都是数组）
+ * 4. 将每个菜品转换为DishItem并带上所属餐次，缺少分类标注视为解析失败
+ */
+export function parseMenuResponse(
+  content: string,
+  days: readonly WeekDay[] = DEFAULT_SERVICE_DAYS,
+  meals: string[] | null = null
+): MenuParseResult {
+  const { data, repairs, dropped, error } = parseJsonObject(content, days)
+  if (!data) {
+    console.error('Failed to parse menu response:', error)
+    return { weekMenu: null, repairs, dropped, problems: [error!] }
+  }
+
+  // 验证数据结构，并将带标注的菜品字符串转换为结构化的DishItem
+  const { weekMenu, problems } = readWeekMenuJson(data, days, meals)
+  if (!weekMenu) {
+    console.error('Menu response does not match the menu structure:', problems)
+  }
+  return { weekMenu, repairs, dropped, problems }
+}
+
+/**
+ * 从流式输出中提取已经完整输出的某几天菜单
+ * 
+ * AI按JSON格式逐字输出，某一天的数组（多餐次时为按餐次嵌套的对象）闭合后
+ * 即可解析出这一天的菜品，用于在整份菜单完成之前向前端推送逐天结果。
+ * 菜品字符串中不会出现括号，因此用不含嵌套的数组或对象匹配即可。
+ * 
+ * @param text 目前为止收到的AI输出
+ * @param days 供餐日
+ * @param meals 本次生成的餐次名称，单餐模式为null
+ * @returns 已完整输出的天及其菜品
+ */
+function extractCompletedDays(
+  text: string,
+  days: readonly WeekDay[],
+  meals: string[] | null
+): Array<{ day: keyof WeekMenu; dishes: DishItem[] }> {
+  const completed: Array<{ day: keyof WeekMenu; dishes: DishItem[] }> = []
+  const value = meals ? '(\\{[^{}]*\\}|\\[[^\\[\\]]*\\])' : '(\\[[^\\[\\]]*\\])'
+  const pattern = new RegExp(`"(${days.join('|')})"\\s*:\\s*${value}`, 'g')
+  for (const match of text.matchAll(pattern)) {
+    try {
+      const dishes = toDayDishes(JSON.parse(match[2]), meals)
+      if (dishes) {
+        completed.push({ day: match[1] as keyof WeekMenu, dishes })
+      }
+    } catch {
+      // 数组内容还不是合法JSON（例如包含中文引号），等待完整结果
+    }
+  }
+  return completed
+}
+
+/**
+ * 菜单生成失败
+ * 
+ * message为可以直接展示给用户的中文提示，status为建议的HTTP状态码。
+ */
+export class MenuGenerationError extends Error {
+  readonly status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'MenuGenerationError'
+    this.status = status
+  }
+}
+
+export interface GenerationResult {
+  weekMenu: WeekMenu
+  validation: MenuValidationReport
+  historicalCheck: HistoricalCheckResult
+  repeatCheck: RepeatCheckResult
+  attempts: number
+  /** 生成记录ID，保存菜单后用于关联；记录写入失败时为null */
+  runId: string | null
+}
+
+/** 生成多周循环菜单中的一周时的选项 */
+export interface CycleOptions {
+  /** 第几周，从1开始 */
+  week: number
+  weekCount: number
+  /** 之前各周已经用过的菜品，按规范化菜名索引 */
+  usedDishes: Map<string, CycleDish>
+}
+
+export interface GenerateOptions {
+  /** 生成进度回调；提供时使用流式调用以便逐天推送结果 */
+  onProgress?: (event: GenerationProgressEvent) => void
+  /** 附加在Prompt末尾的说明，同时生成多份候选方案时用于区分各方案 */
+  variation?: string
+  /** 生成多周循环菜单中的一周，本周不能使用之前各周的菜品 */
+  cycle?: CycleOptions
+}
+
+/**
+ * 生成一周菜单
+ * 
+ * 处理流程：
+ * 1. 读取近期生成过的菜品，构建AI Prompt
+ * 2. 调用大模型服务商（临时性错误由服务商层退避重试），支持JSON模式的服务商按菜单结构约束输出
+ * 3. 解析输出，JSON格式问题先在本地修复，仍无法解析时要求AI只修正格式
+ * 4. 按历史菜单核实(历史)标注，校验硬约束，不通过时将违规项反馈给AI重试
+ * 5. 多次尝试都未完全通过时返回违规项最少的一份
+ * 6. 无论成功失败都写入生成记录
+ * 
+ * 生成循环菜单中的一周时，Prompt中不再提供之前各周用过的历史菜，
+ * 并把与之前各周重复作为一条校验规则。
+ * 
+ * @param canteen 食堂记录
+ * @param params 用户选择的生成参数
+ * @param options 进度回调、候选方案说明、循环菜单等选项
+ * @returns 生成结果，尚未保存到数据库
+ * @throws MenuGenerationError 服务不可用或多次尝试都无法解析时抛出
+ */
+export async function generateWeekMenu(
+  canteen: Canteen,
+  params: GenerationParams,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> {
+  const { onProgress, variation, cycle } = options
+
+  // 构建prompt - 将用户参数转换为AI能理解的专业指令
+  // 读取近期生成过的菜品，避免连续几周出现同样的菜
+  const recentDishes = await loadRecentDishes(canteen.id, canteen.repeatAvoidanceWeeks)
+  const meals = getMealNames(params)
+  const days = getServiceDays(params)
+  // 循环菜单中之前各周用过的历史菜不再提供给AI，留出足够的其他历史菜
+  const historicalMenus = (canteen.historicalMenus as string[][])
+    .map(menu => (cycle ? menu.filter(dish => !cycle.usedDishes.has(normalizeDishName(dish))) : menu))
+  const template = await loadPromptTemplate(params.promptVersion)
+  const prompt = [
+    buildPrompt(canteen, params, historicalMenus, recentDishes, template),
+    cycle && `【循环菜单】\n${buildCycleText(cycle)}`,
+    variation,
+  ].filter(Boolean).join('\n\n')
+  onProgress?.({
+    type: 'prompt',
+    historicalTarget: getHistoricalDishTarget(canteen, params),
+    recentDishCount: recentDishes.size,
+  })
+
+  // 调用AI生成菜单
+  // 网络、限流、超时等临时性错误由服务商层负责退避重试，这里的循环只处理
+  // 内容问题：解析失败时重新生成；解析成功但未通过规则校验时，把AI的输出和
+  // 违规项追加到对话中，让AI针对性修正
+  const provider = getLLMProvider(canteen.llmConfig as CanteenLLMConfig | null)
+  const historicalMatcher = createHistoricalMatcher(canteen.historicalMenus as string[][])
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }]
+  // 开启了JSON模式的服务商按一周菜单的结构约束输出
+  const chatOptions = { responseSchema: buildWeekMenuSchema(days, meals) }
+  const run = createGenerationRun({ canteenId: canteen.id, kind: 'generate', provider, prompt, params })
+  let best: Omit<GenerationResult, 'runId'> | null = null
+  let bestScore = Infinity
+  let attempts = 0
+  const maxAttempts = 3  // 最多生成3次
+
+  while (!best?.validation.passed && attempts < maxAttempts) {
+    attempts++
+    const attempt = attempts
+    onProgress?.({ type: 'attempt', attempt, maxAttempts })
+
+    let completion: ChatCompletionResult
+    const startedAt = Date.now()
+    try {
+      if (onProgress) {
+        // 流式调用：每当某一天的数组输出完整就推送给前端
+        const emittedDays = new Set<string>()
+        let streamed = ''
+        const result = await provider.stream(messages, delta => {
+          streamed += delta
+          for (const { day, dishes } of extractCompletedDays(streamed, days, meals)) {
+            if (!emittedDays.has(day)) {
+              emittedDays.add(day)
+              onProgress({ type: 'day', attempt, day, dishes })
+            }
+          }
+        }, {
+          ...chatOptions,
+          // 服务商层重试时输出从头开始，已推送的天数作废
+          onRestart: () => {
+            streamed = ''
+            emittedDays.clear()
+            onProgress({ type: 'restart', attempt })
+          },
+        })
+        completion = result
+      } else {
+        completion = await provider.chat(messages, chatOptions)
+      }
+    } catch (error) {
+      run.recordAttempt(buildAttemptLog(attempt, null, {
+        outcome: 'llm_error',
+        error: (error as Error).message,
+        latencyMs: Date.now() - startedAt,
+      }))
+      // 服务商层已经重试过临时性错误，到这里说明服务当前不可用，继续尝试没有意义
+      if (error instanceof LLMError) {
+        console.error(`Attempt ${attempt}: ${error.provider} call failed (${error.kind}):`, error.message)
+        if (best) break
+        await run.save('failed', error.message)
+        throw new MenuGenerationError('AI服务暂时不可用，请稍后重试', 502)
+      }
+      await run.save('failed', (error as Error).message)
+      throw error
+    }
+    const aiResponse = completion.content
+
+    const parsed = parseMenuResponse(aiResponse, days, meals)
+    const parsedMenu = parsed.weekMenu
+    const repairNotes = describeJsonRepairs(parsed.repairs)
+    const droppedNotes = describeDroppedOutput(parsed.dropped)
+    if (!parsedMenu) {
+      console.warn(`Attempt ${attempt}: Failed to parse AI response`)
+      // 本地修复后仍无法解析时，把具体问题反馈给AI只修正格式，而不是从头重新生成
+      const correction = buildJsonFixMessage(parsed, '完整的一周菜单')
+      messages.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: correction },
+      )
+      run.recordAttempt(buildAttemptLog(attempt, completion, {
+        outcome: 'parse_error',
+        notes: [...repairNotes, ...droppedNotes, ...parsed.problems],
+        correction,
+      }))
+      onProgress?.({ type: 'parse_error', attempt })
+      continue
+    }
+
+    // AI自己标注的(历史)不可靠，以与历史菜单的实际匹配结果为准重新标注，
+    // 这样历史菜数量校验反映的是真实的历史菜占比
+    const reconciled = reconcileHistoricalLabels(parsedMenu, historicalMatcher, params.historicalRatio)
+    const report = validateWeekMenu(reconciled.weekMenu, canteen, params, cycle?.usedDishes)
+    const repeats = findRecentRepeats(reconciled.weekMenu, recentDishes, canteen.repeatAvoidanceWeeks)
+    const repeatNotes = describeRepeats(repeats)
+    const relabelNotes = describeRelabels(reconciled.result.relabeled)
+    onProgress?.({ type: 'validation', attempt, report })
+
+    // 多次尝试都未完全通过时，保留违规项最少的一份；与近期重复的原创菜和截断丢弃的菜也计入扣分
+    const score = countViolations(report) + repeatNotes.length + droppedNotes.length
+    if (score < bestScore) {
+      bestScore = score
+      best = {
+        weekMenu: reconciled.weekMenu,
+        validation: report,
+        historicalCheck: reconciled.result,
+        repeatCheck: repeats,
+        attempts,
+      }
+    }
+
+    let correction: string | null = null
+    if (!report.passed) {
+      console.warn(`Attempt ${attempt}: Menu failed validation with ${countViolations(report)} violations`)
+      correction = buildCorrectionMessage(report, [...droppedNotes, ...relabelNotes, ...repeatNotes])
+      messages.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: correction },
+      )
+    }
+    run.recordAttempt(buildAttemptLog(attempt, completion, {
+      outcome: report.passed ? 'passed' : 'validation_failed',
+      report,
+      notes: [...droppedNotes, ...relabelNotes, ...repeatNotes, ...repairNotes],
+      correction,
+    }))
+  }
+
+  if (!best) {
+    await run.save('failed', 'No parsable menu after all attempts')
+    throw new MenuGenerationError('菜单生成失败，请稍后重试', 500)
+  }
+
+  const runId = await run.save('success')
+  return { ...best, attempts, runId }
+}
+
+/**
+ * 在事务中新建生成的菜单，同时写入第1个版本记录
+ *
+ * @param tx 事务客户端
+ * @param canteenId 食堂ID
+ * @param weekMenu 生成的一周菜单
+ * @param params 生成时的参数配置
+ * @param cycle 属于多周循环菜单时的循环记录ID和周次
+ * @returns 新建的菜单记录
+ */
+export function createGeneratedMenu(
+  tx: Prisma.TransactionClient,
+  canteenId: string,
+  weekMenu: WeekMenu,
+  params: GenerationParams,
+  cycle?: { id: string; week: number }
+) {
+  return tx.menu.create({
+    data: {
+      canteenId,
+      weekMenu: weekMenu as object,
+      generationParams: params as object,
+      weekStart: params.weekStart ? new Date(`${params.weekStart}T00:00:00+08:00`) : null,
+      cycleId: cycle?.id,
+      cycleWeek: cycle?.week,
+      // 首次生成即为第1个版本
+      revisions: {
+        create: { revision: 1, weekMenu: weekMenu as object, source: 'generate' },
+      },
+    },
+  })
+}
+
+/**
+ * 保存生成的菜单
+ * 
+ * 保存后按食堂的保留份数归档更早的菜单。归档只是隐藏，
+ * 置顶的菜单不受影响，历史记录页中可以恢复。
+ * 
+ * @param canteen 食堂ID和保留份数
+ * @param weekMenu 生成的一周菜单
+ * @param params 生成时的参数配置
+ * @param claim 与新建菜单在同一事务中执行，抛出错误时菜单不会保存
+ * @returns 新建的菜单记录
+ */
+export async function saveGeneratedMenu(
+  canteen: { id: string; menuRetentionCount: number },
+  weekMenu: WeekMenu,
+  params: GenerationParams,
+  claim?: (tx: Prisma.TransactionClient, menuId: string) => Promise<void>
+) {
+  const menu = await prisma.$transaction(async tx => {
+    const created = await createGeneratedMenu(tx, canteen.id, weekMenu, params)
+    await claim?.(tx, created.id)
+    return created
+  })
+
+  // 超出保留份数的旧菜单归档而不是删除，避免好的菜单被悄悄丢掉
+  const archived = await archiveExpiredMenus(canteen.id, canteen.menuRetentionCount)
+  if (archived > 0) {
+    console.log(`Archived ${archived} menus beyond retention of ${canteen.menuRetentionCount} for canteen ${canteen.id}`)
+  }
+
+  return menu
+}
@@ -0,0 +1,380 @@
+/**
+ * AI结构化输出解析模块
+ *
+ * 要求AI按JSON格式输出菜单，但实际输出常有以下问题，以前都要整次重新生成：
+ * - 包在Markdown代码块中，或前后带有说明文字，说明中也可能有括号
+ * - 使用中文引号、中文逗号和冒号，或在最后一项后面多写逗号
+ * - 输出达到长度上限被截断
+ *
+ * 本模块先在本地提取和修复JSON，再按一周菜单的结构逐项检查。
+ * 仍然无法解析时给出具体问题，由生成流程追加一条只要求修正格式的消息。
+ * 另外提供发给服务商的JSON Schema，开启JSON模式的服务商在生成时直接约束输出结构。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import { DAY_LABELS, toDayDishes, toDishItem } from './menu-format'
+import type { WeekDay, WeekMenu } from '@/types'
+
+/** 反馈给AI的格式问题最多列出的条数 */
+const MAX_PROBLEMS = 10
+
+/** 各种本地修复的说明 */
+const REPAIR_LABELS = {
+  quotes: '中文引号',
+  punctuation: '中文逗号或冒号',
+  trailingComma: '多余的逗号',
+  truncated: '截断的输出',
+} as const
+
+type JsonRepair = (typeof REPAIR_LABELS)[keyof typeof REPAIR_LABELS]
+
+/** 一次输出的解析结果 */
+export interface JsonParseResult {
+  data: Record<string, unknown> | null
+  /** 解析前在本地做的修复 */
+  repairs: JsonRepair[]
+  /** 修复截断的输出时丢弃的没有写完的内容，如写到一半的菜名 */
+  dropped: string[]
+  /** 无法解析时的原因，解析成功时为null */
+  error: string | null
+}
+
+/**
+ * 从AI输出中提取可能是JSON对象的文本
+ *
+ * 去掉Markdown代码块标记后，从每一个"{"开始按括号配对找到对应的"}"，
+ * 字符串中的括号不计入配对，因此对象后面的说明文字即使带有括号也不会被包含进来。
+ * JSON前面的说明文字中也可能有括号，所以不只取第一个，由调用方逐个尝试解析。
+ *
+ * @returns 按出现顺序排列的候选文本；没有闭合（输出被截断）的候选为到末尾的全部文本
+ */
+export function extractJsonCandidates(content: string): string[] {
+  const text = content.replace(/```(?:json)?/gi, '')
+  const candidates: string[] = []
+
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    let depth = 0
+    let inString = false
+    let escaped = false
+    let end = text.length
+    for (let i = start; i < text.length; i++) {
+      const char = text[i]
+      if (inString) {
+        if (escaped) escaped = false
+        else if (char === '\\') escaped = true
+        else if (char === '"') inString = false
+      } else if (char === '"') {
+        inString = true
+      } else if (char === '{' || char === '[') {
+        depth++
+      } else if (char === '}' || char === ']') {
+        depth--
+        if (depth === 0) {
+          end = i + 1
+          break
+        }
+      }
+    }
+    candidates.push(text.slice(start, end))
+  }
+  return candidates
+}
+
+/**
+ * 修复JSON文本中的常见问题
+ *
+ * 处理流程：
+ * 1. 字符串外的中文引号当作字符串的引号，英文引号字符串中的中文引号保持不变
+ * 2. 字符串外的中文逗号、冒号换成英文的
+ * 3. 去掉"]"、"}"前多余的逗号
+ * 4. 输出被截断时丢弃没有写完的字符串和缺少值的键，再补上未闭合的括号
+ *
+ * @param text extractJsonCandidates 提取出的文本
+ * @returns 修复后的文本、做过的修复和截断时丢弃的内容
+ */
+export function repairJson(text: string): { text: string; repairs: JsonRepair[]; dropped: string[] } {
+  const repairs = new Set<JsonRepair>()
+  const dropped: string[] = []
+  const closers: string[] = []
+  let output = ''
+  /** 当前字符串的结束引号，不在字符串中时为null */
+  let closingQuotes: string[] | null = null
+  let stringStart = 0
+  let escaped = false
+
+  // 去掉末尾的空白和逗号；末尾是缺少值的键时一并去掉
+  const trimDangling = () => {
+    output = output.trimEnd()
+    if (output.endsWith(':')) {
+      output = output.slice(0, -1).trimEnd().replace(/"((?:[^"\\]|\\.)*)"$/, (_, key: string) => {
+        dropped.push(key)
+        return ''
+      }).trimEnd()
+    }
+    if (output.endsWith(',')) {
+      output = output.slice(0, -1).trimEnd()
+    }
+  }
+
+  for (const char of text) {
+    if (closingQuotes) {
+      if (escaped) {
+        escaped = false
+      } else if (char === '\\') {
+        escaped = true
+      } else if (closingQuotes.includes(char)) {
+        closingQuotes = null
+        output += '"'
+        continue
+      }
+      output += char
+      continue
+    }
+
+    if (char === '"' || char === '“' || char === '”') {
+      if (char !== '"') repairs.add(REPAIR_LABELS.quotes)
+      closingQuotes = char === '"' ? ['"'] : ['”', '“', '"']
+      stringStart = output.length
+      output += '"'
+    } else if (char === '，' || char === '：') {
+      repairs.add(REPAIR_LABELS.punctuation)
+      output += char === '，' ? ',' : ':'
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']')
+      output += char
+    } else if (char === '}' || char === ']') {
+      const trimmed = output.trimEnd()
+      if (trimmed.endsWith(',')) {
+        repairs.add(REPAIR_LABELS.trailingComma)
+        output = trimmed.slice(0, -1)
+      }
+      closers.pop()
+      output += char
+    } else {
+      output += char
+    }
+  }
+
+  if (closingQuotes || closers.length > 0) {
+    repairs.add(REPAIR_LABELS.truncated)
+    if (closingQuotes) {
+      const partial = output.slice(stringStart + 1)
+      if (partial) dropped.push(partial)
+      output = output.slice(0, stringStart)
+    }
+    while (closers.length > 0) {
+      trimDangling()
+      output += closers.pop()
+    }
+  }
+
+  return { text: output, repairs: [...repairs], dropped }
+}
+
+/**
+ * 从AI输出中解析JSON对象，直接解析失败时先在本地修复再解析
+ *
+ * 处理流程：
+ * 1. 按出现顺序逐个尝试候选文本，每个候选先直接解析，失败时修复后再解析
+ * 2. 解析出的对象包含任一预期的键时直接采用
+ * 3. 都不包含预期的键时采用第一个能解析的对象
+ * 4. 都无法解析时以最长的候选（通常就是AI输出的JSON）报告错误
+ *
+ * @param content AI返回的原始文本
+ * @param expectedKeys 结果中应有的键，如供餐日，用于排除说明文字中的括号和嵌套的对象
+ */
+export function parseJsonObject(content: string, expectedKeys: readonly string[] = []): JsonParseResult {
+  const candidates = extractJsonCandidates(content)
+  if (candidates.length === 0) {
+    return { data: null, repairs: [], dropped: [], error: '输出中没有JSON对象' }
+  }
+
+  const parse = (text: string) => {
+    const data: unknown = JSON.parse(text)
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('最外层不是JSON对象')
+    }
+    return data as Record<string, unknown>
+  }
+
+  const tryParse = (candidate: string): JsonParseResult => {
+    try {
+      return { data: parse(candidate), repairs: [], dropped: [], error: null }
+    } catch {
+      // 直接解析失败，尝试修复常见问题后再解析
+    }
+
+    const repaired = repairJson(candidate)
+    try {
+      return { data: parse(repaired.text), repairs: repaired.repairs, dropped: repaired.dropped, error: null }
+    } catch (error) {
+      return { data: null, repairs: repaired.repairs, dropped: [], error: `JSON格式错误：${(error as Error).message}` }
+    }
+  }
+
+  let fallback: JsonParseResult | null = null
+  let longest: { length: number; result: JsonParseResult } | null = null
+  for (const candidate of candidates) {
+    const result = tryParse(candidate)
+    if (result.data) {
+      if (expectedKeys.length === 0 || expectedKeys.some(key => key in result.data!)) {
+        return result
+      }
+      fallback ??= result
+    } else if (!longest || candidate.length > longest.length) {
+      longest = { length: candidate.length, result }
+    }
+  }
+  return fallback ?? longest!.result
+}
+
+/**
+ * 按一周菜单的结构检查解析出的JSON
+ *
+ * 逐个供餐日（多餐次时逐个餐次）检查是否存在、是否为菜品数组、每道菜是否标注了分类，
+ * 全部符合时转换为WeekMenu。
+ *
+ * @param data 解析出的JSON对象
+ * @param days 供餐日
+ * @param meals 本次生成的餐次名称，单餐模式为null
+ * @returns 一周菜单，或不符合结构的具体问题
+ */
+export function readWeekMenuJson(
+  data: Record<string, unknown>,
+  days: readonly WeekDay[],
+  meals: string[] | null
+): { weekMenu: WeekMenu; problems: [] } | { weekMenu: null; problems: string[] } {
+  const problems: string[] = []
+
+  for (const day of days) {
+    const value = data[day]
+    if (value === undefined) {
+      problems.push(`缺少${DAY_LABELS[day]}（${day}）的菜单`)
+      continue
+    }
+
+    // 单餐模式每天是菜品数组；多餐次时按餐次分组，只有一个餐次时也接受数组
+    let groups: Array<{ name: string; dishes: unknown }>
+    if (!meals || (meals.length === 1 && Array.isArray(value))) {
+      groups = [{ name: DAY_LABELS[day], dishes: value }]
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      groups = meals.map(meal => ({ name: `${DAY_LABELS[day]}${meal}`, dishes: (value as Record<string, unknown>)[meal] }))
+    } else {
+      problems.push(`${DAY_LABELS[day]}的菜单应为以餐次名称（${meals.join('、')}）为键的对象`)
+      continue
+    }
+
+    for (const { name, dishes } of groups) {
+      if (!Array.isArray(dishes)) {
+        problems.push(dishes === undefined ? `缺少${name}的菜单` : `${name}的菜单应为菜品数组`)
+        continue
+      }
+      for (const dish of dishes) {
+        if (!toDishItem(dish)) {
+          problems.push(`${name}的${JSON.stringify(dish)}不是"菜名(分类)"格式，分类只能是主荤、半荤、素菜、凉菜`)
+        }
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    return { weekMenu: null, problems: problems.slice(0, MAX_PROBLEMS) }
+  }
+
+  const weekMenu: WeekMenu = {}
+  for (const day of days) {
+    weekMenu[day] = toDayDishes(data[day], meals)!
+  }
+  return { weekMenu, problems: [] }
+}
+
+/**
+ * 生成一周菜单输出的JSON Schema，供开启JSON模式的服务商约束输出结构
+ *
+ * @param days 供餐日
+ * @param meals 本次生成的餐次名称，单餐模式为null
+ */
+export function buildWeekMenuSchema(
+  days: readonly WeekDay[],
+  meals: string[] | null
+): { name: string; schema: Record<string, unknown> } {
+  const dishes = {
+    type: 'array',
+    items: { type: 'string', description: '菜名(分类)，来源于历史菜单时再加(历史)，如：可乐鸡翅(主荤)(历史)' },
+  }
+  const day = meals
+    ? { type: 'object', properties: Object.fromEntries(meals.map(meal => [meal, dishes])), required: meals, additionalProperties: false }
+    : dishes
+
+  return {
+    name: 'week_menu',
+    schema: {
+      type: 'object',
+      properties: Object.fromEntries(days.map(name => [name, day])),
+      required: [...days],
+      additionalProperties: false,
+    },
+  }
+}
+
+/**
+ * 生成局部替换输出的JSON Schema，键为位置编号，值为替换菜
+ *
+ * @param keys 需要替换的位置编号
+ */
+export function buildReplacementSchema(keys: string[]): { name: string; schema: Record<string, unknown> } {
+  const dish = { type: 'string', description: '菜名(分类)，来源于历史菜单时再加(历史)' }
+  return {
+    name: 'menu_replacements',
+    schema: {
+      type: 'object',
+      properties: Object.fromEntries(keys.map(key => [key, dish])),
+      required: keys,
+      additionalProperties: false,
+    },
+  }
+}
+
+/**
+ * 描述在本地做过的JSON修复，记入生成记录便于排查
+ *
+ * @returns 没有修复时返回空数组
+ */
+export function describeJsonRepairs(repairs: JsonRepair[]): string[] {
+  return repairs.length > 0 ? [`输出的JSON格式有误，已在本地修复：${repairs.join('、')}`] : []
+}
+
+/**
+ * 描述修复截断的输出时丢弃的内容
+ *
+ * 丢弃的通常是写到一半的菜名，解析出的菜单会少这道菜，
+ * 记入生成记录并随校验问题一起反馈给AI，避免被当作AI自己少写了一道菜。
+ *
+ * @returns 没有丢弃内容时返回空数组
+ */
+export function describeDroppedOutput(dropped: string[]): string[] {
+  return dropped.length > 0
+    ? [`输出在写到${dropped.map(text => `「${text}」`).join('、')}时被截断，没有写完的内容已丢弃`]
+    : []
+}
+
+/**
+ * 构建修正JSON格式的消息
+ *
+ * 本地修复后仍然无法解析时追加给AI，只要求按原来的格式重新输出，
+ * 输出被截断时提醒精简内容，避免再次超出长度限制。
+ *
+ * @param result 解析问题和做过的修复
+ * @param output 需要重新输出的内容，如"完整的一周菜单"
+ */
+export function buildJsonFixMessage(result: { problems: string[]; repairs: JsonRepair[] }, output: string): string {
+  const truncated = result.repairs.includes(REPAIR_LABELS.truncated)
+    ? '\n- 输出不完整，可能超出了长度限制，请只输出JSON，不要包含任何说明'
+    : ''
+
+  return `你上一次的输出无法按要求的JSON格式解析：
+${result.problems.map(problem => `- ${problem}`).join('\n')}${truncated}
+
+请按照原来的JSON格式重新输出${output}：只输出一个JSON对象，不要使用Markdown代码块；键和字符串使用英文双引号，最后一项后面不要加逗号。`
+}
@@ -0,0 +1,373 @@
+/**
+ * 局部重新生成模块
+ *
+ * 厨师长锁定满意的菜品或整天后，只让AI替换未锁定的位置，
+ * 其余菜品原样保留。替换结果与完整生成使用同一套参数、规则校验、
+ * 历史菜核实和跨周重复检查，不通过时同样携带违规项重新提示。
+ *
+ * 每个位置用 `星期-序号` 标识（如 wednesday-2 表示周三菜单中的第3道菜），
+ * 替换菜必须与原位置的分类相同、属于同一餐次，这样每天各餐次的分类数量保持不变。
+ */
+
+import type { Canteen } from '@prisma/client'
+import { LLMError, getLLMProvider } from './llm'
+import type { CanteenLLMConfig, ChatCompletionResult, ChatMessage } from './llm'
+import { DAY_LABELS, DISH_TYPE_LABELS, formatDishLabel, getMenuDays, serializeWeekMenu, toDishItem } from './menu-format'
+import { getMealNames } from './meal-slots'
+import { buildPrompt, MenuGenerationError } from './menu-generation'
+import type { GenerationResult } from './menu-generation'
+import { createHistoricalMatcher, describeRelabels, normalizeDishName, reconcileHistoricalLabels } from './historical-matcher'
+import { describeRepeats, findRecentRepeats, loadRecentDishes } from './repeat-check'
+import { loadCycleDishes } from './menu-cycle'
+import { buildAttemptLog, createGenerationRun } from './generation-run'
+import { loadPromptTemplate } from './prompt-versions'
+import {
+  buildJsonFixMessage,
+  buildReplacementSchema,
+  describeDroppedOutput,
+  describeJsonRepairs,
+  parseJsonObject,
+} from './menu-json'
+import type { JsonParseResult } from './menu-json'
+import {
+  buildCorrectionMessage,
+  countViolations,
+  getHistoricalDishTarget,
+  validateWeekMenu,
+} from './menu-validator'
+import type { CycleDish, DishItem, GenerationParams, MenuLocks, MenuSlot, WeekMenu } from '@/types'
+
+export interface RegenerationResult extends GenerationResult {
+  /** 本次被替换的位置 */
+  replaced: MenuSlot[]
+}
+
+function slotKey(slot: MenuSlot): string {
+  return `${slot.day}-${slot.index}`
+}
+
+/**
+ * 计算需要替换的位置
+ *
+ * 锁定的整天和锁定的单道菜之外的所有位置都需要替换。
+ *
+ * @param weekMenu 当前菜单
+ * @param locks 锁定的天和菜品
+ * @returns 未锁定的位置
+ */
+export function getUnlockedSlots(weekMenu: WeekMenu, locks: MenuLocks): MenuSlot[] {
+  const lockedDays = new Set(locks.days)
+  const lockedDishes = new Set(locks.dishes.map(slotKey))
+
+  return getMenuDays(weekMenu).flatMap(day => {
+    if (lockedDays.has(day)) return []
+    return (weekMenu[day] || [])
+      .map((_, index) => ({ day, index }))
+      .filter(slot => !lockedDishes.has(slotKey(slot)))
+  })
+}
+
+/**
+ * 构建局部替换指令
+ *
+ * 作为完整生成Prompt之后的追加消息发送，AI已经"知道"所有规则，
+ * 这里只说明哪些位置需要替换、各需要什么分类以及历史菜数量。
+ *
+ * @param weekMenu 当前菜单
+ * @param slots 需要替换的位置
+ * @param historicalNeeded 替换菜中需要的历史菜数量
+ * @param multiMeal 是否为多餐次菜单，是时每道菜前标出所属餐次
+ * @param cycleDishes 菜单属于多周循环时其他各周用过的菜品
+ */
+function buildRegenerationMessage(
+  weekMenu: WeekMenu,
+  slots: MenuSlot[],
+  historicalNeeded: number,
+  multiMeal: boolean,
+  cycleDishes?: Map<string, CycleDish>
+): string {
+  const unlocked = new Set(slots.map(slotKey))
+
+  const menuText = getMenuDays(weekMenu).map(day => {
+    const lines = (weekMenu[day] || []).map((dish, index) => {
+      const key = slotKey({ day, index })
+      const label = multiMeal && dish.meal ? `${dish.meal}：${formatDishLabel(dish)}` : formatDishLabel(dish)
+      return unlocked.has(key)
+        ? `  [替换 ${key}] ${label} → 换成一道${DISH_TYPE_LABELS[dish.type]}`
+        : `  [保留] ${label}`
+    })
+    return `${DAY_LABELS[day]}：\n${lines.join('\n')}`
+  }).join('\n')
+
+  const example = slots.slice(0, 2).map(slot => {
+    const dish = weekMenu[slot.day]![slot.index]
+    return `  "${slotKey(slot)}": "新菜品(${DISH_TYPE_LABELS[dish.type]})"`
+  }).join(',\n')
+
+  const cycleRule = cycleDishes && cycleDishes.size > 0
+    ? `\n5. 这份菜单属于多周循环菜单，替换菜不能使用循环中其他各周已有的菜品：${Array.from(cycleDishes.values()).map(dish => dish.name).join('、')}`
+    : ''
+
+  return `厨师长对这份菜单的大部分菜品满意，现在只需要替换其中${slots.length}道菜，标记为[保留]的菜品保持不变。当前菜单如下：
+
+${menuText}
+
+【替换要求】
+1. 每道替换菜的分类${multiMeal ? '和餐次' : ''}必须与被替换的菜相同
+2. 替换菜不能与被替换的菜相同，也不能与当天保留的菜品重复${multiMeal ? '（包括其他餐次的菜品）' : ''}
+3. 替换后的菜单仍需满足前面的全部开菜规则（如当天主要食材不重复、勾芡菜不超过两个）
+4. 这${slots.length}道替换菜中必须有且仅有${historicalNeeded}道来源于【历史菜单】，并标注(历史)${cycleRule}
+
+【输出要求】
+只输出需要替换的位置，严格按照JSON格式，键为位置编号：
+{
+${example}
+}`
+}
+
+/**
+ * 解析AI返回的替换结果
+ *
+ * JSON格式问题先在本地修复，再检查每个位置都有标注了分类的替换菜。
+ *
+ * @param content AI返回的原始文本
+ * @param slots 需要替换的位置
+ * @returns 位置编号到替换菜的映射（缺少位置或无法识别分类时为null）、本地修复记录、截断时丢弃的内容和具体问题
+ */
+function parseReplacementResponse(
+  content: string,
+  slots: MenuSlot[]
+): {
+  replacements: Map<string, DishItem> | null
+  repairs: JsonParseResult['repairs']
+  dropped: JsonParseResult['dropped']
+  problems: string[]
+} {
+  const { data, repairs, dropped, error } = parseJsonObject(content, slots.map(slotKey))
+  if (!data) {
+    console.error('Failed to parse replacement response:', error)
+    return { replacements: null, repairs, dropped, problems: [error!] }
+  }
+
+  const replacements = new Map<string, DishItem>()
+  const problems: string[] = []
+  for (const slot of slots) {
+    const key = slotKey(slot)
+    const item = toDishItem(data[key])
+    if (item) {
+      replacements.set(key, item)
+    } else {
+      problems.push(data[key] === undefined
+        ? `缺少位置 ${key} 的替换菜`
+        : `位置 ${key} 的${JSON.stringify(data[key])}不是"菜名(分类)"格式，分类只能是主荤、半荤、素菜、凉菜`)
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error('Replacement response does not cover all slots:', problems)
+    return { replacements: null, repairs, dropped, problems }
+  }
+  return { replacements, repairs, dropped, problems }
+}
+
+/**
+ * 替换未锁定位置的菜品
+ *
+ * 处理流程：
+ * 1. 计算未锁定的位置和替换菜中需要的历史菜数量
+ * 2. 以完整生成的Prompt和当前菜单作为上下文，追加局部替换指令
+ * 3. 将替换菜填回原位置，按历史菜单核实标注并校验整周菜单，
+ *    属于多周循环时同时检查不与循环中其他各周重复
+ * 4. 不通过时将违规项反馈给AI重试，最多3次，返回违规项最少的一份；
+ *    输出的JSON格式问题先在本地修复，仍无法解析时要求AI只修正格式
+ * 5. 写入生成记录，Prompt部分包含完整生成Prompt和局部替换指令
+ *
+ * @param canteen 食堂记录
+ * @param menu 要修改的菜单（ID、当前内容、生成参数和所属循环）
+ * @param locks 锁定的天和菜品
+ * @returns 替换后的菜单，尚未保存到数据库
+ * @throws MenuGenerationError 没有需要替换的菜、服务不可用或多次尝试都无法解析时抛出
+ */
+export async function regenerateMenuSlots(
+  canteen: Canteen,
+  menu: { id: string; weekMenu: WeekMenu; generationParams: GenerationParams; cycleId: string | null },
+  locks: MenuLocks
+): Promise<RegenerationResult> {
+  const { weekMenu, generationParams: params } = menu
+  const slots = getUnlockedSlots(weekMenu, locks)
+  if (slots.length === 0) {
+    throw new MenuGenerationError('所有菜品都已锁定，没有需要重新生成的菜', 400)
+  }
+
+  // 保留的菜品中已有的历史菜计入一周的历史菜目标，剩余的由替换菜补足
+  const unlocked = new Set(slots.map(slotKey))
+  const keptHistorical = getMenuDays(weekMenu).reduce((count, day) => count + weekMenu[day]!.filter(
+    (dish, index) => dish.isHistorical && !unlocked.has(slotKey({ day, index }))
+  ).length, 0)
+  const historicalTarget = getHistoricalDishTarget(canteen, params)
+  const historicalNeeded = Math.min(Math.max(historicalTarget - keptHistorical, 0), slots.length)
+
+  // 正在修改的菜单本身不参与跨周重复检查，否则保留的菜都会被判为重复
+  const recentDishes = await loadRecentDishes(canteen.id, canteen.repeatAvoidanceWeeks, menu.id)
+  const cycleDishes = menu.cycleId
+    ? await loadCycleDishes(menu.cycleId, menu.id, canteen.hotDishCount)
+    : undefined
+  // 沿用生成菜单时的Prompt模板版本
+  const template = await loadPromptTemplate(params.promptVersion)
+  const prompt = buildPrompt(canteen, params, canteen.historicalMenus as string[][], recentDishes, template)
+  const meals = getMealNames(params)
+  const currentMenuJson = JSON.stringify(serializeWeekMenu(weekMenu, meals), null, 2)
+
+  const provider = getLLMProvider(canteen.llmConfig as CanteenLLMConfig | null)
+  const historicalMatcher = createHistoricalMatcher(canteen.historicalMenus as string[][])
+  const regenerationMessage = buildRegenerationMessage(weekMenu, slots, historicalNeeded, meals !== null, cycleDishes)
+  const messages: ChatMessage[] = [
+    { role: 'user', content: prompt },
+    { role: 'assistant', content: currentMenuJson },
+    { role: 'user', content: regenerationMessage },
+  ]
+  const run = createGenerationRun({
+    canteenId: canteen.id,
+    menuId: menu.id,
+    kind: 'regenerate',
+    provider,
+    prompt: `${prompt}\n\n【当前菜单】\n${currentMenuJson}\n\n${regenerationMessage}`,
+    params,
+  })
+  // 开启了JSON模式的服务商按位置编号约束输出
+  const chatOptions = { responseSchema: buildReplacementSchema(slots.map(slotKey)) }
+  let best: Omit<RegenerationResult, 'runId'> | null = null
+  let bestScore = Infinity
+  // 规则校验通过之外，替换菜还不能与原菜相同、不能有截断丢弃的菜，全部满足才算通过
+  let bestPassed = false
+  let attempts = 0
+  const maxAttempts = 3
+
+  while (!bestPassed && attempts < maxAttempts) {
+    attempts++
+
+    let completion: ChatCompletionResult
+    const startedAt = Date.now()
+    try {
+      completion = await provider.chat(messages, chatOptions)
+    } catch (error) {
+      run.recordAttempt(buildAttemptLog(attempts, null, {
+        outcome: 'llm_error',
+        error: (error as Error).message,
+        latencyMs: Date.now() - startedAt,
+      }))
+      if (error instanceof LLMError) {
+        console.error(`Regeneration attempt ${attempts}: ${error.provider} call failed (${error.kind}):`, error.message)
+        if (best) break
+        await run.save('failed', error.message)
+        throw new MenuGenerationError('AI服务暂时不可用，请稍后重试', 502)
+      }
+      await run.save('failed', (error as Error).message)
+      throw error
+    }
+    const aiResponse = completion.content
+
+    const parsed = parseReplacementResponse(aiResponse, slots)
+    const { replacements } = parsed
+    const repairNotes = describeJsonRepairs(parsed.repairs)
+    const droppedNotes = describeDroppedOutput(parsed.dropped)
+    if (!replacements) {
+      console.warn(`Regeneration attempt ${attempts}: Failed to parse AI response`)
+      const correction = buildJsonFixMessage(parsed, `全部${slots.length}道替换菜，键为位置编号`)
+      messages.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: correction },
+      )
+      run.recordAttempt(buildAttemptLog(attempts, completion, {
+        outcome: 'parse_error',
+        notes: [...repairNotes, ...droppedNotes, ...parsed.problems],
+        correction,
+      }))
+      continue
+    }
+
+    // 将替换菜填回原位置，保留的菜品原样不动，替换菜沿用原位置的餐次
+    const merged = Object.fromEntries(getMenuDays(weekMenu).map(day => [
+      day,
+      weekMenu[day]!.map((dish, index) => {
+        const replacement = replacements.get(slotKey({ day, index }))
+        if (!replacement) return dish
+        return dish.meal ? { ...replacement, meal: dish.meal } : replacement
+      }),
+    ])) as WeekMenu
+
+    // 替换成同一道菜等于没有替换，作为额外问题反馈给AI
+    const unchangedNotes = slots.flatMap(slot => {
+      const original = weekMenu[slot.day]![slot.index]
+      const replacement = merged[slot.day]![slot.index]
+      return normalizeDishName(original.name) === normalizeDishName(replacement.name)
+        ? [`${DAY_LABELS[slot.day]}的「${original.name}」需要换成一道不同的菜（位置 ${slotKey(slot)}）`]
+        : []
+    })
+
+    const reconciled = reconcileHistoricalLabels(merged, historicalMatcher, params.historicalRatio)
+    const report = validateWeekMenu(reconciled.weekMenu, canteen, params, cycleDishes)
+    const repeats = findRecentRepeats(reconciled.weekMenu, recentDishes, canteen.repeatAvoidanceWeeks)
+    const repeatNotes = describeRepeats(repeats)
+    const notes = [...droppedNotes, ...unchangedNotes, ...describeRelabels(reconciled.result.relabeled), ...repeatNotes]
+
+    const score = countViolations(report) + repeatNotes.length + unchangedNotes.length + droppedNotes.length
+    const passed = report.passed && unchangedNotes.length === 0 && droppedNotes.length === 0
+    // 通过的一份优先于未通过的，同为通过或未通过时保留问题最少的一份
+    if ((passed && !bestPassed) || (passed === bestPassed && score < bestScore)) {
+      bestScore = score
+      bestPassed = passed
+      best = {
+        weekMenu: reconciled.weekMenu,
+        validation: report,
+        historicalCheck: reconciled.result,
+        repeatCheck: repeats,
+        attempts,
+        replaced: slots,
+      }
+    }
+
+    let correction: string | null = null
+    if (!passed) {
+      console.warn(`Regeneration attempt ${attempts}: Menu failed validation with ${score} problems`)
+      correction = `${buildCorrectionMessage(report, notes)}\n\n只能修改标记为[替换]的位置，请仍按位置编号输出全部${slots.length}道替换菜。`
+      messages.push(
+        { role: 'assistant', content: aiResponse },
+        { role: 'user', content: correction },
+      )
+    }
+    run.recordAttempt(buildAttemptLog(attempts, completion, {
+      outcome: passed ? 'passed' : 'validation_failed',
+      report,
+      notes: [...notes, ...repairNotes],
+      correction,
+    }))
+  }
+
+  if (!best) {
+    await run.save('failed', 'No parsable replacement after all attempts')
+    throw new MenuGenerationError('菜单重新生成失败，请稍后重试', 500)
+  }
+
+  const runId = await run.save('success')
+  return { ...best, attempts, runId }
+}
+
+/**
+ * 生成版本变更说明
+ *
+ * 整天被替换时按天描述，否则列出被替换的菜名，用于版本记录。
+ *
+ * @param weekMenu 替换前的菜单
+ * @param slots 被替换的位置
+ */
+export function describeReplacement(weekMenu: WeekMenu, slots: MenuSlot[]): string {
+  const parts = getMenuDays(weekMenu).flatMap(day => {
+    const dishes = weekMenu[day]!
+    const daySlots = slots.filter(slot => slot.day === day)
+    if (daySlots.length === 0) return []
+    if (daySlots.length === dishes.length) return [`${DAY_LABELS[day]}全天`]
+    return [`${DAY_LABELS[day]}${daySlots.map(slot => `「${dishes[slot.index].name}」`).join('')}`]
+  })
+  return `重新生成：${parts.join('、')}`
+}
@@ -0,0 +1,54 @@
+/**
+ * 菜单保留与归档模块
+ *
+ * 生成的菜单不再物理删除：超过食堂保留份数的旧菜单会被归档（软删除），
+ * 在历史记录页的"已归档"中仍可查看和恢复。置顶收藏的菜单不参与自动归档，
+ * 也不占用保留份数。
+ */
+
+import { prisma } from './db'
+
+/** 未配置时的默认保留份数，与之前固定保留4份的行为一致 */
+export const DEFAULT_MENU_RETENTION = 4
+
+/** 保留份数上限，避免误填过大的数字 */
+export const MAX_MENU_RETENTION = 100
+
+/**
+ * 归档超出保留份数的旧菜单
+ *
+ * 处理流程：
+ * 1. 按生成时间倒序读取未置顶、未归档的菜单，排除指定保留的菜单
+ * 2. 指定保留的菜单占用保留份数，其余保留最新的几份，超出的标记归档时间
+ *
+ * @param canteenId 食堂ID
+ * @param retentionCount 保留份数，0表示不自动归档
+ * @param keepIds 始终保留的菜单，如刚保存的循环菜单各周，避免循环周数超过保留份数时归档自己
+ * @returns 本次归档的菜单数量
+ */
+export async function archiveExpiredMenus(
+  canteenId: string,
+  retentionCount: number,
+  keepIds: string[] = []
+): Promise<number> {
+  if (retentionCount <= 0) {
+    return 0
+  }
+
+  const expired = await prisma.menu.findMany({
+    where: { canteenId, pinned: false, archivedAt: null, id: { notIn: keepIds } },
+    orderBy: { createdAt: 'desc' },
+    skip: Math.max(retentionCount - keepIds.length, 0),
+    select: { id: true },
+  })
+
+  if (expired.length === 0) {
+    return 0
+  }
+
+  const { count } = await prisma.menu.updateMany({
+    where: { id: { in: expired.map(menu => menu.id) } },
+    data: { archivedAt: new Date() },
+  })
+  return count
+}
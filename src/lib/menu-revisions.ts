@@ -0,0 +1,149 @@
+/**
+ * 菜单版本管理模块
+ *
+ * 局部重新生成和手动编辑都不会新建菜单记录，而是在原有 Menu 上保存新版本：
+ * Menu.weekMenu 始终是最新版本，MenuRevision 保存包括最新版本在内的
+ * 每一个版本，便于查看修改历史。
+ */
+
+import { prisma } from './db'
+import { DAY_LABELS, DISH_TYPE_LABELS, WEEK_DAYS } from './menu-format'
+import type { MenuRevisionSource, WeekMenu } from '@/types'
+
+/** 变更说明最多列出的条目数，避免大量修改时说明过长 */
+const MAX_SUMMARY_ITEMS = 8
+
+/**
+ * 菜单在加载之后已被修改
+ *
+ * 保存时提供的版本号与菜单当前版本不一致，继续保存会覆盖别人的修改。
+ */
+export class MenuRevisionConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MenuRevisionConflictError'
+  }
+}
+
+/**
+ * 将新的菜单内容保存为一个新版本
+ *
+ * 处理流程：
+ * 1. 提供了预期版本号时，确认菜单仍是该版本
+ * 2. 旧数据没有版本记录时，先把当前内容补存为原始版本
+ * 3. 更新菜单内容并递增版本号，提供了预期版本号时以该版本号为更新条件
+ * 4. 写入新版本记录
+ *
+ * @param menuId 菜单ID
+ * @param weekMenu 新的一周菜单
+ * @param source 变更来源
+ * @param summary 变更说明
+ * @param expectedRevision 修改所基于的版本号，不提供时不检查
+ * @returns 更新后的菜单记录
+ * @throws MenuRevisionConflictError 菜单已不是预期的版本时抛出
+ */
+export async function saveMenuRevision(
+  menuId: string,
+  weekMenu: WeekMenu,
+  source: MenuRevisionSource,
+  summary: string | null = null,
+  expectedRevision?: number
+) {
+  return prisma.$transaction(async tx => {
+    const current = await tx.menu.findUniqueOrThrow({
+      where: { id: menuId },
+      select: { weekMenu: true, revision: true, createdAt: true, _count: { select: { revisions: true } } },
+    })
+
+    if (expectedRevision !== undefined && current.revision !== expectedRevision) {
+      throw new MenuRevisionConflictError(`菜单已被修改为第${current.revision}版，请刷新后重新编辑`)
+    }
+
+    // 版本功能上线前生成的菜单没有版本记录，补存原始内容以免丢失
+    if (current._count.revisions === 0) {
+      await tx.menuRevision.create({
+        data: {
+          menuId,
+          revision: current.revision,
+          weekMenu: current.weekMenu as object,
+          source: 'generate',
+          createdAt: current.createdAt,
+        },
+      })
+    }
+
+    // 同时保存的另一次修改可能已在上面的检查之后递增了版本号，以版本号为条件更新才不会覆盖
+    const { count } = await tx.menu.updateMany({
+      where: expectedRevision === undefined ? { id: menuId } : { id: menuId, revision: expectedRevision },
+      data: {
+        weekMenu: weekMenu as object,
+        revision: { increment: 1 },
+      },
+    })
+    if (count === 0) {
+      throw new MenuRevisionConflictError('菜单已被修改，请刷新后重新编辑')
+    }
+    const menu = await tx.menu.findUniqueOrThrow({ where: { id: menuId } })
+
+    await tx.menuRevision.create({
+      data: {
+        menuId,
+        revision: menu.revision,
+        weekMenu: weekMenu as object,
+        source,
+        summary,
+      },
+    })
+
+    return menu
+  })
+}
+
+/**
+ * 生成手动编辑的变更说明
+ *
+ * 逐天比较编辑前后的菜品，列出新增、移除、改了分类和换了餐次的菜。
+ * 菜品在两天之间拖动时表现为一天移除、另一天新增。
+ *
+ * @param before 编辑前的菜单
+ * @param after 编辑后的菜单
+ * @returns 变更说明，没有任何变化时返回null
+ */
+export function describeMenuEdits(before: WeekMenu, after: WeekMenu): string | null {
+  const changes: string[] = []
+
+  for (const day of WEEK_DAYS) {
+    const label = DAY_LABELS[day]
+    const beforeDishes = before[day] || []
+    const afterDishes = after[day] || []
+    const beforeNames = new Set(beforeDishes.map(dish => dish.name))
+    const afterNames = new Set(afterDishes.map(dish => dish.name))
+
+    for (const dish of beforeDishes) {
+      if (!afterNames.has(dish.name)) changes.push(`${label}移除「${dish.name}」`)
+    }
+    for (const dish of afterDishes) {
+      if (!beforeNames.has(dish.name)) {
+        changes.push(`${label}新增「${dish.name}」`)
+        continue
+      }
+      const previous = beforeDishes.find(item => item.name === dish.name)
+      if (previous && previous.type !== dish.type) {
+        changes.push(`${label}「${dish.name}」改为${DISH_TYPE_LABELS[dish.type]}`)
+      }
+      if (previous && dish.meal && previous.meal !== dish.meal) {
+        changes.push(`${label}「${dish.name}」改到${dish.meal}`)
+      }
+    }
+  }
+
+  if (changes.length === 0) {
+    // 菜品没有增减，只是调整了当天的顺序
+    const dayNames = (menu: WeekMenu, day: (typeof WEEK_DAYS)[number]) => (menu[day] || []).map(dish => dish.name).join()
+    const reordered = WEEK_DAYS.some(day => dayNames(before, day) !== dayNames(after, day))
+    return reordered ? '手动编辑：调整菜品顺序' : null
+  }
+
+  const listed = changes.slice(0, MAX_SUMMARY_ITEMS).join('、')
+  return `手动编辑：${listed}${changes.length > MAX_SUMMARY_ITEMS ? `等${changes.length}处修改` : ''}`
+}
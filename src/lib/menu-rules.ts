@@ -0,0 +1,192 @@
+/**
+ * 开菜规则模块
+ *
+ * 内置的开菜规则来自 docs/ai-prompt-template.json 中的"开菜规则"，每条规则有ID、标题和内容：
+ * - 内容中的 {{设备要求}} 等占位符在生成时按生成参数填写
+ * - 有阈值的规则（如每餐勾芡菜上限）内容中的 {{阈值}} 按食堂的设置填写
+ *
+ * 食堂可以在开菜规则设置页停用内置规则、修改阈值，并补充自己的规则。
+ * 生成时把食堂的设置快照写入 GenerationParams.menuRules，Prompt中的【开菜规则】
+ * 只列出启用的规则；勾芡菜上限同时用于规则校验。旧菜单没有快照时按默认规则处理。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import promptTemplate from '../../docs/ai-prompt-template.json'
+import type { GenerationParams, MenuRuleSetting, MenuRuleSettings } from '@/types'
+
+/** 食堂补充规则的条数和每条的字数上限 */
+export const MAX_CUSTOM_RULES = 10
+export const MAX_CUSTOM_RULE_LENGTH = 100
+
+/** 内容中表示阈值的占位符 */
+const THRESHOLD_PLACEHOLDER = '{{阈值}}'
+
+export interface MenuRuleDefinition {
+  id: string
+  title: string
+  /** 规则内容，可能包含按生成参数或阈值填写的占位符 */
+  content: string
+  threshold?: {
+    label: string
+    unit: string
+    default: number
+    min: number
+    max: number
+  }
+}
+
+/** 内置的开菜规则，按Prompt中的顺序排列 */
+export const MENU_RULE_DEFINITIONS: MenuRuleDefinition[] = promptTemplate.promptTemplate['开菜规则']
+
+/**
+ * 获取默认的开菜规则设置：全部启用，阈值取默认值，没有补充规则
+ */
+export function getDefaultMenuRules(): MenuRuleSettings {
+  return {
+    rules: MENU_RULE_DEFINITIONS.map(definition => (
+      definition.threshold
+        ? { id: definition.id, enabled: true, threshold: definition.threshold.default }
+        : { id: definition.id, enabled: true }
+    )),
+    customRules: [],
+  }
+}
+
+/**
+ * 校验并规范化开菜规则设置
+ *
+ * 处理流程：
+ * 1. 检查内置规则的ID有效、不重复，阈值为范围内的整数
+ * 2. 请求中没有的内置规则按默认设置补上，结果按内置规则的顺序排列
+ * 3. 补充规则去掉首尾空格和空行，检查条数和字数
+ *
+ * @param raw 请求中的开菜规则设置
+ * @returns 规范化后的设置，或可以直接展示给用户的错误信息
+ */
+export function readMenuRules(raw: unknown): { settings: MenuRuleSettings; error: null } | { settings: null; error: string } {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof MenuRuleSettings, unknown>>
+  if (!Array.isArray(source.rules) || !Array.isArray(source.customRules)) {
+    return { settings: null, error: '开菜规则格式错误' }
+  }
+
+  const settings = new Map<string, MenuRuleSetting>()
+  for (const item of source.rules as Array<Partial<MenuRuleSetting> | null>) {
+    const definition = MENU_RULE_DEFINITIONS.find(entry => entry.id === item?.id)
+    if (!definition) {
+      return { settings: null, error: '开菜规则无效' }
+    }
+    if (settings.has(definition.id)) {
+      return { settings: null, error: `开菜规则「${definition.title}」重复` }
+    }
+    if (typeof item!.enabled !== 'boolean') {
+      return { settings: null, error: `请选择是否启用「${definition.title}」` }
+    }
+    if (!definition.threshold) {
+      settings.set(definition.id, { id: definition.id, enabled: item!.enabled })
+      continue
+    }
+    const { threshold } = item!
+    const { label, min, max } = definition.threshold
+    if (!Number.isInteger(threshold) || threshold! < min || threshold! > max) {
+      return { settings: null, error: `「${definition.title}」的${label}必须是${min}到${max}之间的整数` }
+    }
+    settings.set(definition.id, { id: definition.id, enabled: item!.enabled, threshold: threshold! })
+  }
+
+  const customRules: string[] = []
+  for (const rule of source.customRules) {
+    if (typeof rule !== 'string') {
+      return { settings: null, error: '补充规则格式错误' }
+    }
+    const text = rule.trim()
+    if (!text) continue
+    if (text.length > MAX_CUSTOM_RULE_LENGTH) {
+      return { settings: null, error: `每条补充规则不能超过${MAX_CUSTOM_RULE_LENGTH}个字` }
+    }
+    customRules.push(text)
+  }
+  if (customRules.length > MAX_CUSTOM_RULES) {
+    return { settings: null, error: `最多补充${MAX_CUSTOM_RULES}条规则` }
+  }
+
+  const defaults = getDefaultMenuRules()
+  return {
+    settings: { rules: defaults.rules.map(rule => settings.get(rule.id) || rule), customRules },
+    error: null,
+  }
+}
+
+/**
+ * 读取食堂保存的开菜规则设置，没有设置或设置无效时使用默认规则
+ *
+ * 之后新增的内置规则在已保存的设置中没有，按默认设置启用。
+ */
+export function getConfiguredMenuRules(raw: unknown): MenuRuleSettings {
+  if (raw === null || raw === undefined) return getDefaultMenuRules()
+  return readMenuRules(raw).settings || getDefaultMenuRules()
+}
+
+/**
+ * 获取生成参数中一条内置规则的设置，旧菜单没有快照时按默认设置
+ */
+function getRuleSetting(params: GenerationParams, id: string): MenuRuleSetting | undefined {
+  return getConfiguredMenuRules(params.menuRules).rules.find(rule => rule.id === id)
+}
+
+/**
+ * 判断生成参数中一条内置规则是否启用
+ */
+export function isMenuRuleEnabled(params: GenerationParams, id: string): boolean {
+  return getRuleSetting(params, id)?.enabled ?? false
+}
+
+/**
+ * 获取生成参数中一条内置规则的阈值
+ *
+ * @returns 阈值，规则停用或没有阈值时返回null
+ */
+export function getMenuRuleThreshold(params: GenerationParams, id: string): number | null {
+  const setting = getRuleSetting(params, id)
+  return setting?.enabled && setting.threshold !== undefined ? setting.threshold : null
+}
+
+/**
+ * 填写规则内容中的占位符
+ *
+ * @param definition 内置规则
+ * @param threshold 阈值，规则没有阈值时忽略
+ * @param values 按生成参数填写的占位符，如 { 设备要求: '…' }；没有提供的占位符保留原样
+ */
+export function formatMenuRuleContent(
+  definition: MenuRuleDefinition,
+  threshold: number | undefined,
+  values: Record<string, string> = {}
+): string {
+  let content = definition.content
+  if (definition.threshold) {
+    content = content.split(THRESHOLD_PLACEHOLDER).join(String(threshold ?? definition.threshold.default))
+  }
+  return content.replace(/\{\{(.+?)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder)
+}
+
+/**
+ * 生成Prompt中的【开菜规则】
+ *
+ * 按顺序列出启用的内置规则，再列出食堂的补充规则，统一编号。
+ *
+ * @param params 生成参数
+ * @param values 按生成参数填写的占位符
+ * @returns 每条规则一行，没有任何规则时返回null
+ */
+export function buildMenuRulesText(params: GenerationParams, values: Record<string, string>): string | null {
+  const settings = getConfiguredMenuRules(params.menuRules)
+  const lines = [
+    ...MENU_RULE_DEFINITIONS.flatMap(definition => {
+      const setting = settings.rules.find(rule => rule.id === definition.id)
+      return setting?.enabled ? [`${definition.title}：${formatMenuRuleContent(definition, setting.threshold, values)}`] : []
+    }),
+    ...settings.customRules,
+  ]
+  return lines.length > 0 ? lines.map((line, index) => `${index + 1}. ${line}`).join('\n') : null
+}
@@ -0,0 +1,280 @@
+/**
+ * 菜单规则校验模块
+ *
+ * 对AI生成的一周菜单进行确定性的硬约束校验，覆盖buildPrompt中
+ * 向模型承诺的所有数量类规则。校验结果既用于重试时向模型反馈
+ * 具体违规项，也作为逐条规则的通过/失败报告返回给前端。
+ *
+ * 按生成参数中的供餐日逐天校验，校验的规则：
+ * 1. 每天（每个餐次）热菜、凉菜数量
+ * 2. 每天（每个餐次）主荤、半荤、素菜数量
+ * 3. 一周历史菜总数（以历史菜单核实后的标注为准）
+ * 4. 每餐勾芡菜不超过上限（按开菜规则设置，默认2道，停用该规则时不校验）
+ * 5. 多餐次时，同一天各餐次之间菜品不重复
+ * 6. 多周循环菜单中，与之前各周的菜品不重复
+ * 7. 有清真、全素日、治疗膳食或过敏原等饮食要求时，菜品不含禁用食材
+ * 8. 登记了烹饪设备且启用设备规则时，每餐各种做法的热菜不超过设备产能
+ */
+
+import { DAY_LABELS } from './menu-format'
+import { getDishMeal, getMealNames, getMealSlots } from './meal-slots'
+import { getServiceDays } from './service-days'
+import { normalizeDishName } from './historical-matcher'
+import { describeDietaryMatch, findDietaryMatches, hasDietaryRequirements } from './dietary-rules'
+import { countMustUseIngredients, findUnavailableIngredient, hasIngredientSupply } from './ingredient-supply'
+import { findMealTypeIssue, getMealType, hasMealTypeChecks } from './meal-type-rules'
+import { describeEquipmentOverload, findEquipmentOverloads } from './equipment'
+import { getMenuRuleThreshold, isMenuRuleEnabled } from './menu-rules'
+import type { CycleDish, GenerationParams, MenuValidationReport, ValidationRuleResult, WeekMenu } from '@/types'
+
+/**
+ * 勾芡菜识别关键词
+ *
+ * 菜名中无法直接看出是否勾芡，这里使用团餐中常见的勾芡做法
+ * 作为启发式判断（熘、烩、扒、浇汁、羹以及糖醋、鱼香等芡汁口味）。
+ */
+const THICKENED_KEYWORDS = ['勾芡', '芡', '熘', '溜', '烩', '扒', '浇汁', '羹', '糖醋', '鱼香']
+
+/**
+ * 判断菜品是否为勾芡菜
+ */
+export function isThickenedDish(name: string): boolean {
+  return THICKENED_KEYWORDS.some(keyword => name.includes(keyword))
+}
+
+/**
+ * 计算一周应有的历史菜数量
+ *
+ * 与buildPrompt中的计算保持一致，确保校验口径和Prompt要求相同。
+ * 按所有餐次每天的菜品总数乘以供餐天数计算。
+ *
+ * @param canteen 食堂热菜、凉菜数量，单餐模式使用
+ * @param params 生成参数，包含历史菜占比、餐次和供餐日
+ */
+export function getHistoricalDishTarget(
+  canteen: { hotDishCount: number; coldDishCount: number },
+  params: GenerationParams
+): number {
+  const dishesPerDay = getMealSlots(canteen, params)
+    .reduce((sum, slot) => sum + slot.hotDishCount + slot.coldDishCount, 0)
+  return Math.round(dishesPerDay * getServiceDays(params).length * params.historicalRatio / 100)
+}
+
+/**
+ * 校验一周菜单是否满足所有硬约束
+ *
+ * @param weekMenu 解析后的一周菜单
+ * @param canteen 食堂基础配置（热菜数量、凉菜数量），单餐模式使用
+ * @param params 生成参数，多餐次时包含各餐次的数量配置
+ * @param cycleDishes 多周循环菜单中之前各周用过的菜品（按规范化菜名索引），提供时检查不重复
+ * @returns 逐条规则的校验报告
+ */
+export function validateWeekMenu(
+  weekMenu: WeekMenu,
+  canteen: { hotDishCount: number; coldDishCount: number },
+  params: GenerationParams,
+  cycleDishes?: Map<string, CycleDish>
+): MenuValidationReport {
+  const slots = getMealSlots(canteen, params)
+  const multiMeal = getMealNames(params) !== null
+  const thickenedLimit = getMenuRuleThreshold(params, 'thickened')
+  const equipment = isMenuRuleEnabled(params, 'equipment') ? params.equipment : undefined
+  const dishCountViolations: string[] = []
+  const categoryViolations: string[] = []
+  const thickenedViolations: string[] = []
+  const mealDuplicateViolations: string[] = []
+  const cycleDuplicateViolations: string[] = []
+  const dietaryViolations: string[] = []
+  const supplyViolations: string[] = []
+  const mealTypeViolations: string[] = []
+  const equipmentViolations: string[] = []
+  let historicalCount = 0
+
+  for (const day of getServiceDays(params)) {
+    const dayDishes = weekMenu[day] || []
+    historicalCount += dayDishes.filter(dish => dish.isHistorical).length
+
+    for (const dish of dayDishes) {
+      const used = cycleDishes?.get(normalizeDishName(dish.name))
+      if (used) {
+        cycleDuplicateViolations.push(`${DAY_LABELS[day]}「${dish.name}」在循环第${used.week}周已经出现过`)
+      }
+      for (const match of findDietaryMatches(dish.name, params, day)) {
+        dietaryViolations.push(`${DAY_LABELS[day]}${describeDietaryMatch(dish.name, match)}`)
+      }
+      const unavailable = findUnavailableIngredient(dish.name, params)
+      if (unavailable) {
+        supplyViolations.push(`${DAY_LABELS[day]}「${dish.name}」使用了本周缺货的${unavailable}`)
+      }
+      const mealTypeIssue = findMealTypeIssue(dish, params)
+      if (mealTypeIssue) {
+        mealTypeViolations.push(`${DAY_LABELS[day]}「${dish.name}」：${mealTypeIssue}`)
+      }
+    }
+
+    for (const slot of slots) {
+      // 单餐菜单的违规项沿用原来的"周一热菜…"写法
+      const label = multiMeal ? `${DAY_LABELS[day]}${slot.name}` : DAY_LABELS[day]
+      const dishes = multiMeal ? dayDishes.filter(dish => getDishMeal(dish) === slot.name) : dayDishes
+
+      const counts = { mainMeat: 0, halfMeat: 0, vegetarian: 0, cold: 0 }
+      for (const dish of dishes) {
+        counts[dish.type]++
+      }
+
+      const hotCount = counts.mainMeat + counts.halfMeat + counts.vegetarian
+      if (hotCount !== slot.hotDishCount) {
+        dishCountViolations.push(`${label}热菜${hotCount}道，应为${slot.hotDishCount}道`)
+      }
+      if (counts.cold !== slot.coldDishCount) {
+        dishCountViolations.push(`${label}凉菜${counts.cold}道，应为${slot.coldDishCount}道`)
+      }
+
+      if (counts.mainMeat !== slot.mainMeatCount) {
+        categoryViolations.push(`${label}主荤菜${counts.mainMeat}道，应为${slot.mainMeatCount}道`)
+      }
+      if (counts.halfMeat !== slot.halfMeatCount) {
+        categoryViolations.push(`${label}半荤菜${counts.halfMeat}道，应为${slot.halfMeatCount}道`)
+      }
+      if (counts.vegetarian !== slot.vegetarianCount) {
+        categoryViolations.push(`${label}素菜${counts.vegetarian}道，应为${slot.vegetarianCount}道`)
+      }
+
+      const thickened = dishes.filter(dish => isThickenedDish(dish.name)).map(dish => dish.name)
+      if (thickenedLimit !== null && thickened.length > thickenedLimit) {
+        thickenedViolations.push(`${label}勾芡菜${thickened.length}道（${thickened.join('、')}），不能超过${thickenedLimit}道`)
+      }
+
+      if (equipment) {
+        for (const overload of findEquipmentOverloads(dishes, equipment)) {
+          equipmentViolations.push(`${label}${describeEquipmentOverload(overload)}`)
+        }
+      }
+    }
+
+    if (slots.length > 1) {
+      const mealsByName = new Map<string, { name: string; meals: string[] }>()
+      for (const dish of dayDishes) {
+        const key = normalizeDishName(dish.name)
+        const entry = mealsByName.get(key) || { name: dish.name, meals: [] }
+        entry.meals.push(getDishMeal(dish))
+        mealsByName.set(key, entry)
+      }
+      for (const { name, meals } of mealsByName.values()) {
+        if (meals.length > 1) {
+          mealDuplicateViolations.push(`${DAY_LABELS[day]}「${name}」在${meals.join('、')}重复出现`)
+        }
+      }
+    }
+  }
+
+  for (const { name, minCount, count } of countMustUseIngredients(weekMenu, getServiceDays(params), params)) {
+    if (count < minCount) {
+      supplyViolations.push(`一周使用${name}的菜品${count}道，至少应为${minCount}道`)
+    }
+  }
+
+  const historicalTarget = getHistoricalDishTarget(canteen, params)
+  const historicalViolations = historicalCount === historicalTarget
+    ? []
+    : [`一周来源于历史菜单的菜品共${historicalCount}道，应为${historicalTarget}道`]
+
+  const rules: ValidationRuleResult[] = [
+    { rule: 'dishCount', label: '每天热菜/凉菜数量', passed: dishCountViolations.length === 0, violations: dishCountViolations },
+    { rule: 'categoryCount', label: '每天主荤/半荤/素菜数量', passed: categoryViolations.length === 0, violations: categoryViolations },
+    { rule: 'historicalCount', label: '一周历史菜数量', passed: historicalViolations.length === 0, violations: historicalViolations },
+  ]
+  if (thickenedLimit !== null) {
+    rules.push({
+      rule: 'thickenedLimit',
+      label: `每餐勾芡菜不超过${thickenedLimit}道`,
+      passed: thickenedViolations.length === 0,
+      violations: thickenedViolations,
+    })
+  }
+  if (slots.length > 1) {
+    rules.push({
+      rule: 'mealDuplicate',
+      label: '同一天各餐次菜品不重复',
+      passed: mealDuplicateViolations.length === 0,
+      violations: mealDuplicateViolations,
+    })
+  }
+  if (hasDietaryRequirements(params)) {
+    rules.push({
+      rule: 'dietary',
+      label: '饮食要求（清真、全素日、治疗膳食、过敏原）',
+      passed: dietaryViolations.length === 0,
+      violations: dietaryViolations,
+    })
+  }
+  if (hasMealTypeChecks(params)) {
+    rules.push({
+      rule: 'mealType',
+      label: `${getMealType(params)}菜品适宜性`,
+      passed: mealTypeViolations.length === 0,
+      violations: mealTypeViolations,
+    })
+  }
+  if (equipment) {
+    rules.push({
+      rule: 'equipmentCapacity',
+      label: '每餐烹饪设备产能',
+      passed: equipmentViolations.length === 0,
+      violations: equipmentViolations,
+    })
+  }
+  if (hasIngredientSupply(params)) {
+    rules.push({
+      rule: 'ingredientSupply',
+      label: '食材供应（必用食材、缺货食材）',
+      passed: supplyViolations.length === 0,
+      violations: supplyViolations,
+    })
+  }
+  if (cycleDishes) {
+    rules.push({
+      rule: 'cycleDuplicate',
+      label: '循环内各周菜品不重复',
+      passed: cycleDuplicateViolations.length === 0,
+      violations: cycleDuplicateViolations,
+    })
+  }
+
+  return {
+    passed: rules.every(rule => rule.passed),
+    rules,
+  }
+}
+
+/**
+ * 统计校验报告中的违规项总数
+ *
+ * 多次尝试都未完全通过时，用于挑选违规最少的一份菜单。
+ */
+export function countViolations(report: MenuValidationReport): number {
+  return report.rules.reduce((sum, rule) => sum + rule.violations.length, 0)
+}
+
+/**
+ * 构建纠正提示
+ *
+ * 将校验失败的规则整理成发给模型的追加消息，要求其基于
+ * 上一次的输出修正具体问题并重新输出完整JSON。
+ *
+ * @param report 校验报告
+ * @param notes 附加说明（如历史标注被修正、与近期菜单重复的菜品）
+ */
+export function buildCorrectionMessage(report: MenuValidationReport, notes: string[] = []): string {
+  const lines = report.rules
+    .filter(rule => !rule.passed)
+    .flatMap(rule => rule.violations.map(violation => `- 【${rule.label}】${violation}`))
+  const noteText = notes.length > 0
+    ? `\n\n另外还有以下问题需要一并修正：\n${notes.map(note => `- ${note}`).join('\n')}`
+    : ''
+
+  return `你上一次输出的菜单没有满足以下硬性要求：
+${lines.join('\n')}${noteText}
+
+请在保留符合要求的菜品的基础上修正以上问题，并按照原来的JSON格式重新输出完整的一周菜单，不要输出任何其他内容。`
+}
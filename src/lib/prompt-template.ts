@@ -0,0 +1,135 @@
+/**
+ * Prompt模板内容模块
+ *
+ * Prompt中可以调整的文字部分：系统提示、生成参数对应的要求、参考数据和菜品分类定义。
+ * 内置模板即原来写在代码中的模板；管理员可以在此基础上保存新的模板版本（见 prompt-versions.ts），
+ * Prompt的结构和数量、历史菜等硬性要求仍由 buildPrompt 组装。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import type { PromptTemplateContent } from '@/types'
+
+/** 各部分的字数上限 */
+const MAX_SYSTEM_PROMPT_LENGTH = 1000
+const MAX_MAPPING_LENGTH = 300
+const MAX_SECTION_LENGTH = 2000
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 100
+
+/**
+ * 内置的Prompt模板
+ *
+ * 定义了与AI交互的核心规则和参数映射，包含了团餐行业的专业知识和约束条件，
+ * 确保生成的菜单符合实际运营需求。系统提示中的{天数}、{餐次}在生成时填写。
+ */
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplateContent = {
+  systemPrompt: "你是一位在中国团餐行业工作多年的经验丰富的厨师长。请严格按照以下【开菜规则】和【约束条件】，为团餐食堂生成{天数}的{餐次}菜谱。",
+
+  parameterMappings: {
+    "设备要求": {
+      "蒸屉": "蒸屉紧缺，不要出现蒸菜",
+      "烤箱": "烤箱紧缺，不要出现烤菜",
+      "炒锅": "炒锅紧缺，出现炒菜不超过(<=)2道",
+      "炖锅": "炖锅紧缺，不要出现炖菜", 
+      "烧炉": "烧炉紧缺，不要出现烧菜",
+      "无": "所有烹饪设备均充足，蒸屉、烤箱、砂锅、炖锅、烧炉的使用注重均衡协调"
+    },
+    
+    "菜品做工比例": {
+      "1:1:1": "现炒、一锅出、半成品的比例为1:1:1",
+      "1:0.5:0.5": "现炒、一锅出、半成品的比例为1:0.5:0.5",
+      "0.5:1:0.5": "现炒、一锅出、半成品的比例为0.5:1:0.5",
+      "0.5:0.5:1": "现炒、一锅出、半成品的比例为0.5:0.5:1",
+      "无要求": ""
+    },
+    
+    "人员配置": {
+      "scarce": "厨师人手紧缺，需要减少整体刀工复杂度，复杂刀工菜不超过20%",
+      "abundant": "厨师人手宽裕，可以出20-33%复杂刀工菜品以体现技术"
+    },
+    
+    "辣味菜要求": {
+      "none": "不要出现辣菜",
+      "mild": "微辣，辣菜在总数量占比10-20%",
+      "medium": "中辣，辣菜在总数量占比20-30%"
+    },
+    
+    "调味品多样性": {
+      "true": "在酸、甜、苦、辣、咸、鲜、麻、香、清淡9种风味之中，每餐出现风味不少于5种",
+      "false": "无要求"
+    },
+    
+    "原材料多样性": {
+      "4种": "一餐出品的原材料不少于4种",
+      "5种": "一餐出品的原材料不少于5种",
+      "6种": "一餐出品的原材料不少于6种", 
+      "无要求": ""
+    }
+  },
+
+  referenceData: {
+    "原材料": "常用高频原材料：鸡蛋、茄子、南瓜、娃娃菜、土豆、冬瓜、小白菜、油菜、苦瓜、丝瓜、鲈鱼、草鱼、龙利鱼、虾仁、鸡胸肉、三黄鸡、鸡腿肉、五花肉、猪里脊肉、牛里脊、老豆腐、香菇等",
+    "烹饪方式": "主要烹饪方式：炒、熘、蒸、烧、烤、炖、煎、烹；辅助烹饪方式：炸、焗、煨、浇汁、烩、汆、灼、白灼、焖、淋、煲、卤、扒、熏、煮、煸、酿、爆、烹汁、汤、浸、拌、凉拌、溜",
+    "风味": "咸香、咸鲜、咸酸、蒜香、酸甜、香甜、葱香、咸辣、酸辣、辣、麻辣、甜辣、鲜辣、辣鲜、麻鲜、鲜香、醲香、香辣、孜然、复合、黑椒、酱香、酸香、甜、干香、咖喱、蜜汁、豉香、酒香、茄汁、奶香"
+  },
+
+  categoryDefinitions: `主荤菜：以肉类/海鲜为主要食材，体现'硬菜'感觉的菜品，即使有配菜也算主荤（如可乐鸡翅、孜然羊排、红烧鲷鱼、土豆炖牛肉等）
+半荤菜：荤素搭配的菜品，荤菜和素菜比例相当（如青笋炒肉片、宫保鸡丁等）
+素菜：纯素食或以蔬菜为主的菜品
+凉菜：不区分荤素，一般以素食为主以控制成本`,
+}
+
+/**
+ * 校验并整理请求中的模板内容
+ *
+ * 以内置模板为准：参数映射和参考数据只保留内置模板中有的项，每一项都必须提供；
+ * 参数映射中"无要求"等选项可以为空，其余部分不能为空。
+ *
+ * @param raw 请求中的模板内容
+ * @returns 整理后的模板内容，或可以直接展示给用户的错误信息
+ */
+export function readPromptTemplateContent(
+  raw: unknown
+): { content: PromptTemplateContent; error: null } | { content: null; error: string } {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof PromptTemplateContent, unknown>>
+
+  const readText = (value: unknown, maxLength: number, allowEmpty = false) => {
+    const text = typeof value === 'string' ? value.trim() : null
+    return text !== null && text.length <= maxLength && (allowEmpty || text) ? text : null
+  }
+
+  const systemPrompt = readText(source.systemPrompt, MAX_SYSTEM_PROMPT_LENGTH)
+  if (systemPrompt === null) {
+    return { content: null, error: `系统提示不能为空，且不能超过${MAX_SYSTEM_PROMPT_LENGTH}个字` }
+  }
+
+  const rawMappings = (source.parameterMappings || {}) as Record<string, Record<string, unknown> | undefined>
+  const parameterMappings: PromptTemplateContent['parameterMappings'] = {}
+  for (const [group, options] of Object.entries(DEFAULT_PROMPT_TEMPLATE.parameterMappings)) {
+    parameterMappings[group] = {}
+    for (const option of Object.keys(options)) {
+      const text = readText(rawMappings[group]?.[option], MAX_MAPPING_LENGTH, true)
+      if (text === null) {
+        return { content: null, error: `「${group}」中「${option}」对应的要求不能超过${MAX_MAPPING_LENGTH}个字` }
+      }
+      parameterMappings[group][option] = text
+    }
+  }
+
+  const rawReference = (source.referenceData || {}) as Record<string, unknown>
+  const referenceData: PromptTemplateContent['referenceData'] = {}
+  for (const name of Object.keys(DEFAULT_PROMPT_TEMPLATE.referenceData)) {
+    const text = readText(rawReference[name], MAX_SECTION_LENGTH)
+    if (text === null) {
+      return { content: null, error: `参考数据「${name}」不能为空，且不能超过${MAX_SECTION_LENGTH}个字` }
+    }
+    referenceData[name] = text
+  }
+
+  const categoryDefinitions = readText(source.categoryDefinitions, MAX_SECTION_LENGTH)
+  if (categoryDefinitions === null) {
+    return { content: null, error: `菜品分类定义不能为空，且不能超过${MAX_SECTION_LENGTH}个字` }
+  }
+
+  return { content: { systemPrompt, parameterMappings, referenceData, categoryDefinitions }, error: null }
+}
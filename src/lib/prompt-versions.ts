@@ -0,0 +1,141 @@
+/**
+ * Prompt模板版本模块
+ *
+ * 管理员可以在内置模板或已有版本的基础上保存新的Prompt模板版本，并为各版本设置流量权重，
+ * 对比不同版本的生成效果：
+ * 1. 每次发起完整生成时按流量权重随机选定一个版本，写入 GenerationParams.promptVersion，
+ *    之后的局部重新生成沿用同一版本；所有版本的权重都为0时使用内置模板
+ * 2. 生成调用记录（GenerationRun）中记录使用的版本，按版本统计校验通过率、
+ *    纠正重试次数、厨师手动编辑比例和耗时
+ *
+ * 版本保存后内容不再修改，需要调整时保存为新版本，保证统计结果对应确定的模板内容。
+ */
+
+import { prisma } from './db'
+import { DEFAULT_PROMPT_TEMPLATE, readPromptTemplateContent } from './prompt-template'
+import type { GenerationAttemptLog, PromptTemplateContent, PromptTemplateVersion, PromptVersionMetrics } from '@/types'
+
+/** 统计效果时最多读取的生成记录条数 */
+const MAX_METRICS_RUNS = 5000
+
+/**
+ * 列出所有模板版本，按版本号从新到旧排列
+ */
+export async function listPromptVersions(): Promise<PromptTemplateVersion[]> {
+  const templates = await prisma.promptTemplate.findMany({ orderBy: { version: 'desc' } })
+  return templates.map(template => ({
+    version: template.version,
+    description: template.description,
+    content: readPromptTemplateContent(template.content).content || DEFAULT_PROMPT_TEMPLATE,
+    trafficWeight: template.trafficWeight,
+    createdAt: template.createdAt.toISOString(),
+  }))
+}
+
+/**
+ * 保存新的模板版本，版本号为现有最大版本号加1，初始不分配流量
+ *
+ * @param description 修改说明
+ * @param content 已校验的模板内容
+ * @returns 新版本的版本号
+ */
+export async function createPromptVersion(description: string, content: PromptTemplateContent): Promise<number> {
+  const latest = await prisma.promptTemplate.findFirst({ orderBy: { version: 'desc' }, select: { version: true } })
+  const template = await prisma.promptTemplate.create({
+    data: { version: (latest?.version ?? 0) + 1, description, content: content as object },
+    select: { version: true },
+  })
+  return template.version
+}
+
+/**
+ * 按流量权重选定本次生成使用的模板版本
+ *
+ * @returns 版本号，所有版本的权重都为0时返回undefined，表示使用内置模板
+ */
+export async function selectPromptVersion(): Promise<number | undefined> {
+  const templates = await prisma.promptTemplate.findMany({
+    where: { trafficWeight: { gt: 0 } },
+    select: { version: true, trafficWeight: true },
+    orderBy: { version: 'asc' },
+  })
+  const totalWeight = templates.reduce((sum, template) => sum + template.trafficWeight, 0)
+  if (totalWeight === 0) return undefined
+
+  let point = Math.random() * totalWeight
+  for (const template of templates) {
+    point -= template.trafficWeight
+    if (point < 0) return template.version
+  }
+  return templates[templates.length - 1].version
+}
+
+/**
+ * 读取生成使用的模板内容
+ *
+ * @param version 模板版本，为空时使用内置模板
+ * @returns 模板内容，版本不存在或内容无效时使用内置模板
+ */
+export async function loadPromptTemplate(version?: number): Promise<PromptTemplateContent> {
+  if (version === undefined) return DEFAULT_PROMPT_TEMPLATE
+
+  const template = await prisma.promptTemplate.findUnique({ where: { version }, select: { content: true } })
+  const content = template ? readPromptTemplateContent(template.content).content : null
+  if (!content) {
+    console.warn(`Prompt template version ${version} not found or invalid, using default template`)
+    return DEFAULT_PROMPT_TEMPLATE
+  }
+  return content
+}
+
+/**
+ * 按模板版本统计一段时间内完整生成的效果
+ *
+ * 处理流程：
+ * 1. 读取统计期内的完整生成记录，局部重新生成只替换个别菜，不参与对比
+ * 2. 最后一次调用通过全部校验的生成计为通过，生成失败计为未通过
+ * 3. 纠正重试次数为调用次数减1
+ * 4. 保存了菜单的生成中，菜单有手动编辑版本的计为被编辑
+ *
+ * @param since 统计开始时间
+ * @returns 每个有生成记录的版本一项，内置模板的版本为null，按版本号排列
+ */
+export async function getPromptVersionMetrics(since: Date): Promise<PromptVersionMetrics[]> {
+  const runs = await prisma.generationRun.findMany({
+    where: { kind: 'generate', createdAt: { gte: since } },
+    select: { promptVersion: true, status: true, attempts: true, latencyMs: true, menuId: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_METRICS_RUNS,
+  })
+
+  const menuIds = runs.map(run => run.menuId).filter((id): id is string => id !== null)
+  const editedRevisions = await prisma.menuRevision.findMany({
+    where: { menuId: { in: menuIds }, source: 'edit' },
+    select: { menuId: true },
+    distinct: ['menuId'],
+  })
+  const editedMenus = new Set(editedRevisions.map(revision => revision.menuId))
+
+  const groups = new Map<number | null, typeof runs>()
+  for (const run of runs) {
+    groups.set(run.promptVersion, [...(groups.get(run.promptVersion) || []), run])
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a ?? 0) - (b ?? 0))
+    .map(([version, group]) => {
+      const attemptLogs = group.map(run => run.attempts as unknown as GenerationAttemptLog[])
+      const passed = group.filter((run, index) => run.status === 'success' && attemptLogs[index].at(-1)?.outcome === 'passed')
+      const savedMenus = group.filter(run => run.menuId !== null)
+      return {
+        version,
+        runCount: group.length,
+        passRate: passed.length / group.length,
+        averageRetries: attemptLogs.reduce((sum, logs) => sum + Math.max(logs.length - 1, 0), 0) / group.length,
+        editRate: savedMenus.length > 0
+          ? savedMenus.filter(run => editedMenus.has(run.menuId!)).length / savedMenus.length
+          : null,
+        averageLatencyMs: Math.round(group.reduce((sum, run) => sum + run.latencyMs, 0) / group.length),
+      }
+    })
+}
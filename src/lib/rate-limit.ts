@@ -0,0 +1,61 @@
+/**
+ * 进程内滑动窗口限流
+ *
+ * 用于限制短时间内的突发请求（如连续点击生成按钮），按key分别计数。
+ * 计数只保存在当前进程内，多实例部署时每个实例单独限流；
+ * 长期的用量上限由数据库中的生成次数配额控制。
+ */
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** 被拒绝时，距离可以再次请求的秒数 */
+  retryAfterSeconds: number
+}
+
+export interface RateLimiter {
+  /** 检查并记录一次请求，被拒绝的请求不计数 */
+  consume(key: string): RateLimitResult
+}
+
+/**
+ * 创建滑动窗口限流器
+ *
+ * @param options.name 限流器名称，同名限流器在开发环境热更新后共用计数
+ * @param options.windowMs 窗口长度（毫秒）
+ * @param options.max 窗口内允许的最大请求数，0表示不限制
+ */
+export function createRateLimiter(options: { name: string; windowMs: number; max: number }): RateLimiter {
+  // 与Prisma客户端相同，挂在globalThis上避免开发环境热更新时丢失计数
+  const globalForLimiters = globalThis as unknown as {
+    rateLimitHits: Map<string, Map<string, number[]>> | undefined
+  }
+  globalForLimiters.rateLimitHits ??= new Map()
+  const registry = globalForLimiters.rateLimitHits
+  if (!registry.has(options.name)) {
+    registry.set(options.name, new Map())
+  }
+  const hits = registry.get(options.name)!
+
+  return {
+    consume(key) {
+      if (options.max <= 0) {
+        return { allowed: true, retryAfterSeconds: 0 }
+      }
+
+      const now = Date.now()
+      const recent = (hits.get(key) ?? []).filter(time => now - time < options.windowMs)
+
+      if (recent.length >= options.max) {
+        hits.set(key, recent)
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.ceil((recent[0] + options.windowMs - now) / 1000),
+        }
+      }
+
+      recent.push(now)
+      hits.set(key, recent)
+      return { allowed: true, retryAfterSeconds: 0 }
+    },
+  }
+}
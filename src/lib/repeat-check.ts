@@ -0,0 +1,114 @@
+/**
+ * 跨周重复检查模块
+ *
+ * 只参考历史菜单时，AI每周都可能生成同样的"原创菜"。本模块读取食堂
+ * 最近几周生成的菜单，在Prompt中列出需要避开的菜品，并在生成后
+ * 找出仍然重复的菜品。
+ *
+ * 重复周数由 Canteen.repeatAvoidanceWeeks 配置，为0时不做检查。
+ */
+
+import { prisma } from './db'
+import { normalizeDishName } from './historical-matcher'
+import { getMenuDays, normalizeWeekMenu } from './menu-format'
+import type { RepeatCheckResult, RepeatedDish, WeekMenu } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface RecentDish {
+  name: string
+  lastServedAt: Date
+}
+
+/**
+ * 读取食堂最近N周生成的菜品
+ *
+ * @param canteenId 食堂ID
+ * @param weeks 回溯的周数
+ * @param excludeMenuId 不参与比较的菜单，局部重新生成时排除正在修改的菜单本身
+ * @returns 以规范化菜名为键的最近出现记录
+ */
+export async function loadRecentDishes(
+  canteenId: string,
+  weeks: number,
+  excludeMenuId?: string
+): Promise<Map<string, RecentDish>> {
+  const recentDishes = new Map<string, RecentDish>()
+  if (weeks <= 0) {
+    return recentDishes
+  }
+
+  const menus = await prisma.menu.findMany({
+    where: {
+      canteenId,
+      createdAt: { gte: new Date(Date.now() - weeks * 7 * DAY_MS) },
+      ...(excludeMenuId ? { id: { not: excludeMenuId } } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { weekMenu: true, createdAt: true },
+  })
+
+  // 按时间倒序遍历，同名菜品只保留最近一次
+  for (const menu of menus) {
+    const weekMenu = normalizeWeekMenu(menu.weekMenu)
+    for (const day of getMenuDays(weekMenu)) {
+      for (const dish of weekMenu[day]!) {
+        const key = normalizeDishName(dish.name)
+        if (key && !recentDishes.has(key)) {
+          recentDishes.set(key, { name: dish.name, lastServedAt: menu.createdAt })
+        }
+      }
+    }
+  }
+
+  return recentDishes
+}
+
+/**
+ * 判断菜品是否在近期菜单中出现过
+ */
+export function isRecentDish(name: string, recentDishes: Map<string, RecentDish>): boolean {
+  return recentDishes.has(normalizeDishName(name))
+}
+
+/**
+ * 找出新菜单中与近期菜单重复的菜品
+ *
+ * @param weekMenu 新生成的一周菜单
+ * @param recentDishes loadRecentDishes的返回值
+ * @param windowWeeks 回溯的周数，原样写入结果
+ */
+export function findRecentRepeats(
+  weekMenu: WeekMenu,
+  recentDishes: Map<string, RecentDish>,
+  windowWeeks: number
+): RepeatCheckResult {
+  const repeats: RepeatedDish[] = []
+
+  for (const day of getMenuDays(weekMenu)) {
+    for (const dish of weekMenu[day]!) {
+      const recent = recentDishes.get(normalizeDishName(dish.name))
+      if (recent) {
+        repeats.push({
+          day,
+          name: dish.name,
+          isHistorical: dish.isHistorical,
+          lastServedAt: recent.lastServedAt.toISOString(),
+        })
+      }
+    }
+  }
+
+  return { windowWeeks, repeats }
+}
+
+/**
+ * 将重复的原创菜整理为发给模型的说明
+ *
+ * 历史菜本来就是有意复用的，只对原创菜提出替换要求。
+ */
+export function describeRepeats(result: RepeatCheckResult): string[] {
+  return result.repeats
+    .filter(repeat => !repeat.isHistorical)
+    .map(repeat => `「${repeat.name}」在最近${result.windowWeeks}周的菜单中已经出现过，请换成其他原创菜`)
+}
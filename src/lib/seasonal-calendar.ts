@@ -0,0 +1,122 @@
+/**
+ * 时令食材模块
+ *
+ * 时令食材数据保存在 src/data/seasonal-produce.json 中，按月份列出当季的蔬菜和水产，
+ * 各地区的食堂按当地的上市季节修改该文件即可。
+ *
+ * 生成时按菜单对应的月份：
+ * 1. Prompt中列出这个月的节气和当季食材，要求优先使用；其他月份才上市的食材作为过季食材，要求尽量避开
+ * 2. 生成后按菜名识别菜单用到的当季、过季食材，随生成结果返回
+ *
+ * 时令只是偏好，不作为校验规则。本模块不访问数据库，前端和服务端共用。
+ */
+
+import seasonalProduce from '@/data/seasonal-produce.json'
+import { getCurrentWeekStart, getDayDate } from './holiday-calendar'
+import { matchIngredient } from './ingredient-supply'
+import { getServiceDays } from './service-days'
+import type { GenerationParams, SeasonalCheckResult, SeasonalIngredientUse, WeekMenu } from '@/types'
+
+interface SeasonalMonth {
+  solarTerms: string[]
+  vegetables: string[]
+  seafood: string[]
+}
+
+const calendar: { region: string; months: Record<string, SeasonalMonth> } = seasonalProduce
+
+/** 时令食材日历对应的地区，页面上提示用 */
+export const SEASONAL_REGION = calendar.region
+
+/**
+ * 确定菜单对应的月份
+ *
+ * 按这周周四所在的月份计算，跨月的一周归入天数较多的月份；
+ * 未指定菜单日期时按北京时间的本周计算。
+ *
+ * @param weekStart 菜单对应周的周一（YYYY-MM-DD）
+ * @returns 月份，1-12
+ */
+export function getSeasonMonth(weekStart?: string | null, now = new Date()): number {
+  return Number(getDayDate(weekStart || getCurrentWeekStart(now), 'thursday').slice(5, 7))
+}
+
+/**
+ * 获取某个月的当季食材，蔬菜在前、水产在后
+ */
+export function getInSeasonIngredients(month: number): string[] {
+  const produce = calendar.months[String(month)]
+  return produce ? [...produce.vegetables, ...produce.seafood] : []
+}
+
+/**
+ * 获取某个月的过季食材：日历中其他月份才上市、这个月不上市的食材
+ */
+export function getOutOfSeasonIngredients(month: number): string[] {
+  const inSeason = getInSeasonIngredients(month)
+  const all = Object.keys(calendar.months).flatMap(key => getInSeasonIngredients(Number(key)))
+  return [...new Set(all)].filter(ingredient => !inSeason.includes(ingredient))
+}
+
+/**
+ * 判断一道菜是否用到过季食材，挑选历史菜时过季的排在后面
+ */
+export function isOutOfSeasonDish(name: string, month: number): boolean {
+  return getOutOfSeasonIngredients(month).some(ingredient => matchIngredient(name, ingredient))
+}
+
+/**
+ * 生成Prompt中的时令食材说明
+ *
+ * 缺货食材不列为当季推荐，必用食材不列为过季食材，以食材供应要求为准。
+ *
+ * @param params 生成参数
+ * @returns 时令说明，旧菜单没有月份时返回null
+ */
+export function buildSeasonalText(params: GenerationParams): string | null {
+  const month = params.seasonMonth
+  const produce = month ? calendar.months[String(month)] : undefined
+  if (!month || !produce) return null
+
+  const unavailable = params.unavailableIngredients || []
+  const mustUse = (params.mustUseIngredients || []).map(ingredient => ingredient.name)
+  const vegetables = produce.vegetables.filter(ingredient => !unavailable.includes(ingredient))
+  const seafood = produce.seafood.filter(ingredient => !unavailable.includes(ingredient))
+  const outOfSeason = getOutOfSeasonIngredients(month).filter(ingredient => !mustUse.includes(ingredient))
+
+  const lines = [`菜单对应${month}月（${produce.solarTerms.join('、')}），请优先使用${calendar.region}地区的当季食材，素菜和凉菜尽量以当季蔬菜为主料：`]
+  if (vegetables.length > 0) {
+    lines.push(`当季蔬菜：${vegetables.join('、')}`)
+  }
+  if (seafood.length > 0) {
+    lines.push(`当季水产：${seafood.join('、')}`)
+  }
+  if (outOfSeason.length > 0) {
+    lines.push(`以下食材不是当季，价格高、品质差，尽量不用：${outOfSeason.join('、')}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * 统计一周菜单用到的当季、过季食材
+ *
+ * @param weekMenu 一周菜单
+ * @param params 生成参数
+ * @returns 每种用到的食材和对应的菜品，旧菜单没有月份时返回null
+ */
+export function checkSeasonalIngredients(weekMenu: WeekMenu, params: GenerationParams): SeasonalCheckResult | null {
+  const month = params.seasonMonth
+  if (!month || !calendar.months[String(month)]) return null
+
+  const dishes = [...new Set(getServiceDays(params).flatMap(day => (weekMenu[day] || []).map(dish => dish.name)))]
+  const findUses = (ingredients: string[]): SeasonalIngredientUse[] => ingredients
+    .map(ingredient => ({ ingredient, dishes: dishes.filter(name => matchIngredient(name, ingredient)) }))
+    .filter(use => use.dishes.length > 0)
+
+  return {
+    month,
+    solarTerms: calendar.months[String(month)].solarTerms,
+    inSeason: findUses(getInSeasonIngredients(month)),
+    outOfSeason: findUses(getOutOfSeasonIngredients(month)),
+  }
+}
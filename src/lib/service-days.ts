@@ -0,0 +1,46 @@
+/**
+ * 供餐日配置模块
+ *
+ * 机关、学校食堂一般周一到周五供餐，工厂、医院食堂每周供餐6天或7天。
+ * 食堂可以配置供餐日，生成、校验、历史菜数量和表格导出都按供餐日计算。
+ * 没有配置的食堂使用周一到周五。
+ *
+ * 生成时把供餐日快照写入 GenerationParams.serviceDays，之后的校验和
+ * 局部重新生成以快照为准；旧菜单没有快照，按周一到周五处理。
+ *
+ * 本模块不访问数据库，前端和服务端共用。
+ */
+
+import { DEFAULT_SERVICE_DAYS, WEEK_DAYS } from './menu-format'
+import type { GenerationParams, WeekDay } from '@/types'
+
+/**
+ * 校验并规范化供餐日
+ *
+ * 去掉重复的日子并按周一到周日排序，至少需要一天。
+ *
+ * @param raw 请求中的供餐日
+ * @returns 规范化后的供餐日，格式错误或为空时返回null
+ */
+export function readServiceDays(raw: unknown): WeekDay[] | null {
+  if (!Array.isArray(raw) || raw.some(day => !WEEK_DAYS.includes(day as WeekDay))) {
+    return null
+  }
+
+  const days = WEEK_DAYS.filter(day => raw.includes(day))
+  return days.length > 0 ? days : null
+}
+
+/**
+ * 读取食堂保存的供餐日，没有配置或配置无效时使用周一到周五
+ */
+export function getConfiguredServiceDays(raw: unknown): WeekDay[] {
+  return readServiceDays(raw) || [...DEFAULT_SERVICE_DAYS]
+}
+
+/**
+ * 获取生成参数对应的供餐日，旧菜单的生成参数没有快照时使用周一到周五
+ */
+export function getServiceDays(params: GenerationParams): WeekDay[] {
+  return (params.serviceDays && readServiceDays(params.serviceDays)) || [...DEFAULT_SERVICE_DAYS]
+}
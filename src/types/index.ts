@@ -5,6 +5,14 @@ export interface Canteen {
   coldDishCount: number
   mealType: string
   historicalMenus: string[][]
+  repeatAvoidanceWeeks: number
+  menuRetentionCount: number
+  dailyGenerationQuota: number | null
+  monthlyGenerationQuota: number | null
+  mealSlots: MealSlot[] | null
+  serviceDays: WeekDay[] | null
+  equipment: EquipmentItem[] | null
+  menuRules: MenuRuleSettings | null
   createdAt: Date
   updatedAt: Date
 }
@@ -14,15 +22,97 @@ export interface Menu {
   canteenId: string
   weekMenu: WeekMenu
   generationParams: GenerationParams
+  /** 菜单对应周的周一，旧菜单为空 */
+  weekStart: Date | null
+  /** 所属的多周循环菜单和在循环中是第几周，单周生成的菜单为空 */
+  cycleId: string | null
+  cycleWeek: number | null
+  revision: number
+  pinned: boolean
+  archivedAt: Date | null
   createdAt: Date
+  updatedAt: Date
+}
+
+export type MenuRevisionSource = 'generate' | 'regenerate' | 'edit'
+
+export interface MenuRevision {
+  id: string
+  menuId: string
+  revision: number
+  weekMenu: WeekMenu
+  source: MenuRevisionSource
+  summary: string | null
+  createdAt: Date
+}
+
+export type DishType = 'mainMeat' | 'halfMeat' | 'vegetarian' | 'cold'
+
+export interface DishItem {
+  name: string
+  type: DishType
+  isHistorical: boolean
+  /** 所属餐次名称（如"早餐"），只配置了午餐的旧菜单没有此字段 */
+  meal?: string
+}
+
+/** 餐次配置，热菜数量等于主荤、半荤、素菜数量之和 */
+export interface MealSlot {
+  name: string
+  hotDishCount: number
+  coldDishCount: number
+  mainMeatCount: number
+  halfMeatCount: number
+  vegetarianCount: number
+}
+
+export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday'
+
+/** 一周菜单，只包含食堂供餐的日子，旧菜单为周一到周五 */
+export type WeekMenu = Partial<Record<WeekDay, DishItem[]>>
+
+/** 可以排除的过敏原 */
+export type Allergen = 'peanut' | 'treeNut' | 'shellfish' | 'fish' | 'egg' | 'milk' | 'soy' | 'sesame'
+
+/** 治疗膳食：低盐、低油 */
+export type TherapeuticDiet = 'lowSodium' | 'lowFat'
+
+/** 餐制类型：定价餐按份打菜，自助餐由就餐者从保温餐炉中自取 */
+export type MealType = '定价餐' | '自助餐'
+
+/** 烹饪设备：炒锅、蒸屉、烤箱、炖锅、烧锅、砂锅、炸炉 */
+export type EquipmentKind = 'wok' | 'steamer' | 'oven' | 'stewPot' | 'braiser' | 'claypot' | 'fryer'
+
+/** 食堂登记的一种烹饪设备 */
+export interface EquipmentItem {
+  kind: EquipmentKind
+  /** 台数，0表示没有这种设备 */
+  quantity: number
+  /** 每台每餐可以出的菜品道数 */
+  capacity: number
+}
+
+/** 食堂对一条开菜规则的设置 */
+export interface MenuRuleSetting {
+  /** 规则ID，对应 docs/ai-prompt-template.json 中的开菜规则 */
+  id: string
+  enabled: boolean
+  /** 规则的阈值（如每餐勾芡菜上限），规则没有阈值时为空 */
+  threshold?: number
+}
+
+/** 食堂的开菜规则：内置规则的开关和阈值，以及食堂自己补充的规则 */
+export interface MenuRuleSettings {
+  rules: MenuRuleSetting[]
+  customRules: string[]
 }
 
-export interface WeekMenu {
-  monday: string[]
-  tuesday: string[]
-  wednesday: string[]
-  thursday: string[]
-  friday: string[]
+/** 自助餐备餐计划，用于估算每道菜需要准备的盘数 */
+export interface BuffetPlan {
+  /** 预计每餐就餐人数 */
+  guestCount: number
+  /** 每盘（保温餐炉的一个份盘）可供取用的份数 */
+  servingsPerTray: number
 }
 
 export interface GenerationParams {
@@ -36,10 +126,295 @@ export interface GenerationParams {
   flavorDiversity: boolean
   workRatio: string
   ingredientDiversity: string
+  /** 本次生成的餐次名称，为空时生成食堂配置的全部餐次 */
+  meals?: string[]
+  /** 生成时的餐次配置快照，只配置了午餐的食堂为空 */
+  mealSlots?: MealSlot[]
+  /** 生成时的供餐日快照，旧菜单为空表示周一到周五；指定了日期时已按节假日调整 */
+  serviceDays?: WeekDay[]
+  /** 菜单对应周的周一（YYYY-MM-DD），旧菜单为空 */
+  weekStart?: string
+  /** 菜单对应周中的节假日、调休和节日，随生成参数一起保存 */
+  calendarEvents?: CalendarEvent[]
+  /** 清真：不使用猪肉、猪油等猪源食材 */
+  halal?: boolean
+  /** 全素日：当天不使用肉禽鱼虾，可以使用蛋奶 */
+  meatlessDays?: WeekDay[]
+  /** 低盐、低油等治疗膳食要求 */
+  therapeuticDiets?: TherapeuticDiet[]
+  /** 需要排除的过敏原 */
+  excludedAllergens?: Allergen[]
+  /** 这周需要消化库存的必用食材 */
+  mustUseIngredients?: MustUseIngredient[]
+  /** 这周缺货、不能使用的食材 */
+  unavailableIngredients?: string[]
+  /** 菜单对应的月份（1-12），按这个月的时令食材生成，旧菜单为空 */
+  seasonMonth?: number
+  /** 生成时的餐制类型快照，旧菜单为空，按定价餐处理 */
+  mealType?: MealType
+  /** 自助餐的备餐计划，定价餐或未填写时为空 */
+  buffet?: BuffetPlan
+  /** 生成时的烹饪设备快照，没有登记设备的食堂为空，按equipmentShortage生成 */
+  equipment?: EquipmentItem[]
+  /** 生成时的开菜规则快照，旧菜单为空，按默认规则处理 */
+  menuRules?: MenuRuleSettings
+  /** 生成时使用的Prompt模板版本，为空表示内置模板 */
+  promptVersion?: number
 }
 
-export interface DishItem {
+/** 必用食材：一周菜单中至少有minCount道菜使用 */
+export interface MustUseIngredient {
+  name: string
+  minCount: number
+  /** 库存说明，如"50kg"，只写入Prompt */
+  quantity?: string
+}
+
+/**
+ * 菜单对应周中影响供餐的日期
+ *
+ * - closure: 法定节假日放假，原本供餐的这天不供餐
+ * - workday: 调休上班，原本不供餐的周末这天供餐
+ * - festival: 节日，在day这天安排应节菜品（节日当天放假时提前到之前最近的供餐日）
+ */
+export interface CalendarEvent {
+  kind: 'closure' | 'workday' | 'festival'
+  day: WeekDay
+  /** 节假日或节日的实际日期（YYYY-MM-DD） */
+  date: string
+  name: string
+  /** 推荐的应节菜品，只有festival有 */
+  dishes?: string[]
+}
+
+export interface ValidationRuleResult {
+  rule: string
+  label: string
+  passed: boolean
+  violations: string[]
+}
+
+export interface MenuValidationReport {
+  passed: boolean
+  rules: ValidationRuleResult[]
+}
+
+export interface HistoricalRelabel {
+  day: keyof WeekMenu
+  name: string
+  labeledHistorical: boolean
+  matchedHistoricalDish: string | null
+}
+
+export interface HistoricalCheckResult {
+  requestedRatio: number
+  actualRatio: number
+  historicalCount: number
+  totalCount: number
+  relabeled: HistoricalRelabel[]
+}
+
+export interface RepeatedDish {
+  day: keyof WeekMenu
   name: string
-  type: 'mainMeat' | 'halfMeat' | 'vegetarian' | 'cold'
   isHistorical: boolean
+  lastServedAt: string
+}
+
+/** 菜单中用到某种时令食材的菜品 */
+export interface SeasonalIngredientUse {
+  ingredient: string
+  dishes: string[]
+}
+
+/** 按菜单对应月份统计的时令食材使用情况 */
+export interface SeasonalCheckResult {
+  month: number
+  solarTerms: string[]
+  inSeason: SeasonalIngredientUse[]
+  outOfSeason: SeasonalIngredientUse[]
+}
+
+export interface RepeatCheckResult {
+  windowWeeks: number
+  repeats: RepeatedDish[]
+}
+
+export type GenerationProgressEvent =
+  | { type: 'prompt'; historicalTarget: number; recentDishCount: number }
+  | { type: 'attempt'; attempt: number; maxAttempts: number }
+  | { type: 'day'; attempt: number; day: keyof WeekMenu; dishes: DishItem[] }
+  | { type: 'restart'; attempt: number }
+  | { type: 'parse_error'; attempt: number }
+  | { type: 'validation'; attempt: number; report: MenuValidationReport }
+
+export interface MenuSlot {
+  day: keyof WeekMenu
+  index: number
+}
+
+export interface MenuLocks {
+  days: Array<keyof WeekMenu>
+  dishes: MenuSlot[]
+}
+
+export type GenerationRunKind = 'generate' | 'regenerate'
+
+export type GenerationAttemptOutcome = 'passed' | 'validation_failed' | 'parse_error' | 'llm_error'
+
+export interface GenerationAttemptLog {
+  attempt: number
+  outcome: GenerationAttemptOutcome
+  response: string | null
+  /** 未通过的规则、历史标注修正和重复菜等问题 */
+  problems: string[]
+  /** 本次之后追加给AI的纠正消息 */
+  correction: string | null
+  error: string | null
+  latencyMs: number
+  promptTokens: number
+  completionTokens: number
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+/** 生成任务的当前进度，取自最近一次生成进度事件 */
+export interface GenerationJobProgress {
+  stage: GenerationProgressEvent['type']
+  attempt: number
+  maxAttempts: number
+  /** 最近一次规则校验结果 */
+  validation: MenuValidationReport | null
+  /** 同时生成多份候选方案时，已完成的份数 */
+  completedCandidates: number
+  /** 生成多周循环菜单时，已完成的周数 */
+  completedWeeks: number
+}
+
+/** 同时生成的多份候选菜单之一 */
+export interface MenuCandidate {
+  index: number
+  status: 'succeeded' | 'failed'
+  weekMenu: WeekMenu | null
+  validation: MenuValidationReport | null
+  historicalCheck: HistoricalCheckResult | null
+  repeatCheck: RepeatCheckResult | null
+  attempts: number
+  runId: string | null
+  /** 0-100，违规项和近期重复越少分数越高 */
+  score: number
+  error: string | null
+}
+
+/** 每天选用第几份候选方案（从0开始） */
+export type CandidateSelection = Partial<Record<WeekDay, number>>
+
+export interface GenerationJob {
+  id: string
+  status: GenerationJobStatus
+  progress: GenerationJobProgress | null
+  candidateCount: number
+  /** 多份候选方案的生成结果，选定并保存之前menuId为空 */
+  candidates: MenuCandidate[] | null
+  /** 连续生成的周数，大于1时成功后cycleId为保存的循环菜单 */
+  cycleWeeks: number
+  cycleId: string | null
+  /** 生成中为已完成的天，成功后为最终菜单 */
+  weekMenu: WeekMenu | null
+  /** 菜单对应周的周一和这周的节假日，未指定日期时为null和空数组 */
+  weekStart: string | null
+  calendarEvents: CalendarEvent[]
+  menuId: string | null
+  runId: string | null
+  validation: MenuValidationReport | null
+  historicalCheck: HistoricalCheckResult | null
+  repeatCheck: RepeatCheckResult | null
+  /** 按当前菜单统计，旧菜单或尚未生成任何一天时为null */
+  seasonalCheck: SeasonalCheckResult | null
+  attempts: number
+  error: string | null
+  createdAt: Date
+  startedAt: Date | null
+  finishedAt: Date | null
+}
+
+/** 循环菜单中已经用过的菜品，week为第一次出现在第几周 */
+export interface CycleDish {
+  name: string
+  week: number
+}
+
+/** 多周循环菜单中的一周 */
+export interface MenuCycleWeek {
+  menuId: string
+  cycleWeek: number
+  weekMenu: WeekMenu
+  generationParams: GenerationParams
+  /** 按这周的生成参数重新校验，包括与之前各周菜品不重复 */
+  validation: MenuValidationReport
+  seasonalCheck: SeasonalCheckResult | null
+}
+
+/** 多周循环菜单 */
+export interface MenuCycle {
+  id: string
+  weekCount: number
+  /** 第1周的周一，未指定日期时为null */
+  startWeek: string | null
+  weeks: MenuCycleWeek[]
+  createdAt: Date
+}
+
+export interface GenerationQuotaUsage {
+  /** 次数上限，null表示不限制 */
+  limit: number | null
+  used: number
+  /** 剩余次数，null表示不限制 */
+  remaining: number | null
+  /** 下次重置的时间 */
+  resetAt: Date
+}
+
+export interface GenerationQuota {
+  daily: GenerationQuotaUsage
+  monthly: GenerationQuotaUsage
+}
+
+/** Prompt模板中可以调整的文字部分 */
+export interface PromptTemplateContent {
+  /** 系统提示，{天数}、{餐次}在生成时填写 */
+  systemPrompt: string
+  /** 生成参数对应的要求，如"设备要求"中"蒸屉"对应的文字 */
+  parameterMappings: Record<string, Record<string, string>>
+  /** 参考数据：原材料、烹饪方式、风味 */
+  referenceData: Record<string, string>
+  /** 【菜品分类定义】的内容 */
+  categoryDefinitions: string
+}
+
+/** 保存在数据库中的一个Prompt模板版本 */
+export interface PromptTemplateVersion {
+  version: number
+  /** 本版本的修改说明 */
+  description: string
+  content: PromptTemplateContent
+  /** 流量权重，0表示不参与分配 */
+  trafficWeight: number
+  createdAt: string
+}
+
+/** 一个Prompt模板版本在统计期内的生成效果 */
+export interface PromptVersionMetrics {
+  /** 模板版本，null表示内置模板 */
+  version: number | null
+  /** 完整生成的次数（不含局部重新生成） */
+  runCount: number
+  /** 最终菜单通过全部规则校验的比例（0-1），生成失败计为未通过 */
+  passRate: number
+  /** 平均每次生成的纠正重试次数 */
+  averageRetries: number
+  /** 保存的菜单中被厨师手动编辑过的比例（0-1），没有保存的菜单时为null */
+  editRate: number | null
+  /** 平均每次生成的总耗时（毫秒） */
+  averageLatencyMs: number
 }